@@ -0,0 +1,250 @@
+import { AgentsCapability, AgentsManifest, AgentsTxt, AgentsTxtDiagnostic, AgentsTxtParseResult } from './types';
+
+const CAPABILITY_NAME = /^[a-z][a-z0-9_.]*$/;
+
+/** Method, session requirement and path params of the built-in capabilities, which agents.txt does not state. */
+const BUILT_INS: Record<string, Pick<AgentsCapability, 'method' | 'requires_session' | 'human_handoff' | 'params'>> = {
+  'search': { method: 'GET' },
+  'browse': { method: 'GET' },
+  'detail': { method: 'GET', params: { id: { type: 'string', required: true } } },
+  'cart.add': { method: 'POST', requires_session: true },
+  'cart.view': { method: 'GET', requires_session: true },
+  'cart.update': { method: 'PUT', requires_session: true },
+  'cart.remove': { method: 'DELETE', requires_session: true },
+  'checkout': { method: 'POST', requires_session: true, human_handoff: true },
+  'contact': { method: 'POST' },
+};
+
+/**
+ * Parse an agents.txt file following the algorithm in spec/agents-txt.md.
+ * Also accepts the older SDK keys (`Site`, `Allow`, `Agents-JSON`, `Flow`).
+ * Never throws: malformed lines are reported as diagnostics with their line numbers.
+ */
+export function parseAgentsTxt(text: string): AgentsTxtParseResult {
+  const agentsTxt: AgentsTxt = {
+    capabilities: [],
+    capabilityRateLimits: {},
+    audit: false,
+    flows: [],
+    extensions: {},
+  };
+  const diagnostics: AgentsTxtDiagnostic[] = [];
+  const seen = new Map<string, number>();
+
+  const error = (line: number, message: string) => diagnostics.push({ line, severity: 'error', message });
+  const warn = (line: number, message: string) => diagnostics.push({ line, severity: 'warning', message });
+
+  /** Single-valued fields: the last occurrence wins, with a warning. */
+  const once = (key: string, line: number) => {
+    const previous = seen.get(key);
+    if (previous !== undefined) warn(line, `${key} repeats line ${previous}; the later value wins`);
+    seen.set(key, line);
+  };
+
+  const addCapability = (name: string, line: number) => {
+    if (!CAPABILITY_NAME.test(name)) {
+      warn(line, `Capability name "${name}" should be lowercase letters, digits, "_" and "."`);
+    }
+    if (!agentsTxt.capabilities.includes(name)) agentsTxt.capabilities.push(name);
+  };
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1;
+    const trimmed = raw.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) return;
+
+    const colon = trimmed.indexOf(':');
+    if (colon <= 0) {
+      error(line, `Expected "Key: Value", got "${trimmed}"`);
+      return;
+    }
+    const key = trimmed.slice(0, colon).trim();
+    const value = trimmed.slice(colon + 1).trim();
+    if (value === '') {
+      warn(line, `${key} has no value`);
+      return;
+    }
+
+    switch (key.toLowerCase()) {
+      case 'name':
+        once('Name', line);
+        agentsTxt.name = value;
+        break;
+      case 'site':
+        // Legacy alias; a spec `Name` line takes precedence wherever it appears.
+        once('Site', line);
+        if (!seen.has('Name')) agentsTxt.name = value;
+        break;
+      case 'url':
+        once('URL', line);
+        if (!isAbsoluteUrl(value)) error(line, `URL must be an absolute URL with a scheme, got "${value}"`);
+        agentsTxt.url = value;
+        break;
+      case 'description':
+        once('Description', line);
+        agentsTxt.description = value;
+        break;
+      case 'contact':
+        once('Contact', line);
+        agentsTxt.contact = value;
+        break;
+      case 'capabilities':
+        for (const name of value.split(',').map(n => n.trim())) {
+          if (name) addCapability(name, line);
+        }
+        break;
+      case 'allow':
+        addCapability(value, line);
+        break;
+      case 'capabilities-url':
+        once('Capabilities-URL', line);
+        agentsTxt.capabilitiesUrl = value;
+        break;
+      case 'agents-json':
+        once('Agents-JSON', line);
+        if (!seen.has('Capabilities-URL')) agentsTxt.capabilitiesUrl = value;
+        break;
+      case 'agent-api':
+        once('Agent-API', line);
+        agentsTxt.agentApi = value.replace(/\/$/, '');
+        break;
+      case 'session-endpoint':
+        once('Session-Endpoint', line);
+        agentsTxt.sessionEndpoint = value;
+        break;
+      case 'docs':
+        once('Docs', line);
+        agentsTxt.docs = value;
+        break;
+      case 'rate-limit': {
+        once('Rate-Limit', line);
+        const perMinute = parsePerMinute(value);
+        if (perMinute === null) error(line, `Rate-Limit must be a positive number of requests per minute, got "${value}"`);
+        else agentsTxt.rateLimit = perMinute;
+        break;
+      }
+      case 'capability-rate-limit': {
+        const match = /^(\S+)\s+(.+?)(?:\s*,\s*burst\s+(\d+))?$/i.exec(value);
+        const perMinute = match ? parsePerMinute(match[2]) : null;
+        if (!match || perMinute === null) {
+          error(line, `Capability-Rate-Limit must look like "checkout 5/minute, burst 2", got "${value}"`);
+          break;
+        }
+        agentsTxt.capabilityRateLimits[match[1]] = {
+          requests_per_minute: perMinute,
+          ...(match[3] && { burst: Number(match[3]) }),
+        };
+        break;
+      }
+      case 'session-ttl': {
+        once('Session-TTL', line);
+        const seconds = /^(\d+)\s*s?$/i.exec(value);
+        if (!seconds) error(line, `Session-TTL must be a number of seconds, got "${value}"`);
+        else agentsTxt.sessionTtl = Number(seconds[1]);
+        break;
+      }
+      case 'audit':
+        once('Audit', line);
+        if (!/^(true|false)$/i.test(value)) error(line, `Audit must be "true" or "false", got "${value}"`);
+        else agentsTxt.audit = value.toLowerCase() === 'true';
+        break;
+      case 'audit-endpoint':
+        once('Audit-Endpoint', line);
+        agentsTxt.auditEndpoint = value;
+        break;
+      case 'flow': {
+        const match = /^(.+?)\s*(?:→|->)\s*(.+)$/.exec(value);
+        if (!match) {
+          error(line, `Flow must look like "purchase → search, checkout", got "${value}"`);
+          break;
+        }
+        agentsTxt.flows.push({ name: match[1], steps: match[2].split(',').map(s => s.trim()).filter(Boolean) });
+        break;
+      }
+      case 'flow-description': {
+        const flow = agentsTxt.flows[agentsTxt.flows.length - 1];
+        if (!flow) warn(line, 'Flow-Description must follow a Flow line');
+        else flow.description = value;
+        break;
+      }
+      default:
+        warn(line, `Unknown field "${key}"`);
+        agentsTxt.extensions[key] = value;
+    }
+  });
+
+  if (!agentsTxt.name) diagnostics.push({ severity: 'error', message: 'Missing required field Name' });
+  if (!agentsTxt.url) diagnostics.push({ severity: 'error', message: 'Missing required field URL' });
+  if (agentsTxt.capabilities.length === 0) {
+    diagnostics.push({ severity: 'error', message: 'Missing required field Capabilities' });
+  }
+
+  return { agentsTxt, diagnostics, valid: !diagnostics.some(d => d.severity === 'error') };
+}
+
+/**
+ * Build a minimal manifest from agents.txt for sites that publish no agents.json.
+ * Endpoints follow the SDK's route layout under `Agent-API`; capabilities other
+ * than the built-ins are assumed to be read-only GETs, as the spec requires of
+ * agents.txt-only sites.
+ */
+export function manifestFromAgentsTxt(agentsTxt: AgentsTxt, siteUrl: string): AgentsManifest {
+  const origin = agentsTxt.url ?? siteUrl;
+  const apiBase = resolve(agentsTxt.agentApi ?? '/.well-known/agents/api', origin);
+
+  return {
+    protocol_version: '0.1.0',
+    site: {
+      name: agentsTxt.name ?? origin,
+      url: origin,
+      ...(agentsTxt.description && { description: agentsTxt.description }),
+      ...(agentsTxt.contact && { contact: agentsTxt.contact }),
+    },
+    capabilities: agentsTxt.capabilities.map(name => {
+      const path = name === 'detail' ? 'detail/:id' : name.split('.').join('/');
+      const limit = agentsTxt.capabilityRateLimits[name];
+      return {
+        name,
+        description: name,
+        endpoint: `${apiBase}/${path}`,
+        ...(BUILT_INS[name] ?? { method: 'GET' as const }),
+        ...(limit && { rate_limit: limit }),
+      };
+    }),
+    ...(agentsTxt.flows.length > 0 && {
+      flows: agentsTxt.flows.map(f => ({ name: f.name, description: f.description ?? f.name, steps: f.steps })),
+    }),
+    session: {
+      create: resolve(agentsTxt.sessionEndpoint ?? `${apiBase}/session`, origin),
+      delete: resolve(agentsTxt.sessionEndpoint ?? `${apiBase}/session`, origin),
+      ...(agentsTxt.sessionTtl && { ttl_seconds: agentsTxt.sessionTtl }),
+    },
+    ...(agentsTxt.rateLimit && { rate_limit: { requests_per_minute: agentsTxt.rateLimit } }),
+    ...(agentsTxt.audit && { audit: { enabled: true, endpoint: auditEndpoint(agentsTxt, apiBase, origin) } }),
+    ...(agentsTxt.docs && { docs_url: agentsTxt.docs }),
+  };
+}
+
+/** The spec's `Audit-Endpoint` is a base URL; the client expects a `:session_id` template. */
+function auditEndpoint(agentsTxt: AgentsTxt, apiBase: string, origin: string): string {
+  const endpoint = resolve(agentsTxt.auditEndpoint ?? `${apiBase}/audit`, origin);
+  return endpoint.includes(':session_id') ? endpoint : `${endpoint}/:session_id`;
+}
+
+function parsePerMinute(value: string): number | null {
+  const match = /^(\d+)\s*(?:\/\s*min(?:ute)?)?$/i.exec(value.trim());
+  if (!match || Number(match[1]) <= 0) return null;
+  return Number(match[1]);
+}
+
+function isAbsoluteUrl(value: string): boolean {
+  try {
+    return Boolean(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function resolve(pathOrUrl: string, base: string): string {
+  return new URL(pathOrUrl, base).toString().replace(/\/$/, '');
+}
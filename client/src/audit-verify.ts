@@ -0,0 +1,221 @@
+/**
+ * Offline verification of audit artifacts (spec/audit.md, "Offline Verification").
+ *
+ * Sites running the SDK serve RER run artifacts: `envelope`, hash-chained `events`
+ * and `runtime_signature`. This module checks them with the same encoding the SDK
+ * uses to sign the envelope:
+ *
+ * - JSON is canonicalized with JCS (RFC 8785) before it is hashed or signed.
+ * - `header.event_hash` is the hex SHA-256 of the canonical event without that
+ *   field. `header.parent_event_hash` is the previous event's hash, `null` first.
+ * - The root hash is the hex SHA-256 of the event hashes concatenated in order.
+ *   Artifacts that state a `root_hash` must match it.
+ * - `envelope.envelope_signature` signs the canonical envelope without that field;
+ *   `runtime_signature` signs the canonical artifact without that field.
+ * - Signatures are Ed25519, base64 encoded (base64url and hex are accepted).
+ */
+
+import { createHash, createPublicKey, KeyObject, verify } from 'crypto';
+import { AgentClientError } from './http';
+import { AuditJwk } from './types';
+
+/** Base64 DER SPKI (as in agents.json `audit.public_key`), raw 32 bytes or DER bytes, or a JWK. */
+export type AuditPublicKeyInput = string | Uint8Array | AuditJwk;
+
+export interface AuditCheck {
+  valid: boolean;
+  /** Why the check failed */
+  reason?: string;
+}
+
+export interface ArtifactVerificationReport {
+  valid: boolean;
+  chain: AuditCheck & {
+    /** Index of the first event whose hash or parent link is wrong */
+    brokenAt?: number;
+    eventId?: string;
+  };
+  rootHash: AuditCheck & { computed?: string };
+  signature: AuditCheck;
+  envelopeSignature: AuditCheck;
+  /** RFC 7638 thumbprint of the key the signatures were checked against */
+  keyId: string;
+}
+
+/** Thrown by `AgentClient.getAuditArtifact({ verify: true })` for an artifact that fails verification. */
+export class AuditVerificationError extends AgentClientError {
+  constructor(public readonly report: ArtifactVerificationReport) {
+    super(`Audit artifact failed verification: ${failures(report).join('; ')}`);
+    this.name = 'AuditVerificationError';
+  }
+}
+
+type Json = Record<string, unknown>;
+
+/** Byte prefix of a DER SPKI Ed25519 public key; the raw 32-byte key follows it. */
+const SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export function verifyArtifact(artifact: unknown, publicKey: AuditPublicKeyInput): ArtifactVerificationReport {
+  const key = toPublicKey(publicKey);
+  const keyId = thumbprint(key);
+
+  if (!isObject(artifact) || !Array.isArray(artifact.events)) {
+    const malformed = { valid: false, reason: 'artifact is not an object with an events array' };
+    return { valid: false, chain: malformed, rootHash: malformed, signature: malformed, envelopeSignature: malformed, keyId };
+  }
+
+  const { chain, hashes } = checkChain(artifact.events);
+  const rootHash = checkRootHash(artifact, hashes);
+  const { runtime_signature: signature, ...signedArtifact } = artifact;
+  const runtimeCheck = checkSignature(signedArtifact, signature, key, 'runtime_signature');
+
+  let envelopeSignature: AuditCheck;
+  if (!isObject(artifact.envelope)) {
+    envelopeSignature = { valid: false, reason: 'artifact has no envelope' };
+  } else {
+    const { envelope_signature: sig, ...signedEnvelope } = artifact.envelope;
+    envelopeSignature = checkSignature(signedEnvelope, sig, key, 'envelope_signature');
+  }
+
+  return {
+    valid: chain.valid && rootHash.valid && runtimeCheck.valid && envelopeSignature.valid,
+    chain,
+    rootHash,
+    signature: runtimeCheck,
+    envelopeSignature,
+    keyId,
+  };
+}
+
+/**
+ * Verify against a site's published keys (the audit key endpoint's `keys`).
+ * Only keys whose validity window contains the session's start may have signed it.
+ */
+export function verifyArtifactWithKeys(artifact: unknown, keys: AuditJwk[]): ArtifactVerificationReport {
+  if (keys.length === 0) throw new TypeError('No audit keys to verify against');
+  const startedAt = isObject(artifact) && isObject(artifact.envelope) ? artifact.envelope.created_at : undefined;
+  const active = typeof startedAt === 'string' ? keys.filter(k => activeAt(k, startedAt)) : keys;
+
+  const reports = (active.length > 0 ? active : keys).map(k => verifyArtifact(artifact, k));
+  const report = reports.find(r => r.valid) ?? reports[0];
+  if (active.length === 0) {
+    const reason = `no published key was active when the session started (${startedAt})`;
+    return { ...report, valid: false, signature: { valid: false, reason } };
+  }
+  return report;
+}
+
+/** One line per check, e.g. for the command-line verifier. */
+export function formatVerificationReport(report: ArtifactVerificationReport): string {
+  const line = (label: string, check: AuditCheck) => `${check.valid ? 'ok  ' : 'FAIL'} ${label}${check.reason ? `: ${check.reason}` : ''}`;
+  return [
+    `${report.valid ? 'VALID' : 'INVALID'} (key ${report.keyId})`,
+    line('hash chain', report.chain),
+    line(`root hash${report.rootHash.computed ? ` ${report.rootHash.computed}` : ''}`, report.rootHash),
+    line('runtime signature', report.signature),
+    line('envelope signature', report.envelopeSignature),
+  ].join('\n');
+}
+
+function checkChain(events: unknown[]): { chain: ArtifactVerificationReport['chain']; hashes: string[] } {
+  const hashes: string[] = [];
+  for (const [i, event] of events.entries()) {
+    if (!isObject(event) || !isObject(event.header)) {
+      return { chain: { valid: false, brokenAt: i, reason: `event ${i} has no header` }, hashes };
+    }
+    const { event_hash: stated, ...header } = event.header;
+    const eventId = typeof header.event_id === 'string' ? header.event_id : undefined;
+    const broken = (reason: string) => ({ chain: { valid: false, brokenAt: i, eventId, reason }, hashes });
+
+    const computed = sha256(canonicalJson({ ...event, header }));
+    if (stated !== computed) return broken(`event ${i} does not match its event_hash`);
+    const parent = i === 0 ? null : hashes[i - 1];
+    if ((header.parent_event_hash ?? null) !== parent) {
+      return broken(i === 0 ? 'first event has a parent_event_hash' : `event ${i} does not link to event ${i - 1}`);
+    }
+    hashes.push(computed);
+  }
+  return { chain: { valid: true }, hashes };
+}
+
+function checkRootHash(artifact: Json, hashes: string[]): ArtifactVerificationReport['rootHash'] {
+  if (hashes.length !== (artifact.events as unknown[]).length) {
+    return { valid: false, reason: 'cannot compute the root hash of a broken chain' };
+  }
+  const computed = sha256(hashes.join(''));
+  if (artifact.root_hash !== undefined && artifact.root_hash !== computed) {
+    return { valid: false, computed, reason: `root_hash is ${artifact.root_hash}` };
+  }
+  return { valid: true, computed };
+}
+
+function checkSignature(signed: Json, signature: unknown, key: KeyObject, field: string): AuditCheck {
+  if (typeof signature !== 'string' || signature === '') return { valid: false, reason: `${field} is missing` };
+  const bytes = /^[0-9a-f]{128}$/i.test(signature) ? Buffer.from(signature, 'hex') : Buffer.from(signature, 'base64');
+  let valid = false;
+  try {
+    valid = verify(null, Buffer.from(canonicalJson(signed)), key, bytes);
+  } catch {
+    // Malformed signature bytes; reported as invalid below
+  }
+  return valid ? { valid } : { valid, reason: `${field} does not verify against key ${thumbprint(key)}` };
+}
+
+function activeAt(key: AuditJwk, iso: string): boolean {
+  const at = Date.parse(iso);
+  return (!key.not_before || at >= Date.parse(key.not_before)) && (!key.not_after || at < Date.parse(key.not_after));
+}
+
+function toPublicKey(input: AuditPublicKeyInput): KeyObject {
+  let key: KeyObject;
+  if (typeof input === 'string') {
+    key = createPublicKey({ key: Buffer.from(input, 'base64'), format: 'der', type: 'spki' });
+  } else if (input instanceof Uint8Array) {
+    const der = input.length === 32 ? Buffer.concat([SPKI_PREFIX, input]) : Buffer.from(input);
+    key = createPublicKey({ key: der, format: 'der', type: 'spki' });
+  } else {
+    key = createPublicKey({ key: { kty: input.kty, crv: input.crv, x: input.x }, format: 'jwk' });
+  }
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new TypeError(`Audit public key must be Ed25519, got ${key.asymmetricKeyType}`);
+  }
+  return key;
+}
+
+/** RFC 7638 thumbprint, the `kid` the site publishes for this key. */
+function thumbprint(key: KeyObject): string {
+  const { x } = key.export({ format: 'jwk' });
+  return createHash('sha256').update(`{"crv":"Ed25519","kty":"OKP","x":"${x}"}`).digest('base64url');
+}
+
+function failures(report: ArtifactVerificationReport): string[] {
+  const checks: [string, AuditCheck][] = [
+    ['hash chain', report.chain],
+    ['root hash', report.rootHash],
+    ['runtime signature', report.signature],
+    ['envelope signature', report.envelopeSignature],
+  ];
+  return checks.filter(([, c]) => !c.valid).map(([label, c]) => `${label}: ${c.reason}`);
+}
+
+/** RFC 8785. JSON.stringify already serializes strings and finite numbers as JCS requires. */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(v => canonicalJson(v ?? null)).join(',')}]`;
+  if (isObject(value)) {
+    // Default sort compares UTF-16 code units, which is the order JCS specifies.
+    const members = Object.keys(value).sort()
+      .filter(k => value[k] !== undefined)
+      .map(k => `${JSON.stringify(k)}:${canonicalJson(value[k])}`);
+    return `{${members.join(',')}}`;
+  }
+  if (typeof value === 'number' && !Number.isFinite(value)) throw new TypeError('JCS cannot encode non-finite numbers');
+  return JSON.stringify(value);
+}
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+function isObject(value: unknown): value is Json {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
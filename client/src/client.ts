@@ -1,31 +1,41 @@
-import { AgentsManifest, AgentSession, AgentClientConfig, AgentsCapability, AgentsFlow, CartItem, CartView, CheckoutResult } from './types';
+import { AgentsManifest, AgentApproval, AgentSession, AgentSessionRequest, AgentSessionStatus, AgentClientConfig, AgentsCapability, AgentsFlow, ApiResponse, AuditDownloadLink, AuditJwk, AuditLiveLog, CartItem, CartView, CheckoutResult, DiscoverOptions } from './types';
 import { discover, discoverTxt } from './discover';
-import { createSession, endSession } from './session';
-import { request, AgentClientError } from './http';
+import { createSession, endSession, getSessionStatus, refreshSession } from './session';
+import { request, AgentClientError, ApprovalRequiredError } from './http';
+import { signingFetch } from './signing';
+import { AuditVerificationError, verifyArtifact, verifyArtifactWithKeys } from './audit-verify';
+import { pathParams } from './manifest';
 
 export class AgentClient {
   private manifest: AgentsManifest | null = null;
   private session: AgentSession | null = null;
+  /** The last session this client ended, whose sealed artifact can still be fetched */
+  private endedSession: { session_id: string; audit_access_token?: string } | null = null;
   private siteUrl: string;
   private fetchImpl: typeof fetch;
   private userAgent: string;
   private maxRetries: number;
   private retryDelay: number;
   private pageSize: number;
+  private discoverOptions: DiscoverOptions;
+  private verifyAuditArtifacts: boolean;
 
   constructor(siteUrl: string, config: AgentClientConfig = {}) {
     this.siteUrl = siteUrl.replace(/\/$/, '');
-    this.fetchImpl = config.fetch ?? fetch;
+    const baseFetch = config.agentKey ? signingFetch(config.fetch ?? fetch, config.agentKey) : config.fetch ?? fetch;
+    this.fetchImpl = this.trackSessionToken(baseFetch);
     this.userAgent = config.userAgent ?? '@agents-protocol/client/0.1.0';
     this.maxRetries = config.maxRetries ?? 3;
     this.retryDelay = config.retryDelay ?? 1000;
     this.pageSize = config.pageSize ?? 20;
+    this.discoverOptions = { strict: config.strictManifest, onWarning: config.onManifestWarning };
+    this.verifyAuditArtifacts = config.verifyAuditArtifacts ?? false;
   }
 
   /** Fetch agents.json and learn what this site supports (cached after first call) */
   async discover(): Promise<AgentsManifest> {
     if (!this.manifest) {
-      this.manifest = await discover(this.siteUrl, this.fetchImpl);
+      this.manifest = await discover(this.siteUrl, this.fetchImpl, this.discoverOptions);
     }
     return this.manifest;
   }
@@ -41,18 +51,41 @@ export class AgentClient {
     return manifest.flows ?? [];
   }
 
-  /** Create a session (required for cart, checkout, and other session-gated capabilities) */
-  async connect(): Promise<AgentSession> {
+  /**
+   * Create a session (required for cart, checkout, and other session-gated capabilities).
+   * `options` can narrow it to fewer capabilities, a shorter life or tighter limits,
+   * never widen it.
+   */
+  async connect(options: AgentSessionRequest = {}): Promise<AgentSession> {
     const manifest = await this.getManifest();
-    this.session = await createSession(manifest, this.fetchImpl);
+    this.session = await createSession(manifest, this.fetchImpl, options);
     return this.session;
   }
 
+  /** The current session's expiry, cart size and remaining limits */
+  async sessionStatus(): Promise<AgentSessionStatus> {
+    const session = await this.requireSession();
+    const manifest = await this.getManifest();
+    return getSessionStatus(manifest.session.create, session.session_token, this.fetchImpl);
+  }
+
+  /** Extend the current session by one TTL, up to the site's maximum lifetime */
+  async refreshSession(): Promise<AgentSessionStatus> {
+    const session = await this.requireSession();
+    const manifest = await this.getManifest();
+    const status = await refreshSession(manifest, session.session_token, this.fetchImpl);
+    this.session = { ...session, expires_at: status.expires_at };
+    return status;
+  }
+
   /** End the current session and seal the audit trail */
   async disconnect(): Promise<void> {
     if (!this.session) return;
     const manifest = await this.getManifest();
-    await endSession(manifest.session.create, this.session.session_token, this.fetchImpl);
+    const ended = await endSession(manifest.session.create, this.session.session_token, this.fetchImpl);
+    this.endedSession = ended?.session_id
+      ? { session_id: ended.session_id, audit_access_token: ended.audit_access_token }
+      : null;
     this.session = null;
   }
 
@@ -101,9 +134,10 @@ export class AgentClient {
   /** Get full details for a specific item by ID */
   async detail(id: string): Promise<unknown> {
     const cap = await this.requireCapability('detail');
-    const endpoint = cap.endpoint.replace(':id', encodeURIComponent(id));
+    const { endpoint, rest } = fillEndpoint(cap, { id });
     const res = await request<unknown>(endpoint, {
       method: 'GET',
+      query: rest as Record<string, string>,
       headers: this.authHeaders(),
       fetchImpl: this.fetchImpl,
     });
@@ -189,20 +223,26 @@ export class AgentClient {
   }
 
   /**
-   * Call any capability by name with raw params.
-   * Use this for capabilities not covered by the typed methods.
+   * Call any capability by name with raw params, for capabilities not covered by
+   * the typed methods. Params named by the endpoint's `:name` segments fill the
+   * path; the rest go in the query string or body. Throws ApprovalRequiredError
+   * when the site holds the call for a human; pass the approval's ID as
+   * `approvalId` to resume it once approved.
    */
-  async call(capabilityName: string, params?: Record<string, unknown>): Promise<unknown> {
+  async call(capabilityName: string, params?: Record<string, unknown>, options: { approvalId?: string } = {}): Promise<unknown> {
     const cap = await this.requireCapability(capabilityName);
     if (cap.requires_session && !this.session) {
       await this.connect();
     }
     const isGet = cap.method === 'GET' || cap.method === 'DELETE';
-    const res = await request(cap.endpoint, {
+    const { endpoint, rest } = fillEndpoint(cap, params);
+    const headers = this.authHeaders();
+    if (options.approvalId) headers['X-Approval-Id'] = options.approvalId;
+    const res = await request(endpoint, {
       method: cap.method,
-      query: isGet ? (params as Record<string, string | number | undefined>) : undefined,
-      body: !isGet ? params : undefined,
-      headers: this.authHeaders(),
+      query: isGet ? (rest as Record<string, string | number | undefined>) : undefined,
+      body: !isGet ? rest : undefined,
+      headers,
       fetchImpl: this.fetchImpl,
       maxRetries: this.maxRetries,
       retryDelay: this.retryDelay,
@@ -210,6 +250,52 @@ export class AgentClient {
     return this.unwrap(res, capabilityName);
   }
 
+  /**
+   * Call a capability, and if the site holds it for human approval, wait for the
+   * decision and resume it. `onPending` receives the approval, e.g. to show its
+   * `approval_url` to the user. Throws if the request is denied or expires.
+   */
+  async callWithApproval(
+    capabilityName: string,
+    params?: Record<string, unknown>,
+    options: { onPending?: (approval: AgentApproval) => void | Promise<void>; pollInterval?: number } = {},
+  ): Promise<unknown> {
+    try {
+      return await this.call(capabilityName, params);
+    } catch (err) {
+      if (!(err instanceof ApprovalRequiredError)) throw err;
+      await options.onPending?.(err.approval);
+      const decided = await this.waitForApproval(err.approval, { pollInterval: options.pollInterval });
+      if (decided.status !== 'approved') {
+        throw new AgentClientError(`Approval for ${capabilityName} was ${decided.status}`, undefined, undefined, {
+          code: `approval_${decided.status}`,
+          ...(decided.reason && { details: { reason: decided.reason } }),
+        });
+      }
+      return this.call(capabilityName, params, { approvalId: decided.approval_id });
+    }
+  }
+
+  /** Current state of an approval request */
+  async getApproval(approval: AgentApproval): Promise<AgentApproval> {
+    const res = await request<AgentApproval>(new URL(approval.status_url, this.siteUrl).toString(), {
+      headers: this.authHeaders(),
+      fetchImpl: this.fetchImpl,
+    });
+    return this.unwrap(res, 'approval');
+  }
+
+  /** Poll until a human decides or the request expires. Default interval: 2 seconds. */
+  async waitForApproval(approval: AgentApproval, options: { pollInterval?: number } = {}): Promise<AgentApproval> {
+    const interval = options.pollInterval ?? 2000;
+    let current = approval;
+    while (current.status === 'pending') {
+      await new Promise(resolve => setTimeout(resolve, interval));
+      current = await this.getApproval(current);
+    }
+    return current;
+  }
+
   /**
    * Auto-paginate a browse-style capability that returns { items, total }.
    * Yields each page's items array until all items have been retrieved.
@@ -240,22 +326,94 @@ export class AgentClient {
     }
   }
 
-  /** Retrieve the signed audit artifact for the current session */
-  async getAuditArtifact(): Promise<unknown> {
+  /**
+   * Retrieve the signed audit artifact for the current session, or after
+   * disconnect() for the session just ended. With `verify`, throws
+   * AuditVerificationError unless it verifies against the site's published keys.
+   */
+  async getAuditArtifact(options: { verify?: boolean } = {}): Promise<unknown> {
+    const manifest = await this.getManifest();
+    const { endpoint, headers } = this.auditTarget(manifest);
+    const res = await request(endpoint, { headers, fetchImpl: this.fetchImpl });
+    const artifact = this.unwrap(res, 'audit');
+
+    if (options.verify ?? this.verifyAuditArtifacts) {
+      const report = await this.verifyAudit(manifest, artifact);
+      if (!report.valid) throw new AuditVerificationError(report);
+    }
+    return artifact;
+  }
+
+  /** A link to the audit artifact that works without credentials, e.g. to hand to the user */
+  async getAuditLink(options: { ttl?: number } = {}): Promise<AuditDownloadLink> {
+    const manifest = await this.getManifest();
+    const { endpoint, headers } = this.auditTarget(manifest);
+    const res = await request<AuditDownloadLink>(`${endpoint}/link`, {
+      method: 'POST',
+      headers,
+      body: options.ttl !== undefined ? { ttl: options.ttl } : {},
+      fetchImpl: this.fetchImpl,
+    });
+    return this.unwrap(res, 'audit link');
+  }
+
+  /** The unsigned event chain the site has recorded for the current session so far */
+  async getAuditLog(): Promise<AuditLiveLog> {
     if (!this.session) {
       throw new AgentClientError('No active session — connect() first');
     }
     const manifest = await this.getManifest();
-    if (!manifest.audit?.enabled) {
-      throw new AgentClientError('This site does not have audit enabled');
+    if (!manifest.audit?.live_endpoint) {
+      throw new AgentClientError('This site does not publish a live audit log');
     }
-    const endpoint = manifest.audit.endpoint.replace(':session_id', this.session.session_token);
-    const res = await request(endpoint, { fetchImpl: this.fetchImpl });
-    return this.unwrap(res, 'audit');
+    const res = await request<AuditLiveLog>(new URL(manifest.audit.live_endpoint, this.siteUrl).toString(), {
+      headers: this.authHeaders(),
+      fetchImpl: this.fetchImpl,
+    });
+    return this.unwrap(res, 'audit log');
   }
 
   // --- Private helpers ---
 
+  /** Prefer the key endpoint, which also lists retired keys, over the manifest's current key. */
+  private async verifyAudit(manifest: AgentsManifest, artifact: unknown) {
+    const audit = manifest.audit!;
+    if (audit.keys_endpoint) {
+      // A bare JWKS document, not an { ok, data } envelope, so request() does not apply.
+      const url = new URL(audit.keys_endpoint, this.siteUrl).toString();
+      const res = await this.fetchImpl(url, { headers: { Accept: 'application/json' } });
+      if (!res.ok) throw new AgentClientError(`Failed to fetch audit keys from ${url}: HTTP ${res.status}`, res.status);
+      const { keys } = await res.json() as { keys?: AuditJwk[] };
+      if (keys?.length) return verifyArtifactWithKeys(artifact, keys);
+    }
+    if (!audit.public_key) {
+      throw new AgentClientError(`${this.siteUrl} does not publish an audit public key to verify against`);
+    }
+    return verifyArtifact(artifact, audit.public_key);
+  }
+
+  /**
+   * Artifact URL of the current or last ended session, with the credential that
+   * proves holding it: the session token while it lasts, the proof token after.
+   */
+  private auditTarget(manifest: AgentsManifest): { endpoint: string; headers: Record<string, string> } {
+    if (!this.session && !this.endedSession) {
+      throw new AgentClientError('No active session — connect() first');
+    }
+    if (!manifest.audit?.enabled) {
+      throw new AgentClientError('This site does not have audit enabled');
+    }
+    // Sites that predate session_id key artifacts by the token itself.
+    const sessionId = this.session
+      ? this.session.session_id ?? this.session.session_token
+      : this.endedSession!.session_id;
+    const credential = this.session ? this.session.session_token : this.endedSession!.audit_access_token;
+    return {
+      endpoint: manifest.audit.endpoint.replace(':session_id', encodeURIComponent(sessionId)),
+      headers: credential ? { Authorization: `Bearer ${credential}` } : {},
+    };
+  }
+
   private async requireCapability(name: string): Promise<AgentsCapability> {
     const manifest = await this.getManifest();
     const cap = manifest.capabilities.find(c => c.name === name);
@@ -277,6 +435,19 @@ export class AgentClient {
     return this.session;
   }
 
+  /**
+   * Adopt the token a site reissues in `X-Session-Token`, as sites with stateless
+   * sessions do whenever the session's cart or expiry changes.
+   */
+  private trackSessionToken(fetchImpl: typeof fetch): typeof fetch {
+    return async (input, init) => {
+      const res = await fetchImpl(input, init);
+      const token = res.headers?.get('X-Session-Token');
+      if (token && this.session) this.session = { ...this.session, session_token: token };
+      return res;
+    };
+  }
+
   private authHeaders(): Record<string, string> {
     const headers: Record<string, string> = {
       'User-Agent': this.userAgent,
@@ -287,12 +458,38 @@ export class AgentClient {
     return headers;
   }
 
-  private unwrap<T>(res: { ok: boolean; data?: T; error?: string }, capability: string): T {
+  private unwrap<T>(res: ApiResponse<T>, capability: string): T {
+    if (res.ok && res.approval) throw new ApprovalRequiredError(res.approval);
     if (!res.ok || res.data === undefined) {
-      throw new AgentClientError(
-        `${capability} failed: ${res.error ?? 'unknown error'}`,
-      );
+      throw AgentClientError.fromResponse(res, undefined, `${capability} failed`);
     }
     return res.data;
   }
 }
+
+/**
+ * Substitute `params` into the capability endpoint's `:name` segments. Returns the
+ * URL and the params left over for the query string or body.
+ */
+function fillEndpoint(
+  cap: AgentsCapability,
+  params: Record<string, unknown> = {},
+): { endpoint: string; rest: Record<string, unknown> } {
+  const rest = { ...params };
+  const names = pathParams(cap.endpoint);
+  for (const name of names) {
+    if (rest[name] === undefined || rest[name] === null) {
+      throw new AgentClientError(`${cap.name} needs the path parameter "${name}"`, undefined, undefined, {
+        code: 'invalid_params',
+        details: { fields: [{ field: name, message: 'is required' }] },
+      });
+    }
+  }
+  const endpoint = cap.endpoint.replace(/\/:([^/?#]+)/g, (segment, name: string) => {
+    if (!names.includes(name)) return segment;
+    const value = encodeURIComponent(String(rest[name]));
+    delete rest[name];
+    return `/${value}`;
+  });
+  return { endpoint, rest };
+}
@@ -1,13 +1,21 @@
-import { AgentsManifest } from './types';
+import { AgentsManifest, DiscoverOptions } from './types';
 import { AgentClientError } from './http';
+import { manifestFromAgentsTxt, parseAgentsTxt } from './agents-txt';
+import { formatManifestIssue, validateManifest } from './manifest';
 
 /**
  * Fetch and parse the agents.json manifest from a site URL.
- * Tries /.well-known/agents.json first, then /agents.json as fallback.
+ * Tries /.well-known/agents.json first, then /agents.json. Sites that publish
+ * only agents.txt get a minimal manifest built from it.
+ *
+ * The manifest is checked against the spec schema. Schema errors are reported
+ * through `options.onWarning` unless `options.strict` is set, in which case
+ * discovery rejects. A manifest without `site` or `capabilities` is always rejected.
  */
 export async function discover(
   siteUrl: string,
   fetchImpl: typeof fetch = fetch,
+  options: DiscoverOptions = {},
 ): Promise<AgentsManifest> {
   const base = siteUrl.replace(/\/$/, '');
 
@@ -27,13 +35,7 @@ export async function discover(
       if (!res.ok) continue;
 
       const json = await res.json() as AgentsManifest;
-
-      if (!json.schema_version || !json.site || !Array.isArray(json.capabilities)) {
-        throw new AgentClientError(
-          `Invalid agents.json at ${url}: missing required fields`,
-        );
-      }
-
+      checkManifest(json, url, options);
       return json;
     } catch (err) {
       if (err instanceof AgentClientError) throw err;
@@ -41,6 +43,9 @@ export async function discover(
     }
   }
 
+  const fromTxt = await discoverFromTxt(base, fetchImpl);
+  if (fromTxt) return fromTxt;
+
   throw new AgentClientError(
     `No agents.json found at ${siteUrl}. ` +
     `Tried: ${candidates.join(', ')}. ` +
@@ -48,6 +53,44 @@ export async function discover(
   );
 }
 
+function checkManifest(json: AgentsManifest, url: string, options: DiscoverOptions): void {
+  const { errors, warnings } = validateManifest(json);
+  const unusable = typeof json?.site !== 'object' || json.site === null || !Array.isArray(json.capabilities);
+
+  if (errors.length > 0 && (options.strict || unusable)) {
+    throw new AgentClientError(
+      `Invalid agents.json at ${url}: ${errors.map(formatManifestIssue).join('; ')}`,
+    );
+  }
+
+  if (!options.onWarning) return;
+  for (const issue of [...errors, ...warnings]) {
+    options.onWarning(`agents.json at ${url}: ${formatManifestIssue(issue)}`, issue);
+  }
+}
+
+/** Returns null when there is no agents.txt either, and throws when it is malformed. */
+async function discoverFromTxt(base: string, fetchImpl: typeof fetch): Promise<AgentsManifest | null> {
+  const url = `${base}/.well-known/agents.txt`;
+  let text: string;
+  try {
+    const res = await fetchImpl(url, { headers: { Accept: 'text/plain' } });
+    if (!res.ok) return null;
+    text = await res.text();
+  } catch {
+    return null;
+  }
+
+  const { agentsTxt, diagnostics, valid } = parseAgentsTxt(text);
+  if (!valid) {
+    const errors = diagnostics
+      .filter(d => d.severity === 'error')
+      .map(d => (d.line ? `line ${d.line}: ${d.message}` : d.message));
+    throw new AgentClientError(`Invalid agents.txt at ${url}: ${errors.join('; ')}`);
+  }
+  return manifestFromAgentsTxt(agentsTxt, base);
+}
+
 /**
  * Fetch the human-readable agents.txt from a site URL.
  */
@@ -1,4 +1,4 @@
-import { ApiResponse } from './types';
+import { AgentApproval, ApiResponse } from './types';
 
 export interface RequestOptions {
   method?: string;
@@ -20,6 +20,9 @@ function buildUrl(base: string, query?: Record<string, string | number | undefin
   return qs ? `${base}?${qs}` : base;
 }
 
+/** Methods whose repetition cannot act twice, so any retryable failure may be retried. */
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
 function sleep(ms: number): Promise<void> {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
@@ -61,29 +64,75 @@ export async function request<T = unknown>(
 
     const res = await fetchImpl(fullUrl, init);
 
-    if (res.status === 429) {
-      lastError = new AgentClientError('Rate limit exceeded — retrying', 429);
-      continue;
+    if (res.ok) {
+      return (await res.json()) as ApiResponse<T>;
     }
 
-    if (!res.ok && res.status !== 400 && res.status !== 401 && res.status !== 404) {
-      throw new AgentClientError(`HTTP ${res.status} from ${fullUrl}`, res.status);
-    }
+    const envelope = await readErrorEnvelope(res);
+    const error = envelope
+      ? AgentClientError.fromResponse(envelope, res.status)
+      : new AgentClientError(`HTTP ${res.status} from ${fullUrl}`, res.status, undefined, {
+        retryable: res.status === 429,
+      });
 
-    const json = (await res.json()) as ApiResponse<T>;
-    return json;
+    // A 429 was refused before it ran. Other retryable failures of a POST or PATCH
+    // may have had effects (a cart add, a checkout), so the caller decides.
+    if (res.status === 429 || (error.retryable && IDEMPOTENT_METHODS.includes(method.toUpperCase()))) {
+      lastError = error;
+      continue;
+    }
+    throw error;
   }
 
   throw lastError ?? new AgentClientError('Max retries exceeded');
 }
 
+async function readErrorEnvelope(res: Response): Promise<ApiResponse | null> {
+  try {
+    const json = (await res.json()) as ApiResponse;
+    return json && json.ok === false ? json : null;
+  } catch {
+    return null;
+  }
+}
+
 export class AgentClientError extends Error {
+  /** Machine-readable code from the site's error envelope, e.g. `not_found` */
+  public readonly code?: string;
+  /** Whether the site marked the failure as worth retrying */
+  public readonly retryable: boolean;
+  public readonly details?: Record<string, unknown>;
+
   constructor(
     message: string,
     public readonly statusCode?: number,
     public readonly serverError?: string,
+    info: Pick<ApiResponse, 'code' | 'retryable' | 'details'> = {},
   ) {
     super(message);
     this.name = 'AgentClientError';
+    this.code = info.code;
+    this.retryable = info.retryable ?? false;
+    this.details = info.details;
+  }
+
+  /** Build from an `ok: false` envelope; 429s are retryable even from older sites. */
+  static fromResponse(envelope: ApiResponse, statusCode?: number, prefix?: string): AgentClientError {
+    const serverError = envelope.error ?? 'unknown error';
+    return new AgentClientError(prefix ? `${prefix}: ${serverError}` : serverError, statusCode, envelope.error, {
+      code: envelope.code,
+      retryable: envelope.retryable ?? statusCode === 429,
+      details: envelope.details,
+    });
+  }
+}
+
+/** Thrown when a call is held for human approval instead of running. */
+export class ApprovalRequiredError extends AgentClientError {
+  constructor(public readonly approval: AgentApproval) {
+    super(`${approval.capability} is waiting for human approval at ${approval.approval_url}`, 202, undefined, {
+      code: 'approval_required',
+    });
+    this.name = 'ApprovalRequiredError';
   }
 }
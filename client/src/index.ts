@@ -1,19 +1,56 @@
 export { AgentClient } from './client';
 export { discover, discoverTxt } from './discover';
-export { createSession, endSession } from './session';
-export { AgentClientError } from './http';
+export { parseAgentsTxt, manifestFromAgentsTxt } from './agents-txt';
+export { validateManifest, formatManifestIssue } from './manifest';
+export type { ManifestIssue, ManifestValidationResult } from './manifest';
+export {
+  verifyArtifact,
+  verifyArtifactWithKeys,
+  formatVerificationReport,
+  canonicalJson,
+  AuditVerificationError,
+} from './audit-verify';
+export type { ArtifactVerificationReport, AuditCheck, AuditPublicKeyInput } from './audit-verify';
+export { createSession, endSession, getSessionStatus, refreshSession } from './session';
+export {
+  signRequest,
+  signingFetch,
+  signatureBase,
+  serializeSignatureParams,
+  parseSignatureInput,
+  parseSignature,
+  contentDigest,
+} from './signing';
+export type { SignatureAlgorithm, SignatureParams, ParsedSignatureInput } from './signing';
+export { AgentClientError, ApprovalRequiredError } from './http';
 export type {
   AgentsManifest,
   AgentsSiteInfo,
   AgentsCapability,
   AgentsCapabilityParam,
+  JsonSchema,
   AgentsFlow,
   AgentsSessionConfig,
   AgentsAuditConfig,
+  AgentsAgentAuth,
+  AgentKey,
+  AuditJwk,
+  AuditLiveLog,
+  AuditDownloadLink,
+  AgentsTxt,
+  AgentsTxtFlow,
+  AgentsTxtDiagnostic,
+  AgentsTxtParseResult,
   AgentSession,
+  AgentSessionEnd,
+  AgentSessionLimits,
+  AgentSessionRequest,
+  AgentSessionStatus,
+  AgentApproval,
   ApiResponse,
   CartItem,
   CartView,
   CheckoutResult,
   AgentClientConfig,
+  DiscoverOptions,
 } from './types';
@@ -0,0 +1,316 @@
+/**
+ * agents.json validation. The rules mirror spec/schemas/agents.schema.json, which
+ * is not loaded at runtime; tests/manifest.test.ts runs shared fixtures through
+ * both so the two cannot drift apart. On top come the cross-field rules a JSON
+ * Schema cannot express (unique capability names, endpoint path parameters
+ * declared as required params, flow steps that name real capabilities). Shared
+ * by the SDK, which checks what it is about to publish, and the client, which
+ * checks what it discovers.
+ */
+
+export interface ManifestIssue {
+  /** RFC 6901 JSON pointer to the offending value, e.g. `/capabilities/2/name` */
+  pointer: string;
+  message: string;
+}
+
+export interface ManifestValidationResult {
+  valid: boolean;
+  errors: ManifestIssue[];
+  /** Problems that do not make the manifest unusable */
+  warnings: ManifestIssue[];
+}
+
+type Json = Record<string, unknown>;
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'];
+const PARAM_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object', 'null'];
+const CAPABILITY_NAME = /^[a-z][a-z0-9_.]*$/;
+const SIGNATURE_ALGORITHMS = ['ed25519', 'hmac-sha256'];
+const SEMVER = /^\d+\.\d+\.\d+$/;
+
+export function validateManifest(manifest: unknown): ManifestValidationResult {
+  const errors: ManifestIssue[] = [];
+  const warnings: ManifestIssue[] = [];
+  const v = new Checker(errors, warnings);
+
+  if (!v.object(manifest, '')) return { valid: false, errors, warnings };
+  const root = manifest as Json;
+
+  v.known(root, '', [
+    'protocol_version', 'schema_version', 'site', 'capabilities', 'flows', 'session', 'rate_limit', 'audit', 'agent_auth',
+    'docs_url',
+  ]);
+  if (v.required(root, '', 'protocol_version') && v.string(root.protocol_version, '/protocol_version')) {
+    if (!SEMVER.test(root.protocol_version as string)) {
+      v.fail('/protocol_version', 'must be a semantic version such as 0.1.0');
+    }
+  }
+  if (root.schema_version !== undefined) v.string(root.schema_version, '/schema_version');
+  if (root.docs_url !== undefined) v.uri(root.docs_url, '/docs_url');
+
+  if (v.required(root, '', 'site') && v.object(root.site, '/site')) {
+    const site = root.site as Json;
+    v.known(site, '/site', ['name', 'url', 'description', 'contact']);
+    if (v.required(site, '/site', 'name')) v.string(site.name, '/site/name');
+    if (v.required(site, '/site', 'url')) v.uri(site.url, '/site/url');
+    if (site.description !== undefined) v.string(site.description, '/site/description');
+    if (site.contact !== undefined) v.string(site.contact, '/site/contact');
+  }
+
+  const names = new Map<string, number>();
+  if (v.required(root, '', 'capabilities') && v.array(root.capabilities, '/capabilities')) {
+    const capabilities = root.capabilities as unknown[];
+    if (capabilities.length === 0) v.fail('/capabilities', 'must list at least one capability');
+    capabilities.forEach((cap, i) => {
+      const name = checkCapability(v, cap, `/capabilities/${i}`);
+      if (name === undefined) return;
+      const first = names.get(name);
+      if (first !== undefined) {
+        v.fail(`/capabilities/${i}/name`, `duplicates /capabilities/${first}/name ("${name}")`);
+      } else {
+        names.set(name, i);
+      }
+    });
+  }
+
+  if (root.flows !== undefined && v.array(root.flows, '/flows')) {
+    const flowNames = new Set<string>();
+    (root.flows as unknown[]).forEach((flow, i) => {
+      const at = `/flows/${i}`;
+      if (!v.object(flow, at)) return;
+      const f = flow as Json;
+      v.known(f, at, ['name', 'description', 'steps']);
+      if (v.required(f, at, 'name') && v.string(f.name, `${at}/name`)) {
+        if (flowNames.has(f.name as string)) v.fail(`${at}/name`, `duplicates another flow ("${f.name}")`);
+        flowNames.add(f.name as string);
+      }
+      if (f.description !== undefined) v.string(f.description, `${at}/description`);
+      if (v.required(f, at, 'steps') && v.array(f.steps, `${at}/steps`)) {
+        const steps = f.steps as unknown[];
+        if (steps.length === 0) v.fail(`${at}/steps`, 'must list at least one step');
+        steps.forEach((step, j) => {
+          if (v.string(step, `${at}/steps/${j}`) && names.size > 0 && !names.has(step as string)) {
+            v.fail(`${at}/steps/${j}`, `names unknown capability "${step}"`);
+          }
+        });
+      }
+    });
+  }
+
+  if (root.session !== undefined && v.object(root.session, '/session')) {
+    const session = root.session as Json;
+    v.known(session, '/session', [
+      'endpoint', 'ttl', 'create', 'delete', 'ttl_seconds', 'refresh', 'max_lifetime_seconds', 'sliding_expiry', 'limits',
+    ]);
+    for (const key of ['endpoint', 'create', 'delete', 'refresh']) {
+      if (session[key] !== undefined) v.string(session[key], `/session/${key}`);
+    }
+    for (const key of ['ttl', 'ttl_seconds', 'max_lifetime_seconds']) {
+      if (session[key] !== undefined) v.integer(session[key], `/session/${key}`, 60);
+    }
+    if (session.sliding_expiry !== undefined) v.boolean(session.sliding_expiry, '/session/sliding_expiry');
+    if (session.limits !== undefined && v.object(session.limits, '/session/limits')) {
+      checkSessionLimits(v, session.limits as Json);
+    }
+  } else if (root.session === undefined && Array.isArray(root.capabilities)
+    && root.capabilities.some(c => (c as Json)?.requires_session === true)) {
+    v.warn('/session', 'should be present when a capability requires a session');
+  }
+
+  if (root.rate_limit !== undefined && v.object(root.rate_limit, '/rate_limit')) {
+    const limit = root.rate_limit as Json;
+    v.known(limit, '/rate_limit', ['max_requests_per_minute', 'requests_per_minute', 'max_sessions']);
+    for (const key of ['max_requests_per_minute', 'requests_per_minute', 'max_sessions']) {
+      if (limit[key] !== undefined) v.integer(limit[key], `/rate_limit/${key}`, 1);
+    }
+  }
+
+  if (root.audit !== undefined && v.object(root.audit, '/audit')) {
+    const audit = root.audit as Json;
+    v.known(audit, '/audit', [
+      'enabled', 'endpoint', 'live_endpoint', 'public_key', 'algorithm', 'key_id', 'keys_endpoint', 'description',
+    ]);
+    if (audit.enabled !== undefined) v.boolean(audit.enabled, '/audit/enabled');
+    if (audit.algorithm !== undefined && audit.algorithm !== 'Ed25519') v.fail('/audit/algorithm', 'must be "Ed25519"');
+    for (const key of ['endpoint', 'live_endpoint', 'public_key', 'key_id', 'keys_endpoint', 'description']) {
+      if (audit[key] !== undefined) v.string(audit[key], `/audit/${key}`);
+    }
+  }
+
+  if (root.agent_auth !== undefined && v.object(root.agent_auth, '/agent_auth')) {
+    checkAgentAuth(v, root.agent_auth as Json);
+  }
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+/** Returns the capability's name when it has a usable one. */
+function checkCapability(v: Checker, cap: unknown, at: string): string | undefined {
+  if (!v.object(cap, at)) return undefined;
+  const c = cap as Json;
+  v.known(c, at, [
+    'name', 'description', 'method', 'endpoint', 'params', 'output_schema', 'requires_session', 'human_handoff',
+    'requires_approval', 'rate_limit',
+  ]);
+
+  let name: string | undefined;
+  if (v.required(c, at, 'name') && v.string(c.name, `${at}/name`)) {
+    name = c.name as string;
+    // Names generated from OpenAPI operationIds are often camelCase; agents can still call them.
+    if (!CAPABILITY_NAME.test(name)) {
+      v.warn(`${at}/name`, 'should start with a lowercase letter and contain only a-z, 0-9, "_" and "."');
+    }
+  }
+  if (v.required(c, at, 'endpoint')) v.string(c.endpoint, `${at}/endpoint`);
+  if (v.required(c, at, 'method') && !METHODS.includes(c.method as string)) {
+    v.fail(`${at}/method`, `must be one of: ${METHODS.join(', ')}`);
+  }
+  if (c.description !== undefined) v.string(c.description, `${at}/description`);
+  if (c.requires_session !== undefined) v.boolean(c.requires_session, `${at}/requires_session`);
+  if (c.human_handoff !== undefined) v.boolean(c.human_handoff, `${at}/human_handoff`);
+  if (c.requires_approval !== undefined) v.boolean(c.requires_approval, `${at}/requires_approval`);
+  if (c.output_schema !== undefined) v.object(c.output_schema, `${at}/output_schema`);
+
+  if (c.params !== undefined && v.object(c.params, `${at}/params`)) {
+    for (const [param, def] of Object.entries(c.params as Json)) {
+      const p = `${at}/params/${escapePointer(param)}`;
+      if (!v.object(def, p)) continue;
+      const d = def as Json;
+      if (v.required(d, p, 'type')) {
+        const types = Array.isArray(d.type) ? d.type : [d.type];
+        if (types.length === 0 || !types.every(t => PARAM_TYPES.includes(t as string))) {
+          v.fail(`${p}/type`, `must be one of: ${PARAM_TYPES.join(', ')} (or a list of them)`);
+        }
+      }
+      if (d.required !== undefined && typeof d.required !== 'boolean' && !Array.isArray(d.required)) {
+        v.fail(`${p}/required`, 'must be a boolean or an array of property names');
+      }
+    }
+  }
+  if (typeof c.endpoint === 'string') {
+    const params = (c.params ?? {}) as Json;
+    for (const param of pathParams(c.endpoint)) {
+      const def = params[param] as Json | undefined;
+      if (def === undefined) {
+        v.fail(`${at}/endpoint`, `has path parameter ":${param}", which is not declared in params`);
+      } else if (typeof def === 'object' && def !== null && def.required !== true) {
+        v.fail(`${at}/params/${escapePointer(param)}/required`, 'must be true for a path parameter');
+      }
+    }
+  }
+
+  if (c.rate_limit !== undefined && v.object(c.rate_limit, `${at}/rate_limit`)) {
+    const limit = c.rate_limit as Json;
+    v.known(limit, `${at}/rate_limit`, ['requests_per_minute', 'burst']);
+    if (v.required(limit, `${at}/rate_limit`, 'requests_per_minute')) {
+      v.integer(limit.requests_per_minute, `${at}/rate_limit/requests_per_minute`, 1);
+    }
+    if (limit.burst !== undefined) v.integer(limit.burst, `${at}/rate_limit/burst`, 1);
+  }
+
+  return name;
+}
+
+function checkSessionLimits(v: Checker, limits: Json): void {
+  const at = '/session/limits';
+  v.known(limits, at, ['max_tool_calls', 'max_calls_per_capability', 'max_spend_usd']);
+  if (limits.max_tool_calls !== undefined) v.integer(limits.max_tool_calls, `${at}/max_tool_calls`, 0);
+  if (limits.max_calls_per_capability !== undefined && v.object(limits.max_calls_per_capability, `${at}/max_calls_per_capability`)) {
+    for (const [name, count] of Object.entries(limits.max_calls_per_capability as Json)) {
+      v.integer(count, `${at}/max_calls_per_capability/${escapePointer(name)}`, 0);
+    }
+  }
+  if (limits.max_spend_usd !== undefined
+    && (typeof limits.max_spend_usd !== 'number' || limits.max_spend_usd < 0)) {
+    v.fail(`${at}/max_spend_usd`, 'must be a number >= 0');
+  }
+}
+
+function checkAgentAuth(v: Checker, auth: Json): void {
+  const at = '/agent_auth';
+  v.known(auth, at, ['required', 'scheme', 'algorithms', 'max_age_seconds']);
+  if (v.required(auth, at, 'required')) v.boolean(auth.required, `${at}/required`);
+  if (v.required(auth, at, 'scheme') && auth.scheme !== 'http-message-signatures') {
+    v.fail(`${at}/scheme`, 'must be "http-message-signatures"');
+  }
+  if (v.required(auth, at, 'algorithms') && v.array(auth.algorithms, `${at}/algorithms`)) {
+    const algorithms = auth.algorithms as unknown[];
+    if (algorithms.length === 0) v.fail(`${at}/algorithms`, 'must list at least one algorithm');
+    algorithms.forEach((alg, i) => {
+      if (!SIGNATURE_ALGORITHMS.includes(alg as string)) {
+        v.fail(`${at}/algorithms/${i}`, `must be one of: ${SIGNATURE_ALGORITHMS.join(', ')}`);
+      }
+    });
+  }
+  if (auth.max_age_seconds !== undefined) v.integer(auth.max_age_seconds, `${at}/max_age_seconds`, 1);
+}
+
+/** Collects issues; each check returns whether the value passed so callers can descend. */
+class Checker {
+  constructor(private errors: ManifestIssue[], private warnings: ManifestIssue[]) {}
+
+  fail(pointer: string, message: string): false {
+    this.errors.push({ pointer, message });
+    return false;
+  }
+
+  warn(pointer: string, message: string): void {
+    this.warnings.push({ pointer, message });
+  }
+
+  required(obj: Json, at: string, key: string): boolean {
+    return obj[key] !== undefined || this.fail(at, `is missing required property "${key}"`);
+  }
+
+  known(obj: Json, at: string, keys: string[]): void {
+    for (const key of Object.keys(obj)) {
+      if (!keys.includes(key)) this.fail(`${at}/${escapePointer(key)}`, 'is not an allowed property');
+    }
+  }
+
+  object(value: unknown, at: string): boolean {
+    return (typeof value === 'object' && value !== null && !Array.isArray(value)) || this.fail(at, 'must be an object');
+  }
+
+  array(value: unknown, at: string): boolean {
+    return Array.isArray(value) || this.fail(at, 'must be an array');
+  }
+
+  string(value: unknown, at: string): boolean {
+    return typeof value === 'string' || this.fail(at, 'must be a string');
+  }
+
+  boolean(value: unknown, at: string): boolean {
+    return typeof value === 'boolean' || this.fail(at, 'must be a boolean');
+  }
+
+  integer(value: unknown, at: string, minimum: number): boolean {
+    if (typeof value !== 'number' || !Number.isInteger(value)) return this.fail(at, 'must be an integer');
+    return value >= minimum || this.fail(at, `must be >= ${minimum}`);
+  }
+
+  uri(value: unknown, at: string): boolean {
+    if (!this.string(value, at)) return false;
+    try {
+      new URL(value as string);
+      return true;
+    } catch {
+      return this.fail(at, 'must be an absolute URI');
+    }
+  }
+}
+
+/** Names of the `:name` segments in a capability endpoint, in order. */
+export function pathParams(endpoint: string): string[] {
+  return endpoint.split(/[?#]/)[0].split('/').filter(s => s.startsWith(':')).map(s => s.slice(1));
+}
+
+/** `/capabilities/2/name must be a string`, with `(root)` for the empty pointer. */
+export function formatManifestIssue(issue: ManifestIssue): string {
+  return `${issue.pointer || '(root)'} ${issue.message}`;
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -1,34 +1,78 @@
-import { AgentSession, AgentsManifest } from './types';
+import { AgentSession, AgentSessionEnd, AgentSessionRequest, AgentSessionStatus, AgentsManifest } from './types';
 import { request, AgentClientError } from './http';
 
+/** Create a session, optionally narrower than the site's defaults. */
 export async function createSession(
   manifest: AgentsManifest,
   fetchImpl: typeof fetch = fetch,
+  options: AgentSessionRequest = {},
 ): Promise<AgentSession> {
   const endpoint = manifest.session.create;
 
   const res = await request<AgentSession>(endpoint, {
     method: 'POST',
+    ...(Object.keys(options).length > 0 && { body: options }),
     fetchImpl,
   });
 
   if (!res.ok || !res.data) {
-    throw new AgentClientError(
-      `Failed to create session: ${res.error ?? 'unknown error'}`,
-    );
+    throw AgentClientError.fromResponse(res, undefined, 'Failed to create session');
   }
 
   return res.data;
 }
 
-export async function endSession(
+/** A live session's state, from `GET` on the session endpoint. */
+export async function getSessionStatus(
   sessionEndpoint: string,
   token: string,
   fetchImpl: typeof fetch = fetch,
-): Promise<void> {
-  await request(sessionEndpoint, {
-    method: 'DELETE',
+): Promise<AgentSessionStatus> {
+  const res = await request<AgentSessionStatus>(sessionEndpoint, {
+    headers: { Authorization: `Bearer ${token}` },
+    fetchImpl,
+  });
+  if (!res.ok || !res.data) {
+    throw AgentClientError.fromResponse(res, undefined, 'Failed to read session');
+  }
+  return res.data;
+}
+
+/** Extend a session by one TTL, up to the site's maximum lifetime. */
+export async function refreshSession(
+  manifest: AgentsManifest,
+  token: string,
+  fetchImpl: typeof fetch = fetch,
+): Promise<AgentSessionStatus> {
+  const endpoint = manifest.session.refresh;
+  if (!endpoint) throw new AgentClientError('This site does not support refreshing sessions');
+
+  const res = await request<AgentSessionStatus>(endpoint, {
+    method: 'POST',
     headers: { Authorization: `Bearer ${token}` },
     fetchImpl,
   });
+  if (!res.ok || !res.data) {
+    throw AgentClientError.fromResponse(res, undefined, 'Failed to refresh session');
+  }
+  return res.data;
+}
+
+export async function endSession(
+  sessionEndpoint: string,
+  token: string,
+  fetchImpl: typeof fetch = fetch,
+): Promise<AgentSessionEnd | null> {
+  try {
+    const res = await request<AgentSessionEnd>(sessionEndpoint, {
+      method: 'DELETE',
+      headers: { Authorization: `Bearer ${token}` },
+      fetchImpl,
+    });
+    return res.data ?? null;
+  } catch (err) {
+    // An expired or already-ended session has nothing left to end.
+    if (err instanceof AgentClientError && err.statusCode === 401) return null;
+    throw err;
+  }
 }
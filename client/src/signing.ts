@@ -0,0 +1,170 @@
+/**
+ * HTTP message signatures for registered agents (spec/interaction-api.md, "Agent Authentication").
+ *
+ * A subset of RFC 9421 shared by the client, which signs, and the SDK, which verifies:
+ *
+ * - One signature per request, labelled `sig1`, sent in `Signature-Input` and `Signature`.
+ * - Covered components are `@method`, `@authority` and `@path`, plus `@query` when the
+ *   URL has a query string and `content-digest` when the request has a body.
+ * - `Content-Digest` is the RFC 9530 `sha-256` digest of the body bytes as sent.
+ * - Parameters are `created`, `keyid` and `alg`: `ed25519` signs with the agent's private
+ *   key, `hmac-sha256` with the API key the site issued.
+ */
+
+import { createHash, createHmac, createPrivateKey, KeyObject, sign } from 'crypto';
+import { AgentKey } from './types';
+
+export type SignatureAlgorithm = 'ed25519' | 'hmac-sha256';
+
+export interface SignatureParams {
+  created?: number;
+  expires?: number;
+  keyid?: string;
+  alg?: string;
+  nonce?: string;
+}
+
+export interface ParsedSignatureInput {
+  label: string;
+  components: string[];
+  params: SignatureParams;
+  /** The member value exactly as sent, which is the `@signature-params` line of the base */
+  serialized: string;
+}
+
+const SIGNATURE_LABEL = 'sig1';
+
+/** `sha-256=:<base64>:` for a body. */
+export function contentDigest(body: string | Uint8Array): string {
+  return `sha-256=:${createHash('sha256').update(body).digest('base64')}:`;
+}
+
+/** Serialize a component list and its parameters as a structured-field inner list. */
+export function serializeSignatureParams(components: string[], params: SignatureParams): string {
+  let out = `(${components.map(c => `"${c}"`).join(' ')})`;
+  if (params.created !== undefined) out += `;created=${params.created}`;
+  if (params.expires !== undefined) out += `;expires=${params.expires}`;
+  if (params.keyid !== undefined) out += `;keyid="${params.keyid}"`;
+  if (params.alg !== undefined) out += `;alg="${params.alg}"`;
+  if (params.nonce !== undefined) out += `;nonce="${params.nonce}"`;
+  return out;
+}
+
+/**
+ * The signature base: one `"<component>": <value>` line per covered component, then
+ * the `@signature-params` line. Throws when a covered component has no value.
+ */
+export function signatureBase(
+  components: string[],
+  values: Record<string, string | undefined>,
+  serializedParams: string,
+): string {
+  const lines = components.map(c => {
+    const value = values[c];
+    if (value === undefined) throw new Error(`No value for covered component ${c}`);
+    return `"${c}": ${value}`;
+  });
+  lines.push(`"@signature-params": ${serializedParams}`);
+  return lines.join('\n');
+}
+
+/** Parse the first member of a `Signature-Input` header; null when it is malformed. */
+export function parseSignatureInput(header: string): ParsedSignatureInput | null {
+  const member = header.split(/,\s*(?=[a-z][a-z0-9_-]*=\()/i)[0].trim();
+  const match = /^([a-z][a-z0-9_-]*)=(\(([^)]*)\)(.*))$/i.exec(member);
+  if (!match) return null;
+  const [, label, serialized, list, rest] = match;
+
+  const components = list.trim() === '' ? [] : list.trim().split(/\s+/).map(item => {
+    const quoted = /^"([^"]+)"$/.exec(item);
+    return quoted ? quoted[1].toLowerCase() : '';
+  });
+  if (components.includes('')) return null;
+
+  const params: SignatureParams = {};
+  for (const param of rest.split(';').slice(1)) {
+    const p = /^([a-z]+)=(?:(\d+)|"([^"]*)")$/.exec(param.trim());
+    if (!p) return null;
+    const [, key, num, str] = p;
+    if ((key === 'created' || key === 'expires') && num !== undefined) params[key] = Number(num);
+    else if ((key === 'keyid' || key === 'alg' || key === 'nonce') && str !== undefined) params[key] = str;
+  }
+
+  return { label, components, params, serialized };
+}
+
+/** The signature bytes for `label` in a `Signature` header; null when absent or malformed. */
+export function parseSignature(header: string, label: string): Buffer | null {
+  for (const member of header.split(',')) {
+    const match = /^([a-z][a-z0-9_-]*)=:([A-Za-z0-9+/=]*):$/i.exec(member.trim());
+    if (match && match[1] === label) return Buffer.from(match[2], 'base64');
+  }
+  return null;
+}
+
+function privateKeyOf(key: string | KeyObject): KeyObject {
+  if (typeof key !== 'string') return key;
+  if (key.includes('-----BEGIN')) return createPrivateKey(key);
+  return createPrivateKey({ key: Buffer.from(key, 'base64'), format: 'der', type: 'pkcs8' });
+}
+
+/**
+ * Headers that sign one request: `Signature-Input`, `Signature`, and `Content-Digest`
+ * when there is a body. The body must be sent byte for byte as given here.
+ */
+export function signRequest(
+  key: AgentKey,
+  req: { method: string; url: string; body?: string },
+  now: number = Date.now(),
+): Record<string, string> {
+  if (!key.privateKey === !key.apiKey) {
+    throw new Error('agentKey needs exactly one of privateKey or apiKey');
+  }
+  const url = new URL(req.url);
+  const headers: Record<string, string> = {};
+  const values: Record<string, string> = {
+    '@method': req.method.toUpperCase(),
+    '@authority': url.host.toLowerCase(),
+    '@path': url.pathname,
+  };
+  const components = ['@method', '@authority', '@path'];
+  if (url.search) {
+    components.push('@query');
+    values['@query'] = url.search;
+  }
+  if (req.body !== undefined && req.body !== '') {
+    headers['Content-Digest'] = contentDigest(req.body);
+    components.push('content-digest');
+    values['content-digest'] = headers['Content-Digest'];
+  }
+
+  const alg: SignatureAlgorithm = key.privateKey ? 'ed25519' : 'hmac-sha256';
+  const serialized = serializeSignatureParams(components, {
+    created: Math.floor(now / 1000),
+    keyid: key.keyId,
+    alg,
+  });
+  const base = Buffer.from(signatureBase(components, values, serialized));
+  const signature = key.privateKey
+    ? sign(null, base, privateKeyOf(key.privateKey))
+    : createHmac('sha256', key.apiKey as string).update(base).digest();
+
+  headers['Signature-Input'] = `${SIGNATURE_LABEL}=${serialized}`;
+  headers['Signature'] = `${SIGNATURE_LABEL}=:${signature.toString('base64')}:`;
+  return headers;
+}
+
+/** Wrap a fetch implementation so that every request it sends is signed with `key`. */
+export function signingFetch(fetchImpl: typeof fetch, key: AgentKey): typeof fetch {
+  return (input, init = {}) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const method = init.method ?? (typeof input === 'object' && 'method' in input ? input.method : 'GET');
+    if (init.body !== undefined && init.body !== null && typeof init.body !== 'string') {
+      throw new Error('Signed requests need a string body');
+    }
+    const signed = signRequest(key, { method, url, body: init.body ?? undefined });
+    const headers = new Headers(init.headers);
+    for (const [name, value] of Object.entries(signed)) headers.set(name, value);
+    return fetchImpl(input, { ...init, headers });
+  };
+}
@@ -1,3 +1,6 @@
+import type { KeyObject } from 'crypto';
+import type { ManifestIssue } from './manifest';
+
 // agents.json structures (as returned by a site)
 
 export interface AgentsSiteInfo {
@@ -7,10 +10,37 @@ export interface AgentsSiteInfo {
   contact?: string;
 }
 
-export interface AgentsCapabilityParam {
-  type: string;
-  required?: boolean;
+/** The JSON Schema subset used in capability params and output schemas */
+export interface JsonSchema {
+  type?: string | string[];
   description?: string;
+  default?: unknown;
+  enum?: unknown[];
+  const?: unknown;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  format?: string;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+export interface AgentsCapabilityParam extends Omit<JsonSchema, 'type' | 'required'> {
+  type: string | string[];
+  required?: boolean | string[];
 }
 
 export interface AgentsCapability {
@@ -19,8 +49,12 @@ export interface AgentsCapability {
   method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
   endpoint: string;
   params?: Record<string, AgentsCapabilityParam>;
+  output_schema?: JsonSchema;
   requires_session?: boolean;
   human_handoff?: boolean;
+  /** Calls return a pending approval first; see AgentClient.callWithApproval() */
+  requires_approval?: boolean;
+  rate_limit?: { requests_per_minute: number; burst?: number };
 }
 
 /** Suggested step sequence for a common agent task */
@@ -33,32 +67,193 @@ export interface AgentsFlow {
 export interface AgentsSessionConfig {
   create: string;
   delete?: string;
+  /** POST here with the session token to extend the session */
+  refresh?: string;
   ttl_seconds?: number;
+  /** Longest a session can live, refreshes included; absent when sessions cannot be extended */
+  max_lifetime_seconds?: number;
+  /** Whether each capability call extends the session */
+  sliding_expiry?: boolean;
+  /** Budgets the site enforces on every session */
+  limits?: AgentSessionLimits;
+}
+
+/** What an agent may ask for when it creates a session. Each field can only narrow the site's defaults. */
+export interface AgentSessionRequest {
+  /** Capabilities the session may call. Default: all of them. */
+  capabilities?: string[];
+  /** Capabilities to give up */
+  deny?: string[];
+  /** Seconds the session may live in total, refreshes included */
+  ttl?: number;
+  limits?: AgentSessionLimits;
+}
+
+/** Budgets of a session. Calls past one fail with 403 `policy_denied`. */
+export interface AgentSessionLimits {
+  max_tool_calls?: number;
+  max_calls_per_capability?: Record<string, number>;
+  max_spend_usd?: number;
+}
+
+/** How the site identifies registered agents by their request signatures */
+export interface AgentsAgentAuth {
+  /** Whether unsigned session and capability requests are refused */
+  required: boolean;
+  scheme: 'http-message-signatures';
+  algorithms: Array<'ed25519' | 'hmac-sha256'>;
+  /** How old a signature's `created` time may be */
+  max_age_seconds?: number;
 }
 
 export interface AgentsAuditConfig {
   enabled: boolean;
   endpoint: string;
+  /** Unsigned event chain of the caller's active session */
+  live_endpoint?: string;
   description?: string;
+  /** Base64 DER SPKI Ed25519 key that signs artifacts */
+  public_key?: string;
+  algorithm?: 'Ed25519';
+  key_id?: string;
+  /** JWKS-style list of the site's audit signing keys */
+  keys_endpoint?: string;
+}
+
+/** An active session's event chain, from `audit.live_endpoint`. Not signed. */
+export interface AuditLiveLog {
+  run_id: string;
+  events: unknown[];
+  event_count: number;
+  /** `event_hash` of the latest event */
+  head_hash: string | null;
+  expires_at: string;
+}
+
+/** Time-limited URL of an audit artifact that needs no credentials */
+export interface AuditDownloadLink {
+  url: string;
+  expires_at: string;
+}
+
+/** One of the `keys` served from `audit.keys_endpoint` */
+export interface AuditJwk {
+  kty: 'OKP';
+  crv: 'Ed25519';
+  /** Raw public key, base64url */
+  x: string;
+  kid?: string;
+  alg?: 'EdDSA';
+  use?: 'sig';
+  /** ISO 8601; sessions started in [not_before, not_after) are signed with this key */
+  not_before?: string;
+  not_after?: string;
 }
 
 export interface AgentsManifest {
-  schema_version: string;
+  /** Semver of the agents.json spec, e.g. `0.1.0` */
+  protocol_version?: string;
+  /** Manifest layout version of older SDK releases */
+  schema_version?: string;
   site: AgentsSiteInfo;
   capabilities: AgentsCapability[];
   flows?: AgentsFlow[];
   session: AgentsSessionConfig;
   rate_limit?: { requests_per_minute: number };
   audit?: AgentsAuditConfig;
+  agent_auth?: AgentsAgentAuth;
+  docs_url?: string;
+}
+
+// agents.txt, parsed
+
+export interface AgentsTxtFlow {
+  name: string;
+  steps: string[];
+  description?: string;
+}
+
+export interface AgentsTxt {
+  name?: string;
+  url?: string;
+  description?: string;
+  contact?: string;
+  capabilities: string[];
+  /** `Capabilities-URL` — where agents.json lives */
+  capabilitiesUrl?: string;
+  agentApi?: string;
+  sessionEndpoint?: string;
+  docs?: string;
+  /** Requests per minute */
+  rateLimit?: number;
+  capabilityRateLimits: Record<string, { requests_per_minute: number; burst?: number }>;
+  /** Seconds */
+  sessionTtl?: number;
+  audit: boolean;
+  auditEndpoint?: string;
+  flows: AgentsTxtFlow[];
+  /** Fields this parser does not recognise, keyed by their name as written */
+  extensions: Record<string, string>;
+}
+
+export interface AgentsTxtDiagnostic {
+  /** 1-based line number; absent for problems with the file as a whole */
+  line?: number;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface AgentsTxtParseResult {
+  agentsTxt: AgentsTxt;
+  diagnostics: AgentsTxtDiagnostic[];
+  /** True when there are no error-severity diagnostics */
+  valid: boolean;
 }
 
 // Session returned after creation
 
 export interface AgentSession {
+  /** Public identifier used in audit URLs; absent from sites that predate it */
+  session_id?: string;
   session_token: string;
   expires_at: string;
+  /** Latest the session can be refreshed to */
+  max_expires_at?: string;
   capabilities: string[];
+  /** Budgets in force for this session: the site's, tightened by any the agent asked for */
+  limits?: AgentSessionLimits;
   audit?: boolean;
+  audit_artifact_url?: string;
+}
+
+/** A live session's state, from `GET` on the session endpoint or a refresh */
+export interface AgentSessionStatus {
+  session_id: string;
+  created_at: string;
+  expires_at: string;
+  max_expires_at: string;
+  capabilities: string[];
+  /** Line items in the cart */
+  cart_items: number;
+  limits?: AgentSessionLimits;
+  /** What is left of each limit */
+  remaining?: {
+    tool_calls?: number;
+    calls_per_capability?: Record<string, number>;
+    spend_usd?: number;
+  };
+  /** The registered agent the session belongs to */
+  agent_id?: string;
+}
+
+/** Response to ending a session */
+export interface AgentSessionEnd {
+  ended: boolean;
+  /** Present when the session's audit artifact was sealed */
+  session_id?: string;
+  audit_artifact_url?: string;
+  /** Proof of having held the session, for sites that restrict artifacts to their holder */
+  audit_access_token?: string;
 }
 
 // Generic API response wrapper
@@ -67,6 +262,31 @@ export interface ApiResponse<T = unknown> {
   ok: boolean;
   data?: T;
   error?: string;
+  /** Machine-readable error code, e.g. `not_found` or `invalid_params` */
+  code?: string;
+  /** Whether the same call may succeed if repeated later */
+  retryable?: boolean;
+  details?: Record<string, unknown>;
+  /** Present instead of `data` when the call is held for human approval (HTTP 202) */
+  approval?: AgentApproval;
+}
+
+/** A call held until a human approves it; see spec/interaction-api.md, "Human Approval" */
+export interface AgentApproval {
+  approval_id: string;
+  capability: string;
+  status: 'pending' | 'approved' | 'denied' | 'expired' | 'used';
+  /** Parameters of the held call; the resumed call must send the same */
+  input: Record<string, unknown>;
+  /** Page to show the human who decides */
+  approval_url: string;
+  /** Poll this with the session token */
+  status_url: string;
+  created_at: string;
+  expires_at: string;
+  decided_at?: string;
+  decided_by?: 'operator' | 'user';
+  reason?: string;
 }
 
 // Cart types
@@ -92,15 +312,40 @@ export interface CheckoutResult {
 
 // Client config
 
+export interface DiscoverOptions {
+  /** Reject manifests that do not validate against the spec schema. Default: false */
+  strict?: boolean;
+  /** Called for each schema problem that does not reject discovery. Default: problems are ignored */
+  onWarning?: (message: string, issue: ManifestIssue) => void;
+}
+
 export interface AgentClientConfig {
   /** User-Agent string sent with every request */
   userAgent?: string;
   /** Fetch implementation (defaults to global fetch) */
   fetch?: typeof fetch;
-  /** Maximum retries on 429 rate-limit responses. Default: 3 */
+  /** Maximum retries of 429s, and of retryable errors on GET, PUT and DELETE calls. Default: 3 */
   maxRetries?: number;
   /** Base delay in ms for exponential backoff on retries. Default: 1000 */
   retryDelay?: number;
   /** Default page size for paginate(). Default: 20 */
   pageSize?: number;
+  /** Reject a site whose agents.json does not validate against the spec schema. Default: false */
+  strictManifest?: boolean;
+  /** Receives agents.json schema problems when not in strict mode. Default: problems are ignored */
+  onManifestWarning?: DiscoverOptions['onWarning'];
+  /** Verify audit artifacts against the site's published keys in getAuditArtifact(). Default: false */
+  verifyAuditArtifacts?: boolean;
+  /** Sign every request as this registered agent */
+  agentKey?: AgentKey;
+}
+
+/** The credentials of an agent registered with a site; set exactly one of the keys. */
+export interface AgentKey {
+  /** The key ID the site registered */
+  keyId: string;
+  /** Ed25519 private key: PEM, base64 DER PKCS#8, or a KeyObject */
+  privateKey?: string | KeyObject;
+  /** Shared secret the site issued, for HMAC-SHA256 signatures */
+  apiKey?: string;
 }
@@ -0,0 +1,53 @@
+#!/usr/bin/env node
+/**
+ * agents-verify — check an audit artifact offline.
+ *
+ *   agents-verify artifact.json --key <base64 DER public key>
+ *   agents-verify artifact.json --keys keys.json
+ *
+ * The artifact file may hold the bare artifact or the `{ ok, data }` response
+ * of the audit endpoint. `--keys` takes the audit key endpoint's JWKS document.
+ * Exits 0 when the artifact verifies, 1 when it does not, 2 on usage errors.
+ */
+
+import { readFileSync } from 'fs';
+import { ArtifactVerificationReport, formatVerificationReport, verifyArtifact, verifyArtifactWithKeys } from './audit-verify';
+import { AuditJwk } from './types';
+
+const USAGE = 'usage: agents-verify <artifact.json> (--key <base64 DER public key> | --keys <jwks.json>) [--json]';
+
+export function main(args: string[], out: (line: string) => void = console.log): number {
+  const positional: string[] = [];
+  const flags: Record<string, string | true> = {};
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--json') flags.json = true;
+    else if (args[i] === '--key' || args[i] === '--keys') flags[args[i].slice(2)] = args[++i] ?? '';
+    else positional.push(args[i]);
+  }
+  if (positional.length !== 1 || (!flags.key === !flags.keys)) {
+    out(USAGE);
+    return 2;
+  }
+
+  let report: ArtifactVerificationReport;
+  try {
+    let artifact = JSON.parse(readFileSync(positional[0], 'utf8'));
+    if (artifact?.ok === true && artifact.data !== undefined) artifact = artifact.data;
+    if (flags.keys) {
+      const { keys } = JSON.parse(readFileSync(flags.keys as string, 'utf8')) as { keys?: AuditJwk[] };
+      report = verifyArtifactWithKeys(artifact, keys ?? []);
+    } else {
+      report = verifyArtifact(artifact, flags.key as string);
+    }
+  } catch (err) {
+    // Unreadable files and unusable keys; a bad artifact is reported, not thrown.
+    out(`agents-verify: ${(err as Error).message}`);
+    return 2;
+  }
+  out(flags.json ? JSON.stringify(report, null, 2) : formatVerificationReport(report));
+  return report.valid ? 0 : 1;
+}
+
+if (require.main === module) {
+  process.exitCode = main(process.argv.slice(2));
+}
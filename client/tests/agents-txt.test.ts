@@ -0,0 +1,168 @@
+import { parseAgentsTxt, manifestFromAgentsTxt } from '../src/agents-txt';
+
+const SPEC_EXAMPLE = `# agents.txt — Acme Ceramics
+# https://acmeceramics.example.com
+
+Name: Acme Ceramics
+URL: https://acmeceramics.example.com
+Description: Handmade ceramic mugs, bowls, and vases
+Contact: support@acmeceramics.example.com
+
+# What agents can do here
+Capabilities: search, browse, detail, cart.add, cart.view, cart.update, cart.remove, checkout
+
+# Endpoints (all defaults shown explicitly)
+Capabilities-URL: https://acmeceramics.example.com/.well-known/agents.json
+Agent-API: https://acmeceramics.example.com/.well-known/agents/api
+Session-Endpoint: https://acmeceramics.example.com/.well-known/agents/api/session
+
+# Docs for agent developers
+Docs: https://acmeceramics.example.com/docs/agents
+
+# Limits
+Rate-Limit: 60
+Session-TTL: 3600
+
+# Audit trail (RER-backed)
+Audit: true
+Audit-Endpoint: https://acmeceramics.example.com/.well-known/agents/api/audit
+`;
+
+describe('parseAgentsTxt', () => {
+  it('parses the spec example without diagnostics', () => {
+    const { agentsTxt, diagnostics, valid } = parseAgentsTxt(SPEC_EXAMPLE);
+    expect(valid).toBe(true);
+    expect(diagnostics).toEqual([]);
+    expect(agentsTxt).toMatchObject({
+      name: 'Acme Ceramics',
+      url: 'https://acmeceramics.example.com',
+      description: 'Handmade ceramic mugs, bowls, and vases',
+      contact: 'support@acmeceramics.example.com',
+      capabilitiesUrl: 'https://acmeceramics.example.com/.well-known/agents.json',
+      agentApi: 'https://acmeceramics.example.com/.well-known/agents/api',
+      docs: 'https://acmeceramics.example.com/docs/agents',
+      rateLimit: 60,
+      sessionTtl: 3600,
+      audit: true,
+      auditEndpoint: 'https://acmeceramics.example.com/.well-known/agents/api/audit',
+    });
+    expect(agentsTxt.capabilities).toEqual([
+      'search', 'browse', 'detail', 'cart.add', 'cart.view', 'cart.update', 'cart.remove', 'checkout',
+    ]);
+  });
+
+  it('treats keys case-insensitively', () => {
+    const { agentsTxt, valid } = parseAgentsTxt('name: Shop\nurl: https://shop.example\nCAPABILITIES: search\n');
+    expect(valid).toBe(true);
+    expect(agentsTxt.name).toBe('Shop');
+    expect(agentsTxt.capabilities).toEqual(['search']);
+  });
+
+  it('reads the legacy SDK keys, flows and per-capability limits', () => {
+    const { agentsTxt, valid } = parseAgentsTxt([
+      'Site: Old Shop',
+      'URL: https://old.example',
+      'Agents-JSON: https://old.example/.well-known/agents.json',
+      'Allow: search',
+      'Allow: checkout',
+      'Flow: purchase → search, checkout',
+      'Flow-Description: Find and buy',
+      'Rate-Limit: 120/minute',
+      'Capability-Rate-Limit: checkout 5/minute, burst 2',
+      'Session-TTL: 900s',
+    ].join('\n'));
+
+    expect(valid).toBe(true);
+    expect(agentsTxt.name).toBe('Old Shop');
+    expect(agentsTxt.capabilities).toEqual(['search', 'checkout']);
+    expect(agentsTxt.capabilitiesUrl).toBe('https://old.example/.well-known/agents.json');
+    expect(agentsTxt.flows).toEqual([{ name: 'purchase', steps: ['search', 'checkout'], description: 'Find and buy' }]);
+    expect(agentsTxt.rateLimit).toBe(120);
+    expect(agentsTxt.capabilityRateLimits).toEqual({ checkout: { requests_per_minute: 5, burst: 2 } });
+    expect(agentsTxt.sessionTtl).toBe(900);
+  });
+
+  it('prefers spec keys over their legacy aliases without warning', () => {
+    const { agentsTxt, diagnostics } = parseAgentsTxt([
+      'Name: New Name',
+      'Site: Old Name',
+      'URL: https://shop.example',
+      'Capabilities: search',
+      'Agents-JSON: https://shop.example/legacy.json',
+      'Capabilities-URL: https://shop.example/.well-known/agents.json',
+    ].join('\n'));
+    expect(diagnostics).toEqual([]);
+    expect(agentsTxt.name).toBe('New Name');
+    expect(agentsTxt.capabilitiesUrl).toBe('https://shop.example/.well-known/agents.json');
+  });
+
+  it('reports malformed lines with their line numbers', () => {
+    const { diagnostics, valid } = parseAgentsTxt([
+      'Name: Shop',
+      'URL: shop.example',
+      'this line has no colon',
+      'Capabilities: search, Bad Name',
+      'Rate-Limit: lots',
+      'Audit: maybe',
+      'Name: Shop Again',
+      'Color: blue',
+    ].join('\n'));
+
+    expect(valid).toBe(false);
+    expect(diagnostics).toEqual([
+      { line: 2, severity: 'error', message: 'URL must be an absolute URL with a scheme, got "shop.example"' },
+      { line: 3, severity: 'error', message: 'Expected "Key: Value", got "this line has no colon"' },
+      { line: 4, severity: 'warning', message: 'Capability name "Bad Name" should be lowercase letters, digits, "_" and "."' },
+      { line: 5, severity: 'error', message: 'Rate-Limit must be a positive number of requests per minute, got "lots"' },
+      { line: 6, severity: 'error', message: 'Audit must be "true" or "false", got "maybe"' },
+      { line: 7, severity: 'warning', message: 'Name repeats line 1; the later value wins' },
+      { line: 8, severity: 'warning', message: 'Unknown field "Color"' },
+    ]);
+  });
+
+  it('reports missing required fields', () => {
+    const { diagnostics, valid } = parseAgentsTxt('# nothing here\n');
+    expect(valid).toBe(false);
+    expect(diagnostics.map(d => d.message)).toEqual([
+      'Missing required field Name',
+      'Missing required field URL',
+      'Missing required field Capabilities',
+    ]);
+  });
+
+  it('keeps unknown fields as extensions', () => {
+    const { agentsTxt } = parseAgentsTxt('X-Region: eu-west\n');
+    expect(agentsTxt.extensions).toEqual({ 'X-Region': 'eu-west' });
+  });
+});
+
+describe('manifestFromAgentsTxt', () => {
+  it('builds absolute endpoints with built-in methods and session requirements', () => {
+    const { agentsTxt } = parseAgentsTxt(SPEC_EXAMPLE);
+    const manifest = manifestFromAgentsTxt(agentsTxt, 'https://acmeceramics.example.com');
+    const api = 'https://acmeceramics.example.com/.well-known/agents/api';
+
+    expect(manifest.site.name).toBe('Acme Ceramics');
+    expect(manifest.capabilities.find(c => c.name === 'detail')).toMatchObject({
+      method: 'GET',
+      endpoint: `${api}/detail/:id`,
+    });
+    expect(manifest.capabilities.find(c => c.name === 'cart.add')).toMatchObject({
+      method: 'POST',
+      endpoint: `${api}/cart/add`,
+      requires_session: true,
+    });
+    expect(manifest.session).toEqual({ create: `${api}/session`, delete: `${api}/session`, ttl_seconds: 3600 });
+    expect(manifest.rate_limit).toEqual({ requests_per_minute: 60 });
+    expect(manifest.audit).toEqual({ enabled: true, endpoint: `${api}/audit/:session_id` });
+  });
+
+  it('defaults the API base and treats custom capabilities as GETs', () => {
+    const { agentsTxt } = parseAgentsTxt('Name: Shop\nURL: https://shop.example\nCapabilities: reserve\n');
+    const manifest = manifestFromAgentsTxt(agentsTxt, 'https://shop.example');
+    expect(manifest.capabilities).toEqual([
+      { name: 'reserve', description: 'reserve', method: 'GET', endpoint: 'https://shop.example/.well-known/agents/api/reserve' },
+    ]);
+    expect(manifest.audit).toBeUndefined();
+  });
+});
@@ -0,0 +1,141 @@
+import { generateKeyPairSync } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { verifyArtifact, verifyArtifactWithKeys, formatVerificationReport } from '../src/audit-verify';
+import { main } from '../src/verify-cli';
+import { AuditJwk } from '../src/types';
+import { makeAuditKey, signedArtifact, sha256 } from './helpers';
+
+describe('verifyArtifact', () => {
+  const key = makeAuditKey();
+
+  it('accepts an untampered artifact with the agents.json key, the JWK or the raw key', () => {
+    const artifact = signedArtifact(key);
+    const report = verifyArtifact(artifact, key.der);
+    expect(report).toMatchObject({
+      valid: true,
+      chain: { valid: true },
+      rootHash: { valid: true, computed: sha256(artifact.events.map(e => e.header.event_hash).join('')) },
+      signature: { valid: true },
+      envelopeSignature: { valid: true },
+    });
+    expect(verifyArtifact(artifact, key.jwk).valid).toBe(true);
+    expect(verifyArtifact(artifact, Buffer.from(key.jwk.x, 'base64url')).keyId).toBe(report.keyId);
+  });
+
+  it('names the event whose contents were changed', () => {
+    const artifact = signedArtifact(key);
+    (artifact.events[2].payload as { tool: string }).tool = 'checkout';
+    const report = verifyArtifact(artifact, key.der);
+    expect(report.valid).toBe(false);
+    expect(report.chain).toEqual({ valid: false, brokenAt: 2, eventId: 'evt_2', reason: 'event 2 does not match its event_hash' });
+  });
+
+  it('detects a removed event', () => {
+    const artifact = signedArtifact(key);
+    artifact.events.splice(1, 1);
+    expect(verifyArtifact(artifact, key.der).chain).toMatchObject({ brokenAt: 1, reason: 'event 1 does not link to event 0' });
+  });
+
+  it('checks a stated root hash', () => {
+    const artifact = { ...signedArtifact(key), root_hash: 'f'.repeat(64) };
+    expect(verifyArtifact(artifact, key.der).rootHash).toMatchObject({ valid: false, reason: `root_hash is ${'f'.repeat(64)}` });
+  });
+
+  it('reports each signature separately', () => {
+    const artifact = signedArtifact(key);
+    artifact.envelope.context = { site: 'https://evil.example' };
+    const report = verifyArtifact(artifact, key.der);
+    expect(report.chain.valid).toBe(true);
+    expect(report.envelopeSignature.valid).toBe(false);
+    expect(report.signature.valid).toBe(false);
+
+    const other = makeAuditKey();
+    const wrongKey = verifyArtifact(signedArtifact(key), other.der);
+    expect(wrongKey.signature.reason).toBe(`runtime_signature does not verify against key ${wrongKey.keyId}`);
+  });
+
+  it('reports a malformed artifact instead of throwing', () => {
+    expect(verifyArtifact({ run_id: 'abc' }, key.der)).toMatchObject({ valid: false, chain: { valid: false } });
+  });
+
+  it('rejects keys that are not Ed25519', () => {
+    const rsa = generateKeyPairSync('rsa', { modulusLength: 1024 }).publicKey.export({ format: 'der', type: 'spki' });
+    expect(() => verifyArtifact(signedArtifact(key), rsa.toString('base64'))).toThrow('must be Ed25519, got rsa');
+  });
+
+  it('formats one line per check', () => {
+    const artifact = signedArtifact(key);
+    artifact.events[0].header.seq = 7;
+    delete artifact.runtime_signature;
+    artifact.runtime_signature = key.sign(artifact);
+    expect(formatVerificationReport(verifyArtifact(artifact, key.der)).split('\n')).toEqual([
+      expect.stringMatching(/^INVALID \(key /),
+      'FAIL hash chain: event 0 does not match its event_hash',
+      'FAIL root hash: cannot compute the root hash of a broken chain',
+      'ok   runtime signature',
+      'ok   envelope signature',
+    ]);
+  });
+});
+
+describe('verifyArtifactWithKeys', () => {
+  const retired = makeAuditKey();
+  const active = makeAuditKey();
+  const keys: AuditJwk[] = [
+    { ...active.jwk, not_before: '2026-03-01T00:00:00.000Z' },
+    { ...retired.jwk, not_before: '2026-02-01T00:00:00.000Z', not_after: '2026-03-01T00:00:00.000Z' },
+  ];
+
+  it('verifies with the key that was active when the session started', () => {
+    expect(verifyArtifactWithKeys(signedArtifact(retired, '2026-02-15T00:00:00.000Z'), keys).valid).toBe(true);
+    expect(verifyArtifactWithKeys(signedArtifact(active, '2026-03-15T00:00:00.000Z'), keys).valid).toBe(true);
+  });
+
+  it('rejects a session signed by a key outside its window', () => {
+    const report = verifyArtifactWithKeys(signedArtifact(retired, '2026-03-15T00:00:00.000Z'), keys);
+    expect(report.valid).toBe(false);
+    expect(report.signature.valid).toBe(false);
+  });
+});
+
+describe('agents-verify', () => {
+  const key = makeAuditKey();
+  let dir: string;
+  let output: string[];
+  const out = (line: string) => output.push(line);
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'agents-verify-'));
+    output = [];
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function write(name: string, value: unknown): string {
+    const file = path.join(dir, name);
+    writeFileSync(file, JSON.stringify(value));
+    return file;
+  }
+
+  it('verifies an audit endpoint response against a key', () => {
+    const file = write('artifact.json', { ok: true, data: signedArtifact(key) });
+    expect(main([file, '--key', key.der], out)).toBe(0);
+    expect(output[0]).toMatch(/^VALID/);
+  });
+
+  it('exits 1 for a tampered artifact and 2 for bad usage', () => {
+    const artifact = signedArtifact(key);
+    artifact.events.pop();
+    const file = write('artifact.json', artifact);
+    const keys = write('keys.json', { keys: [key.jwk] });
+    expect(main([file, '--keys', keys, '--json'], out)).toBe(1);
+    expect(JSON.parse(output[0]).valid).toBe(false);
+
+    expect(main([file], out)).toBe(2);
+    expect(main([path.join(dir, 'missing.json'), '--key', key.der], out)).toBe(2);
+  });
+});
@@ -1,6 +1,7 @@
 import { AgentClient } from '../src/client';
-import { AgentClientError } from '../src/http';
-import { SITE_URL, API, MANIFEST, SESSION, manifestFetch, mockFetch } from './helpers';
+import { AgentClientError, ApprovalRequiredError } from '../src/http';
+import { AuditVerificationError } from '../src/audit-verify';
+import { SITE_URL, API, MANIFEST, SESSION, manifestFetch, mockFetch, makeAuditKey, signedArtifact } from './helpers';
 
 describe('AgentClient', () => {
   describe('discover', () => {
@@ -19,6 +20,23 @@ describe('AgentClient', () => {
       expect(calls).toBe(1);
     });
 
+    it('rejects an invalid manifest when strictManifest is set', async () => {
+      const fetchImpl = mockFetch({ 'agents.json': () => ({ ...MANIFEST, protocol_version: 'latest' }) });
+      const client = new AgentClient(SITE_URL, { fetch: fetchImpl, strictManifest: true });
+      await expect(client.discover()).rejects.toThrow('/protocol_version must be a semantic version');
+    });
+
+    it('passes manifest warnings to onManifestWarning', async () => {
+      const onManifestWarning = jest.fn();
+      const fetchImpl = mockFetch({ 'agents.json': () => ({ ...MANIFEST, protocol_version: 'latest' }) });
+      const client = new AgentClient(SITE_URL, { fetch: fetchImpl, onManifestWarning });
+      await client.discover();
+      expect(onManifestWarning).toHaveBeenCalledWith(
+        expect.stringContaining('/protocol_version must be a semantic version'),
+        { pointer: '/protocol_version', message: 'must be a semantic version such as 0.1.0' },
+      );
+    });
+
     it('supports() returns true for known capabilities', async () => {
       const client = new AgentClient(SITE_URL, { fetch: manifestFetch() });
       await client.discover();
@@ -36,6 +54,54 @@ describe('AgentClient', () => {
       expect(session.capabilities).toContain('search');
     });
 
+    it('asks for a narrower session when connecting', async () => {
+      let sent: unknown;
+      const client = new AgentClient(SITE_URL, {
+        fetch: manifestFetch({
+          '/session': (_url, init) => {
+            sent = JSON.parse(init!.body as string);
+            return { ok: true, data: { ...SESSION, limits: { max_spend_usd: 50 } } };
+          },
+        }),
+      });
+      const session = await client.connect({ capabilities: ['search'], ttl: 300, limits: { max_spend_usd: 50 } });
+      expect(sent).toEqual({ capabilities: ['search'], ttl: 300, limits: { max_spend_usd: 50 } });
+      expect(session.limits).toEqual({ max_spend_usd: 50 });
+    });
+
+    it('reads and refreshes the session', async () => {
+      const status = {
+        session_id: SESSION.session_id,
+        created_at: '2026-03-01T10:00:00.000Z',
+        expires_at: '2026-03-01T11:30:00.000Z',
+        max_expires_at: '2026-03-01T18:00:00.000Z',
+        capabilities: SESSION.capabilities,
+        cart_items: 2,
+        remaining: { tool_calls: 40 },
+      };
+      const seen: string[] = [];
+      const client = new AgentClient(SITE_URL, {
+        fetch: mockFetch({
+          'agents.json': () => ({ ...MANIFEST, session: { ...MANIFEST.session, refresh: `${API}/session/refresh` } }),
+          '/session': (url, init) => {
+            seen.push(`${init?.method ?? 'GET'} ${url.slice(API.length)}`);
+            return { ok: true, data: init?.method === 'POST' && !url.endsWith('/refresh') ? SESSION : status };
+          },
+        }),
+      });
+      await client.connect();
+
+      expect(await client.sessionStatus()).toEqual(status);
+      expect((await client.refreshSession()).expires_at).toBe('2026-03-01T11:30:00.000Z');
+      expect(seen).toEqual(['POST /session', 'GET /session', 'POST /session/refresh']);
+    });
+
+    it('refuses to refresh on sites without a refresh endpoint', async () => {
+      const client = new AgentClient(SITE_URL, { fetch: manifestFetch() });
+      await client.connect();
+      await expect(client.refreshSession()).rejects.toThrow('does not support refreshing sessions');
+    });
+
     it('disconnects and clears the session', async () => {
       const client = new AgentClient(SITE_URL, { fetch: manifestFetch() });
       await client.connect();
@@ -75,7 +141,7 @@ describe('AgentClient', () => {
 
     it('throws AgentClientError for unsupported capability', async () => {
       const fetchImpl = mockFetch({ 'agents.json': () => ({ ...MANIFEST, capabilities: [] }) });
-      const client = new AgentClient(SITE_URL, { fetch: fetchImpl });
+      const client = new AgentClient(SITE_URL, { fetch: fetchImpl, onManifestWarning: () => {} });
       await expect(client.search('x')).rejects.toThrow(AgentClientError);
     });
   });
@@ -133,6 +199,26 @@ describe('AgentClient', () => {
       expect(cart.items).toHaveLength(1);
     });
 
+    it('sends the session token the site reissued with the last response', async () => {
+      const sentTokens: string[] = [];
+      const site = manifestFetch({
+        '/cart/': (_url, init) => {
+          sentTokens.push(new Headers(init?.headers).get('Authorization')!);
+          return { ok: true, data: { item_id: '1', quantity: 2, cart_size: 1, items: [], subtotal: 0 } };
+        },
+      });
+      const fetchImpl: typeof fetch = async (input, init) => {
+        const res = await site(input, init);
+        if (input.toString().endsWith('/cart/add')) res.headers.set('X-Session-Token', 'st1.with-cart');
+        return res;
+      };
+      const client = new AgentClient(SITE_URL, { fetch: fetchImpl });
+      await client.connect();
+      await client.cartAdd('1', 2);
+      await client.cartView();
+      expect(sentTokens).toEqual([`Bearer ${SESSION.session_token}`, 'Bearer st1.with-cart']);
+    });
+
     it('updates cart item', async () => {
       const fetchImpl = manifestFetch({
         '/cart/update': () => ({ ok: true, data: { item_id: '1', quantity: 5 } }),
@@ -197,24 +283,222 @@ describe('AgentClient', () => {
       const client = new AgentClient(SITE_URL, { fetch: manifestFetch() });
       await expect(client.call('teleport')).rejects.toThrow(AgentClientError);
     });
+
+    describe('path parameters', () => {
+      const manifest = {
+        ...MANIFEST,
+        capabilities: [...MANIFEST.capabilities, {
+          name: 'order.note',
+          description: 'Note on an order line',
+          method: 'PUT',
+          endpoint: `${API}/orders/:order_id/items/:sku`,
+          params: {
+            order_id: { type: 'integer', required: true },
+            sku: { type: 'string', required: true },
+            note: { type: 'string' },
+          },
+        }],
+      };
+
+      it('fills the endpoint and sends the remaining params in the body', async () => {
+        let sent: { url: string; body: unknown } | undefined;
+        const fetchImpl = mockFetch({
+          'agents.json': () => manifest,
+          '/orders/': (url, init) => {
+            sent = { url, body: JSON.parse(init!.body as string) };
+            return { ok: true, data: {} };
+          },
+        });
+        const client = new AgentClient(SITE_URL, { fetch: fetchImpl });
+        await client.call('order.note', { order_id: 42, sku: 'mug/blue', note: 'gift wrap' });
+
+        expect(sent).toEqual({ url: `${API}/orders/42/items/mug%2Fblue`, body: { note: 'gift wrap' } });
+      });
+
+      it('refuses a call missing a path parameter without sending it', async () => {
+        const fetchImpl = jest.fn(mockFetch({ 'agents.json': () => manifest }));
+        const client = new AgentClient(SITE_URL, { fetch: fetchImpl });
+
+        await expect(client.call('order.note', { order_id: 42 })).rejects.toMatchObject({
+          code: 'invalid_params',
+          message: 'order.note needs the path parameter "sku"',
+        });
+        expect(fetchImpl).toHaveBeenCalledTimes(1);
+      });
+    });
+  });
+
+  describe('human approval', () => {
+    const approval = {
+      approval_id: 'apr_1',
+      capability: 'checkout',
+      status: 'pending' as const,
+      input: {},
+      approval_url: 'https://test.com/approve/apr_1',
+      status_url: '/.well-known/agents/api/approvals/apr_1',
+      created_at: SESSION.expires_at,
+      expires_at: SESSION.expires_at,
+    };
+
+    function approvalFetch(decisions: string[]) {
+      const resumed: (string | undefined)[] = [];
+      const fetchImpl = manifestFetch({
+        '/approvals/apr_1': () => ({ ok: true, data: { ...approval, status: decisions.shift() } }),
+        '/checkout': (_url, init) => {
+          const id = (init?.headers as Record<string, string>)['X-Approval-Id'];
+          resumed.push(id);
+          return id ? { ok: true, data: { checkout_url: 'https://test.com/pay' } } : { ok: true, approval };
+        },
+      });
+      return { fetchImpl, resumed };
+    }
+
+    it('throws ApprovalRequiredError for a held call', async () => {
+      const client = new AgentClient(SITE_URL, { fetch: approvalFetch([]).fetchImpl });
+      const error = (await client.call('checkout').catch(e => e)) as ApprovalRequiredError;
+      expect(error).toBeInstanceOf(ApprovalRequiredError);
+      expect(error.approval.approval_url).toBe('https://test.com/approve/apr_1');
+    });
+
+    it('waits for the decision and resumes the call with the approval ID', async () => {
+      const { fetchImpl, resumed } = approvalFetch(['pending', 'approved']);
+      const client = new AgentClient(SITE_URL, { fetch: fetchImpl });
+      const onPending = jest.fn();
+      const result = await client.callWithApproval('checkout', {}, { onPending, pollInterval: 1 });
+      expect(result).toEqual({ checkout_url: 'https://test.com/pay' });
+      expect(onPending).toHaveBeenCalledWith(approval);
+      expect(resumed).toEqual([undefined, 'apr_1']);
+    });
+
+    it('throws when the request is denied', async () => {
+      const { fetchImpl, resumed } = approvalFetch(['denied']);
+      const client = new AgentClient(SITE_URL, { fetch: fetchImpl });
+      const error = (await client.callWithApproval('checkout', {}, { pollInterval: 1 }).catch(e => e)) as AgentClientError;
+      expect(error.code).toBe('approval_denied');
+      expect(resumed).toEqual([undefined]);
+    });
   });
 
   describe('getAuditArtifact', () => {
     it('fetches audit artifact for the current session', async () => {
+      let url: string | undefined;
       const artifact = { run_id: 'abc', events: [], runtime_signature: 'sig' };
       const fetchImpl = manifestFetch({
-        '/audit/': () => ({ ok: true, data: artifact }),
+        '/audit/': (u) => {
+          url = u;
+          return { ok: true, data: artifact };
+        },
       });
       const client = new AgentClient(SITE_URL, { fetch: fetchImpl });
       await client.connect();
       const result = await client.getAuditArtifact();
       expect((result as { run_id: string }).run_id).toBe('abc');
+      // The public session ID, never the bearer token
+      expect(url).toMatch(/\/audit\/ses_test123$/);
     });
 
     it('throws when no session is active', async () => {
       const client = new AgentClient(SITE_URL, { fetch: manifestFetch() });
       await expect(client.getAuditArtifact()).rejects.toThrow('No active session');
     });
+
+    it('fetches the ended session\'s artifact with its proof token', async () => {
+      const seen: { url: string; auth?: string }[] = [];
+      const record = (url: string, init?: RequestInit) => {
+        seen.push({ url, auth: (init?.headers as Record<string, string> | undefined)?.Authorization });
+      };
+      const fetchImpl = mockFetch({
+        'agents.json': () => MANIFEST,
+        '/session': (_url, init) => init?.method === 'DELETE'
+          ? { ok: true, data: { ended: true, session_id: SESSION.session_id, audit_access_token: 'proof-123' } }
+          : { ok: true, data: SESSION },
+        '/audit/ses_test123/link': (url, init) => {
+          record(url, init);
+          return { ok: true, data: { url: 'https://test.com/audit/ses_test123?expires=1&signature=x', expires_at: SESSION.expires_at } };
+        },
+        '/audit/': (url, init) => {
+          record(url, init);
+          return { ok: true, data: { run_id: 'abc' } };
+        },
+      });
+      const client = new AgentClient(SITE_URL, { fetch: fetchImpl });
+      await client.connect();
+      await client.disconnect();
+
+      expect(await client.getAuditArtifact()).toEqual({ run_id: 'abc' });
+      const link = await client.getAuditLink({ ttl: 600 });
+      expect(link.url).toContain('signature=');
+      expect(seen.map(r => r.auth)).toEqual(['Bearer proof-123', 'Bearer proof-123']);
+      expect(seen[1].url).toMatch(/\/audit\/ses_test123\/link$/);
+    });
+
+    it('reads the live audit log with the session token', async () => {
+      let auth: string | undefined;
+      const log = { run_id: 'abc', events: [], event_count: 0, head_hash: null, expires_at: SESSION.expires_at };
+      const fetchImpl = mockFetch({
+        'agents.json': () => ({ ...MANIFEST, audit: { ...MANIFEST.audit, live_endpoint: '/.well-known/agents/api/audit/live' } }),
+        '/session': () => ({ ok: true, data: SESSION }),
+        '/audit/live': (_url, init) => {
+          auth = (init?.headers as Record<string, string>).Authorization;
+          return { ok: true, data: log };
+        },
+      });
+      const client = new AgentClient(SITE_URL, { fetch: fetchImpl });
+      await client.connect();
+      expect(await client.getAuditLog()).toEqual(log);
+      expect(auth).toBe(`Bearer ${SESSION.session_token}`);
+    });
+
+    it('throws when the site publishes no live audit log', async () => {
+      const client = new AgentClient(SITE_URL, { fetch: manifestFetch() });
+      await client.connect();
+      await expect(client.getAuditLog()).rejects.toThrow('does not publish a live audit log');
+    });
+
+    describe('with verification', () => {
+      const key = makeAuditKey();
+
+      function auditFetch(artifact: unknown, audit: object) {
+        return mockFetch({
+          'agents.json': () => ({ ...MANIFEST, audit: { ...MANIFEST.audit, ...audit } }),
+          '/session': () => ({ ok: true, data: SESSION }),
+          '/audit/keys': () => ({ keys: [{ ...key.jwk, not_before: '2026-01-01T00:00:00.000Z' }] }),
+          '/audit/': () => ({ ok: true, data: artifact }),
+        });
+      }
+
+      it('verifies against the manifest public key', async () => {
+        const artifact = signedArtifact(key);
+        const client = new AgentClient(SITE_URL, { fetch: auditFetch(artifact, { public_key: key.der }) });
+        await client.connect();
+        expect(await client.getAuditArtifact({ verify: true })).toEqual(artifact);
+      });
+
+      it('prefers the published key list', async () => {
+        const other = makeAuditKey();
+        const fetchImpl = auditFetch(signedArtifact(key), { public_key: other.der, keys_endpoint: `${API}/audit/keys` });
+        const client = new AgentClient(SITE_URL, { fetch: fetchImpl, verifyAuditArtifacts: true });
+        await client.connect();
+        await expect(client.getAuditArtifact()).resolves.toBeDefined();
+      });
+
+      it('throws AuditVerificationError with the report for a tampered artifact', async () => {
+        const artifact = signedArtifact(key);
+        artifact.events.splice(1, 1);
+        const client = new AgentClient(SITE_URL, { fetch: auditFetch(artifact, { public_key: key.der }) });
+        await client.connect();
+        const error = (await client.getAuditArtifact({ verify: true }).catch(e => e)) as AuditVerificationError;
+        expect(error).toBeInstanceOf(AuditVerificationError);
+        expect(error.report.chain).toMatchObject({ valid: false, brokenAt: 1 });
+        expect(error.message).toContain('hash chain: event 1 does not link to event 0');
+      });
+
+      it('throws when the site publishes no key', async () => {
+        const client = new AgentClient(SITE_URL, { fetch: auditFetch(signedArtifact(key), {}) });
+        await client.connect();
+        await expect(client.getAuditArtifact({ verify: true })).rejects.toThrow('does not publish an audit public key');
+      });
+    });
   });
 
   describe('Authorization header', () => {
@@ -233,6 +517,21 @@ describe('AgentClient', () => {
       await client.search('test');
       expect(capturedHeaders['Authorization']).toBe(`Bearer ${SESSION.session_token}`);
     });
+
+    it('signs every request when an agentKey is configured', async () => {
+      let captured: Headers | null = null;
+      const fetchImpl = manifestFetch({
+        '/search': (_url, init) => {
+          captured = new Headers(init?.headers);
+          return { ok: true, data: [] };
+        },
+      });
+      const client = new AgentClient(SITE_URL, { fetch: fetchImpl, agentKey: { keyId: 'bot-1', apiKey: 'secret' } });
+      await client.connect();
+      await client.search('test');
+      expect(captured!.get('authorization')).toBe(`Bearer ${SESSION.session_token}`);
+      expect(captured!.get('signature-input')).toMatch(/^sig1=\("@method" "@authority" "@path" "@query"\);created=\d+;keyid="bot-1"/);
+    });
   });
 
   describe('flows', () => {
@@ -340,4 +639,69 @@ describe('AgentClient', () => {
       await expect(client.call('search', { q: 'x' })).rejects.toThrow(AgentClientError);
     });
   });
+
+  describe('error envelope', () => {
+    function fetchWithError(status: number, envelope: object, counter = { n: 0 }): typeof fetch {
+      return async (input: any): Promise<Response> => {
+        const url = input.toString();
+        if (url.includes('agents.json')) {
+          return new Response(JSON.stringify(MANIFEST), { status: 200, headers: { 'Content-Type': 'application/json' } });
+        }
+        counter.n++;
+        return new Response(JSON.stringify(envelope), { status, headers: { 'Content-Type': 'application/json' } });
+      };
+    }
+
+    it('exposes code, retryable and details from the site', async () => {
+      const client = new AgentClient(SITE_URL, {
+        fetch: fetchWithError(400, {
+          ok: false,
+          error: 'Invalid parameters: q is required',
+          code: 'invalid_params',
+          retryable: false,
+          details: { fields: [{ field: 'q', message: 'q is required' }] },
+        }),
+      });
+      const call = client.call('search', {});
+      await expect(call).rejects.toBeInstanceOf(AgentClientError);
+      await expect(call).rejects.toMatchObject({
+        statusCode: 400,
+        code: 'invalid_params',
+        retryable: false,
+        details: { fields: [{ field: 'q', message: 'q is required' }] },
+      });
+    });
+
+    it('retries errors the site marks as retryable', async () => {
+      const counter = { n: 0 };
+      const client = new AgentClient(SITE_URL, {
+        fetch: fetchWithError(503, { ok: false, error: 'Warehouse offline', code: 'unavailable', retryable: true }, counter),
+        maxRetries: 2,
+        retryDelay: 0,
+      });
+      await expect(client.call('search', { q: 'x' })).rejects.toMatchObject({ code: 'unavailable', statusCode: 503 });
+      expect(counter.n).toBe(3);
+    });
+
+    it('leaves retryable errors of non-idempotent calls to the caller', async () => {
+      const counter = { n: 0 };
+      const client = new AgentClient(SITE_URL, {
+        fetch: fetchWithError(502, { ok: false, error: 'Upstream failed', code: 'upstream_error', retryable: true }, counter),
+        maxRetries: 2,
+        retryDelay: 0,
+      });
+      await expect(client.call('contact', { message: 'hi' })).rejects.toMatchObject({ code: 'upstream_error', retryable: true });
+      expect(counter.n).toBe(1);
+    });
+
+    it('does not retry non-retryable errors', async () => {
+      const counter = { n: 0 };
+      const client = new AgentClient(SITE_URL, {
+        fetch: fetchWithError(404, { ok: false, error: 'Item not found: 9', code: 'not_found', retryable: false }, counter),
+        retryDelay: 0,
+      });
+      await expect(client.detail('9')).rejects.toMatchObject({ code: 'not_found', statusCode: 404 });
+      expect(counter.n).toBe(1);
+    });
+  });
 });
@@ -13,7 +13,7 @@ describe('discover', () => {
   it('returns the full manifest structure', async () => {
     const fetchImpl = mockFetch({ 'agents.json': () => MANIFEST });
     const manifest = await discover(SITE_URL, fetchImpl);
-    expect(manifest.schema_version).toBe('1.0');
+    expect(manifest.protocol_version).toBe('0.1.0');
     expect(manifest.session.create).toContain('/session');
     expect(manifest.audit?.enabled).toBe(true);
   });
@@ -42,6 +42,29 @@ describe('discover', () => {
   });
 });
 
+describe('discover falling back to agents.txt', () => {
+  function txtOnlyFetch(txt: string): typeof fetch {
+    return async (input: RequestInfo | URL) => {
+      if (input.toString().endsWith('/.well-known/agents.txt')) {
+        return new Response(txt, { status: 200, headers: { 'Content-Type': 'text/plain' } });
+      }
+      return new Response('', { status: 404 });
+    };
+  }
+
+  it('builds a manifest from agents.txt when there is no agents.json', async () => {
+    const manifest = await discover(SITE_URL, txtOnlyFetch(`Name: Test Store\nURL: ${SITE_URL}\nCapabilities: search, detail\n`));
+    expect(manifest.site.name).toBe('Test Store');
+    expect(manifest.capabilities.map(c => c.name)).toEqual(['search', 'detail']);
+    expect(manifest.capabilities[0].endpoint).toBe(`${SITE_URL}/.well-known/agents/api/search`);
+  });
+
+  it('throws with line numbers when agents.txt is malformed', async () => {
+    const fetchImpl = txtOnlyFetch(`Name: Test Store\nURL: ${SITE_URL}\nCapabilities: search\nRate-Limit: fast\n`);
+    await expect(discover(SITE_URL, fetchImpl)).rejects.toThrow('line 4: Rate-Limit must be');
+  });
+});
+
 describe('discoverTxt', () => {
   it('fetches agents.txt as plain text', async () => {
     const fetchImpl = async () => new Response('Site: Test Store\n', {
@@ -57,3 +80,40 @@ describe('discoverTxt', () => {
     await expect(discoverTxt(SITE_URL, fetchImpl as any)).rejects.toThrow(AgentClientError);
   });
 });
+
+describe('discover manifest validation', () => {
+  const INVALID = { ...MANIFEST, capabilities: [...MANIFEST.capabilities, { ...MANIFEST.capabilities[0] }] };
+
+  it('reports schema errors as warnings by default', async () => {
+    const messages: string[] = [];
+    const manifest = await discover(SITE_URL, mockFetch({ 'agents.json': () => INVALID }), {
+      onWarning: message => messages.push(message),
+    });
+    expect(manifest.capabilities).toHaveLength(INVALID.capabilities.length);
+    expect(messages).toEqual([
+      `agents.json at ${SITE_URL}/.well-known/agents.json: /capabilities/9/name duplicates /capabilities/0/name ("search")`,
+    ]);
+  });
+
+  it('prints nothing when no onWarning is given', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    try {
+      await discover(SITE_URL, mockFetch({ 'agents.json': () => INVALID }));
+      expect(warn).not.toHaveBeenCalled();
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('rejects an invalid manifest in strict mode', async () => {
+    const fetchImpl = mockFetch({ 'agents.json': () => INVALID });
+    await expect(discover(SITE_URL, fetchImpl, { strict: true }))
+      .rejects.toThrow('/capabilities/9/name duplicates /capabilities/0/name');
+  });
+
+  it('accepts a valid manifest in strict mode without warnings', async () => {
+    const onWarning = jest.fn();
+    await discover(SITE_URL, mockFetch({ 'agents.json': () => MANIFEST }), { strict: true, onWarning });
+    expect(onWarning).not.toHaveBeenCalled();
+  });
+});
@@ -1,16 +1,17 @@
-import { AgentsManifest } from '../src/types';
+import { createHash, generateKeyPairSync, sign } from 'crypto';
+import { AgentsManifest, AuditJwk } from '../src/types';
 
 export const SITE_URL = 'https://test-store.example';
 export const BASE = `${SITE_URL}/.well-known`;
 export const API = `${BASE}/agents/api`;
 
 export const MANIFEST: AgentsManifest = {
-  schema_version: '1.0',
+  protocol_version: '0.1.0',
   site: { name: 'Test Store', url: SITE_URL, description: 'A test store' },
   capabilities: [
     { name: 'search', description: 'Search items', method: 'GET', endpoint: `${API}/search`, params: { q: { type: 'string', required: true } } },
     { name: 'browse', description: 'Browse items', method: 'GET', endpoint: `${API}/browse` },
-    { name: 'detail', description: 'Item detail', method: 'GET', endpoint: `${API}/detail/:id` },
+    { name: 'detail', description: 'Item detail', method: 'GET', endpoint: `${API}/detail/:id`, params: { id: { type: 'string', required: true } } },
     { name: 'cart.add', description: 'Add to cart', method: 'POST', endpoint: `${API}/cart/add`, requires_session: true },
     { name: 'cart.view', description: 'View cart', method: 'GET', endpoint: `${API}/cart/view`, requires_session: true },
     { name: 'cart.update', description: 'Update cart', method: 'PUT', endpoint: `${API}/cart/update`, requires_session: true },
@@ -27,6 +28,7 @@ export const MANIFEST: AgentsManifest = {
 };
 
 export const SESSION = {
+  session_id: 'ses_test123',
   session_token: 'test-token-abc123',
   expires_at: new Date(Date.now() + 3600000).toISOString(),
   capabilities: ['search', 'browse', 'cart.add', 'cart.view', 'cart.update', 'cart.remove', 'checkout', 'contact'],
@@ -63,3 +65,50 @@ export function manifestFetch(extra?: Record<string, (url: string, init?: Reques
     ...extra,
   });
 }
+
+// Signed audit artifacts, built independently of src/audit-verify.ts.
+// Keys here are always plain ASCII, so a plain sort is JCS order.
+function canonicalize(v: unknown): string {
+  if (Array.isArray(v)) return `[${v.map(canonicalize).join(',')}]`;
+  if (v && typeof v === 'object') {
+    const obj = v as Record<string, unknown>;
+    return `{${Object.keys(obj).sort().map(k => `${JSON.stringify(k)}:${canonicalize(obj[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(v);
+}
+
+export const sha256 = (s: string) => createHash('sha256').update(s).digest('hex');
+
+export function makeAuditKey() {
+  const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+  const jwk = publicKey.export({ format: 'jwk' }) as AuditJwk;
+  return {
+    privateKey,
+    jwk,
+    der: publicKey.export({ format: 'der', type: 'spki' }).toString('base64'),
+    sign: (data: object) => sign(null, Buffer.from(canonicalize(data)), privateKey).toString('base64'),
+  };
+}
+
+export type SignedArtifact = {
+  envelope: Record<string, unknown>;
+  events: { header: Record<string, unknown>; payload: unknown }[];
+  runtime_signature?: string;
+};
+
+export function signedArtifact(key: ReturnType<typeof makeAuditKey>, createdAt = '2026-03-10T12:00:00.000Z'): SignedArtifact {
+  const envelope: Record<string, unknown> = { run_id: 'run-1', created_at: createdAt, context: { site: 'https://shop.example' } };
+  envelope.envelope_signature = key.sign(envelope);
+
+  const events: SignedArtifact['events'] = [];
+  let parent: string | null = null;
+  for (const [seq, type] of ['RunStarted', 'ToolCalled', 'ToolReturned', 'RunEnded'].entries()) {
+    const event = { header: { event_id: `evt_${seq}`, seq, type, parent_event_hash: parent }, payload: { tool: 'search' } };
+    parent = sha256(canonicalize(event));
+    events.push({ ...event, header: { ...event.header, event_hash: parent } });
+  }
+
+  const artifact: SignedArtifact = { envelope, events };
+  artifact.runtime_signature = key.sign(artifact);
+  return artifact;
+}
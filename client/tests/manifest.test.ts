@@ -0,0 +1,154 @@
+import { readFileSync } from 'fs';
+import * as path from 'path';
+import Ajv from 'ajv';
+import addFormats from 'ajv-formats';
+import { validateManifest, formatManifestIssue } from '../src/manifest';
+import { MANIFEST } from './helpers';
+
+describe('validateManifest', () => {
+  it('accepts a spec-conformant manifest', () => {
+    expect(validateManifest(MANIFEST)).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('reports every error with its JSON pointer', () => {
+    const { valid, errors, warnings } = validateManifest({
+      protocol_version: '1.0',
+      site: { name: 'Shop', url: 'shop.example', colour: 'blue' },
+      capabilities: [
+        { name: 'search', description: 'Search', method: 'GET', endpoint: '/search', params: { 'a/b': { type: 'text' } } },
+        { name: 'Cart Add', description: 'Add', method: 'FETCH', endpoint: '/cart/add' },
+        { name: 'search', description: 'Again', method: 'GET' },
+      ],
+      session: { ttl_seconds: 10 },
+    });
+
+    expect(valid).toBe(false);
+    expect(errors).toEqual([
+      { pointer: '/protocol_version', message: 'must be a semantic version such as 0.1.0' },
+      { pointer: '/site/colour', message: 'is not an allowed property' },
+      { pointer: '/site/url', message: 'must be an absolute URI' },
+      { pointer: '/capabilities/0/params/a~1b/type', message: expect.stringContaining('must be one of: string') },
+      { pointer: '/capabilities/1/method', message: 'must be one of: GET, POST, PUT, PATCH, DELETE' },
+      { pointer: '/capabilities/2', message: 'is missing required property "endpoint"' },
+      { pointer: '/capabilities/2/name', message: 'duplicates /capabilities/0/name ("search")' },
+      { pointer: '/session/ttl_seconds', message: 'must be >= 60' },
+    ]);
+    expect(warnings).toEqual([
+      { pointer: '/capabilities/1/name', message: expect.stringContaining('should start with a lowercase letter') },
+    ]);
+  });
+
+  it('checks that flow steps name declared capabilities', () => {
+    const { errors } = validateManifest({
+      ...MANIFEST,
+      flows: [{ name: 'purchase', description: 'Buy', steps: ['search', 'pay'] }],
+    });
+    expect(errors).toEqual([{ pointer: '/flows/0/steps/1', message: 'names unknown capability "pay"' }]);
+  });
+
+  it('reports missing top-level fields against the root pointer', () => {
+    const { errors } = validateManifest({ schema_version: '1.0' });
+    expect(errors.map(formatManifestIssue)).toEqual([
+      '(root) is missing required property "protocol_version"',
+      '(root) is missing required property "site"',
+      '(root) is missing required property "capabilities"',
+    ]);
+  });
+
+  it('checks session limits', () => {
+    const { errors } = validateManifest({
+      ...MANIFEST,
+      session: {
+        ...MANIFEST.session,
+        limits: { max_tool_calls: 100, max_calls_per_capability: { checkout: 1.5 }, max_spend_usd: -1 },
+      },
+    });
+    expect(errors).toEqual([
+      { pointer: '/session/limits/max_calls_per_capability/checkout', message: 'must be an integer' },
+      { pointer: '/session/limits/max_spend_usd', message: 'must be a number >= 0' },
+    ]);
+  });
+
+  it('checks session lifetime fields', () => {
+    const session = { ...MANIFEST.session, refresh: `${MANIFEST.session.create}/refresh`, max_lifetime_seconds: 86_400, sliding_expiry: true };
+    expect(validateManifest({ ...MANIFEST, session }).valid).toBe(true);
+
+    const { errors } = validateManifest({ ...MANIFEST, session: { ...session, max_lifetime_seconds: 30, sliding_expiry: 'yes' } });
+    expect(errors).toEqual([
+      { pointer: '/session/max_lifetime_seconds', message: 'must be >= 60' },
+      { pointer: '/session/sliding_expiry', message: 'must be a boolean' },
+    ]);
+  });
+
+  it('checks the agent_auth block', () => {
+    const agentAuth = { required: true, scheme: 'http-message-signatures', algorithms: ['ed25519'], max_age_seconds: 300 };
+    expect(validateManifest({ ...MANIFEST, agent_auth: agentAuth }).valid).toBe(true);
+
+    const { errors } = validateManifest({ ...MANIFEST, agent_auth: { ...agentAuth, scheme: 'bearer', algorithms: ['rsa'] } });
+    expect(errors).toEqual([
+      { pointer: '/agent_auth/scheme', message: 'must be "http-message-signatures"' },
+      { pointer: '/agent_auth/algorithms/0', message: 'must be one of: ed25519, hmac-sha256' },
+    ]);
+  });
+
+  it('warns when session capabilities have no session endpoints', () => {
+    const { valid, warnings } = validateManifest({ ...MANIFEST, session: undefined });
+    expect(valid).toBe(true);
+    expect(warnings).toEqual([
+      { pointer: '/session', message: 'should be present when a capability requires a session' },
+    ]);
+  });
+});
+
+describe('validateManifest and spec/schemas/agents.schema.json', () => {
+  const schema = JSON.parse(readFileSync(path.join(__dirname, '../../spec/schemas/agents.schema.json'), 'utf8'));
+  const ajv = new Ajv({ strict: false });
+  addFormats(ajv);
+  const schemaAccepts = ajv.compile(schema);
+
+  const capability = MANIFEST.capabilities[0];
+  const withCapability = (changes: object) => ({
+    ...MANIFEST,
+    capabilities: [{ ...capability, ...changes }, ...MANIFEST.capabilities.slice(1)],
+  });
+  // Cross-field rules (unique names, flow steps, path params) are beyond the schema, so they are not here.
+  const cases: Array<[string, unknown, boolean]> = [
+    ['the test manifest', MANIFEST, true],
+    ['a minimal manifest', { protocol_version: '0.1.0', site: { name: 'Shop', url: 'https://shop.example' }, capabilities: [capability] }, true],
+    ['a full session block', {
+      ...MANIFEST,
+      session: {
+        ...MANIFEST.session,
+        refresh: `${MANIFEST.session.create}/refresh`,
+        max_lifetime_seconds: 86_400,
+        sliding_expiry: true,
+        limits: { max_tool_calls: 10, max_calls_per_capability: { checkout: 1 }, max_spend_usd: 50 },
+      },
+    }, true],
+    ['agent auth', { ...MANIFEST, agent_auth: { required: true, scheme: 'http-message-signatures', algorithms: ['ed25519'] } }, true],
+    ['a capability rate limit and typed params', withCapability({
+      rate_limit: { requests_per_minute: 5, burst: 2 },
+      params: { q: { type: ['string', 'null'], required: true } },
+    }), true],
+    ['a missing protocol_version', { ...MANIFEST, protocol_version: undefined }, false],
+    ['a non-semver protocol_version', { ...MANIFEST, protocol_version: 'latest' }, false],
+    ['an unknown top-level property', { ...MANIFEST, colour: 'blue' }, false],
+    ['a relative site URL', { ...MANIFEST, site: { ...MANIFEST.site, url: 'shop.example' } }, false],
+    ['no capabilities', { ...MANIFEST, capabilities: [] }, false],
+    ['a capability without an endpoint', withCapability({ endpoint: undefined }), false],
+    ['an unknown method', withCapability({ method: 'FETCH' }), false],
+    ['an unknown param type', withCapability({ params: { q: { type: 'text' } } }), false],
+    ['a param without a type', withCapability({ params: { q: { required: true } } }), false],
+    ['a rate limit without requests_per_minute', withCapability({ rate_limit: { burst: 2 } }), false],
+    ['a short session TTL', { ...MANIFEST, session: { ...MANIFEST.session, ttl_seconds: 10 } }, false],
+    ['a negative spend limit', { ...MANIFEST, session: { ...MANIFEST.session, limits: { max_spend_usd: -1 } } }, false],
+    ['an unknown signature algorithm', { ...MANIFEST, agent_auth: { required: true, scheme: 'http-message-signatures', algorithms: ['rsa'] } }, false],
+    ['a flow without steps', { ...MANIFEST, flows: [{ name: 'buy', steps: [] }] }, false],
+  ];
+
+  it.each(cases)('agree on %s', (_label, manifest, valid) => {
+    const json = JSON.parse(JSON.stringify(manifest));
+    expect(schemaAccepts(json)).toBe(valid);
+    expect(validateManifest(json).valid).toBe(valid);
+  });
+});
@@ -0,0 +1,92 @@
+import { createHmac, generateKeyPairSync, verify } from 'crypto';
+import {
+  contentDigest,
+  parseSignature,
+  parseSignatureInput,
+  signatureBase,
+  signingFetch,
+  signRequest,
+} from '../src/signing';
+
+describe('signRequest', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  const now = Date.UTC(2026, 0, 1);
+
+  it('signs method, authority, path, query and body digest with Ed25519', () => {
+    const body = JSON.stringify({ product_id: 'p1', quantity: 2 });
+    const headers = signRequest(
+      { keyId: 'bot-1', privateKey },
+      { method: 'post', url: 'https://Shop.example.com:8443/api/cart/add?ref=x', body },
+      now,
+    );
+
+    expect(headers['Content-Digest']).toBe(contentDigest(body));
+    expect(headers['Signature-Input']).toBe(
+      'sig1=("@method" "@authority" "@path" "@query" "content-digest");created=1767225600;keyid="bot-1";alg="ed25519"',
+    );
+
+    const parsed = parseSignatureInput(headers['Signature-Input'])!;
+    expect(parsed.params).toEqual({ created: 1767225600, keyid: 'bot-1', alg: 'ed25519' });
+    const base = signatureBase(parsed.components, {
+      '@method': 'POST',
+      '@authority': 'shop.example.com:8443',
+      '@path': '/api/cart/add',
+      '@query': '?ref=x',
+      'content-digest': headers['Content-Digest'],
+    }, parsed.serialized);
+    expect(base.split('\n')[0]).toBe('"@method": POST');
+    expect(verify(null, Buffer.from(base), publicKey, parseSignature(headers['Signature'], 'sig1')!)).toBe(true);
+  });
+
+  it('signs with HMAC-SHA256 and leaves out what the request does not have', () => {
+    const headers = signRequest({ keyId: 'bot-2', apiKey: 'secret' }, { method: 'GET', url: 'https://shop.example.com/api/search' }, now);
+
+    expect(headers['Content-Digest']).toBeUndefined();
+    const parsed = parseSignatureInput(headers['Signature-Input'])!;
+    expect(parsed.components).toEqual(['@method', '@authority', '@path']);
+    const base = signatureBase(parsed.components, {
+      '@method': 'GET',
+      '@authority': 'shop.example.com',
+      '@path': '/api/search',
+    }, parsed.serialized);
+    expect(parseSignature(headers['Signature'], 'sig1')).toEqual(createHmac('sha256', 'secret').update(base).digest());
+  });
+
+  it('needs exactly one key', () => {
+    expect(() => signRequest({ keyId: 'k' }, { method: 'GET', url: 'https://a.test/' })).toThrow('exactly one');
+  });
+});
+
+describe('parseSignatureInput', () => {
+  it('rejects malformed headers', () => {
+    expect(parseSignatureInput('sig1=@method')).toBeNull();
+    expect(parseSignatureInput('sig1=("@method" path)')).toBeNull();
+    expect(parseSignatureInput('sig1=("@method");created=soon')).toBeNull();
+  });
+
+  it('reads the first of several signatures', () => {
+    const parsed = parseSignatureInput('a=("@path");keyid="k1", b=("@method");keyid="k2"');
+    expect(parsed).toMatchObject({ label: 'a', components: ['@path'], params: { keyid: 'k1' }, serialized: '("@path");keyid="k1"' });
+  });
+});
+
+describe('signingFetch', () => {
+  it('adds the signature headers to every request', async () => {
+    const seen: Headers[] = [];
+    const fetchImpl = signingFetch(async (_url, init) => {
+      seen.push(new Headers(init?.headers));
+      return new Response('{}');
+    }, { keyId: 'bot-2', apiKey: 'secret' });
+
+    await fetchImpl('https://shop.example.com/api/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"ttl":60}',
+    });
+
+    expect(seen[0].get('content-type')).toBe('application/json');
+    expect(seen[0].get('content-digest')).toBe(contentDigest('{"ttl":60}'));
+    expect(seen[0].get('signature-input')).toContain('keyid="bot-2";alg="hmac-sha256"');
+    expect(seen[0].get('signature')).toMatch(/^sig1=:[A-Za-z0-9+/]+=*:$/);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Agent authentication (spec/interaction-api.md, "Agent Authentication").
+ *
+ * Sites register the agents they know by key ID, with an Ed25519 public key or
+ * an API key shared for HMAC-SHA256. Such an agent signs its requests with HTTP
+ * message signatures (RFC 9421); the signature base is built by the same code the
+ * client signs with, from `@agents-protocol/client`.
+ *
+ * A signature must cover `@method`, `@authority` (the Host header), `@path`, plus
+ * `@query` when there is a query string and `content-digest` when there is a body.
+ * The digest is checked against `rawBody` when the framework kept it, otherwise
+ * against the parsed body re-serialized with JSON.stringify(), which matches
+ * compact JSON such as the client sends.
+ *
+ * An unsigned request is anonymous unless `required` is set; a signed request
+ * that does not verify is always refused.
+ */
+
+import { createPublicKey, createHmac, KeyObject, timingSafeEqual, verify } from 'crypto';
+import { contentDigest, parseSignature, parseSignatureInput, signatureBase } from '@agents-protocol/client';
+import { UnauthorizedError } from './errors';
+import { AgentAuthOptions, AgentIdentity, AgentRegistry, AgentRequest, RegisteredAgent } from './types';
+
+const DEFAULT_MAX_AGE = 300;
+// Signers' clocks may run slightly ahead of ours.
+const CLOCK_SKEW = 30;
+
+/** Default registry: a fixed list, indexed by key ID. */
+export class MemoryAgentRegistry implements AgentRegistry {
+  private agents = new Map<string, RegisteredAgent>();
+
+  constructor(agents: RegisteredAgent[] = []) {
+    for (const agent of agents) this.register(agent);
+  }
+
+  register(agent: RegisteredAgent): void {
+    if (!agent.publicKey === !agent.apiKey) {
+      throw new Error(`Registered agent ${agent.keyId} needs exactly one of publicKey or apiKey`);
+    }
+    if (this.agents.has(agent.keyId)) throw new Error(`Duplicate agent key ID ${agent.keyId}`);
+    this.agents.set(agent.keyId, { ...agent });
+  }
+
+  async get(keyId: string): Promise<RegisteredAgent | null> {
+    const agent = this.agents.get(keyId);
+    return agent ? { ...agent } : null;
+  }
+}
+
+/** The `agent_auth` block of agents.json. */
+export interface PublishedAgentAuth {
+  required: boolean;
+  scheme: 'http-message-signatures';
+  algorithms: Array<AgentIdentity['algorithm']>;
+  max_age_seconds: number;
+}
+
+export class AgentAuthenticator {
+  readonly required: boolean;
+  private registry: AgentRegistry;
+  private maxAge: number;
+
+  constructor(options: AgentAuthOptions) {
+    this.registry = Array.isArray(options.agents) ? new MemoryAgentRegistry(options.agents) : options.agents;
+    this.required = options.required ?? false;
+    this.maxAge = options.maxSignatureAge ?? DEFAULT_MAX_AGE;
+  }
+
+  /**
+   * The agent that signed `req`, or null for an unsigned request when signatures
+   * are optional. Throws UnauthorizedError (`agent_auth_required` or
+   * `agent_signature_invalid`) otherwise.
+   */
+  async authenticate(req: AgentRequest, now: number = Date.now()): Promise<AgentIdentity | null> {
+    const input = req.headers['signature-input'];
+    const signatureHeader = req.headers['signature'];
+    if (input === undefined && signatureHeader === undefined) {
+      if (this.required) {
+        throw new UnauthorizedError('This site only accepts requests signed by a registered agent', 'agent_auth_required');
+      }
+      return null;
+    }
+    if (input === undefined || signatureHeader === undefined) {
+      throw invalid('Signature-Input and Signature must be sent together');
+    }
+
+    const parsed = parseSignatureInput(input);
+    if (!parsed) throw invalid('malformed Signature-Input');
+    const signature = parseSignature(signatureHeader, parsed.label);
+    if (!signature) throw invalid(`no signature labelled ${parsed.label}`);
+
+    const { components, params } = parsed;
+    if (!params.keyid) throw invalid('keyid is missing');
+    if (params.created === undefined) throw invalid('created is missing');
+    const seconds = Math.floor(now / 1000);
+    if (params.created > seconds + CLOCK_SKEW) throw invalid('created is in the future');
+    if (seconds - params.created > this.maxAge) throw invalid(`signature is older than ${this.maxAge} seconds`);
+    if (params.expires !== undefined && params.expires <= seconds) throw invalid('signature has expired');
+
+    const body = bodyBytes(req);
+    const values: Record<string, string | undefined> = {
+      '@method': req.method.toUpperCase(),
+      '@authority': req.headers['host']?.toLowerCase(),
+      '@path': req.path,
+      '@query': req.rawQuery || undefined,
+      'content-digest': req.headers['content-digest'],
+    };
+    const needed = ['@method', '@authority', '@path'];
+    if (values['@query']) needed.push('@query');
+    if (body) needed.push('content-digest');
+    const missing = needed.filter(c => !components.includes(c));
+    if (missing.length > 0) throw invalid(`the signature must cover ${missing.join(', ')}`);
+    if (body && !digestMatches(values['content-digest'], body)) {
+      throw invalid('Content-Digest does not match the body');
+    }
+
+    let base: string;
+    try {
+      base = signatureBase(components, values, parsed.serialized);
+    } catch (err) {
+      throw invalid((err as Error).message);
+    }
+
+    const agent = await this.registry.get(params.keyid);
+    if (!agent) throw invalid(`unknown key ID ${params.keyid}`);
+    const algorithm: AgentIdentity['algorithm'] = agent.publicKey ? 'ed25519' : 'hmac-sha256';
+    if (params.alg !== undefined && params.alg !== algorithm) {
+      throw invalid(`key ${params.keyid} signs with ${algorithm}, not ${params.alg}`);
+    }
+    if (!verifySignature(agent, Buffer.from(base), signature)) throw invalid('signature does not verify');
+
+    return {
+      agentId: agent.agentId,
+      ...(agent.name && { name: agent.name }),
+      ...(agent.operator && { operator: agent.operator }),
+      keyId: agent.keyId,
+      algorithm,
+    };
+  }
+}
+
+/** The `agent_auth` block of agents.json for these options. */
+export function publishAgentAuth(options: AgentAuthOptions): PublishedAgentAuth {
+  return {
+    required: options.required ?? false,
+    scheme: 'http-message-signatures',
+    algorithms: ['ed25519', 'hmac-sha256'],
+    max_age_seconds: options.maxSignatureAge ?? DEFAULT_MAX_AGE,
+  };
+}
+
+function invalid(reason: string): UnauthorizedError {
+  return new UnauthorizedError(`Invalid agent signature: ${reason}`, 'agent_signature_invalid');
+}
+
+/** The body the signature's digest must cover, or null when there is none. */
+function bodyBytes(req: AgentRequest): string | Buffer | null {
+  if (req.rawBody !== undefined) return req.rawBody.length > 0 ? req.rawBody : null;
+  return req.body && Object.keys(req.body).length > 0 ? JSON.stringify(req.body) : null;
+}
+
+function digestMatches(header: string | undefined, body: string | Buffer): boolean {
+  if (!header) return false;
+  const sent = header.split(',').map(d => d.trim()).find(d => d.startsWith('sha-256='));
+  if (!sent) return false;
+  return safeBytesEqual(Buffer.from(sent), Buffer.from(contentDigest(body)));
+}
+
+function verifySignature(agent: RegisteredAgent, base: Buffer, signature: Buffer): boolean {
+  if (agent.apiKey !== undefined) {
+    return safeBytesEqual(createHmac('sha256', agent.apiKey).update(base).digest(), signature);
+  }
+  try {
+    return verify(null, base, publicKeyOf(agent.publicKey as string), signature);
+  } catch {
+    return false;
+  }
+}
+
+function publicKeyOf(key: string): KeyObject {
+  if (key.includes('-----BEGIN')) return createPublicKey(key);
+  return createPublicKey({ key: Buffer.from(key, 'base64'), format: 'der', type: 'spki' });
+}
+
+function safeBytesEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -1,22 +1,36 @@
-import { AgentDoorConfig, CapabilityDefinition } from './types';
+import { AgentDoorConfig, CapabilityDefinition, ParamDefinition } from './types';
+import type { AuditPublicKey } from './audit';
+import { publishLimits } from './limits';
+import { publishAgentAuth } from './agent-auth';
+
+/** Version of spec/agents-json.md this SDK implements. */
+const PROTOCOL_VERSION = '0.1.0';
 
 function flattenCapabilities(config: AgentDoorConfig): CapabilityDefinition[] {
   return config.capabilities.flat();
 }
 
-function capabilityToEndpoint(cap: CapabilityDefinition, basePath: string): string {
-  const base = `${basePath}/agents/api`;
-  const parts = cap.name.split('.');
-  if (cap.name === 'detail') return `${base}/detail/:id`;
-  if (parts.length > 1) return `${base}/${parts.join('/')}`;
-  return `${base}/${cap.name}`;
+/** Redaction rules are the site's business, not part of the published contract. */
+function publishedParams(params: Record<string, ParamDefinition>): Record<string, Omit<ParamDefinition, 'redact'>> {
+  return Object.fromEntries(Object.entries(params).map(([name, { redact: _, ...def }]) => [name, def]));
+}
+
+/** The capability's route template under the API base: its `path`, else its name with dots as slashes. */
+export function capabilityPath(cap: CapabilityDefinition): string {
+  return cap.path ?? `/${cap.name.split('.').join('/')}`;
 }
 
-export function generateAgentsJson(config: AgentDoorConfig): object {
+/**
+ * Build agents.json. Pass the live audit key so `audit.public_key` matches the
+ * key that signs artifacts; without it the audit block carries no key.
+ */
+export function generateAgentsJson(config: AgentDoorConfig, auditKey?: AuditPublicKey): object {
   const basePath = config.basePath ?? '/.well-known';
   const capabilities = flattenCapabilities(config);
+  const limits = config.limits && publishLimits(config.limits);
 
   return {
+    protocol_version: PROTOCOL_VERSION,
     schema_version: '1.0',
     site: {
       name: config.site.name,
@@ -28,15 +42,27 @@ export function generateAgentsJson(config: AgentDoorConfig): object {
       name: cap.name,
       description: cap.description,
       method: cap.method,
-      endpoint: capabilityToEndpoint(cap, basePath),
-      ...(cap.params && { params: cap.params }),
-      ...(cap.requiresSession && { requires_session: true }),
+      endpoint: `${basePath}/agents/api${capabilityPath(cap)}`,
+      ...(cap.params && { params: publishedParams(cap.params) }),
+      ...(cap.outputSchema && { output_schema: cap.outputSchema }),
+      ...((cap.requiresSession || cap.requiresApproval) && { requires_session: true }),
       ...(cap.humanHandoff && { human_handoff: true }),
+      ...(cap.requiresApproval && { requires_approval: true }),
+      ...(cap.rateLimit && {
+        rate_limit: {
+          requests_per_minute: cap.rateLimit.requestsPerMinute,
+          ...(cap.rateLimit.burst && { burst: cap.rateLimit.burst }),
+        },
+      }),
     })),
     session: {
       create: `${basePath}/agents/api/session`,
       delete: `${basePath}/agents/api/session`,
+      refresh: `${basePath}/agents/api/session/refresh`,
       ...(config.sessionTtl && { ttl_seconds: config.sessionTtl }),
+      ...(config.sessionMaxLifetime && { max_lifetime_seconds: config.sessionMaxLifetime }),
+      ...(config.slidingExpiry && { sliding_expiry: true }),
+      ...(limits && { limits }),
     },
     ...(config.flows && config.flows.length > 0 && {
       flows: config.flows.map(f => ({
@@ -50,8 +76,17 @@ export function generateAgentsJson(config: AgentDoorConfig): object {
       audit: {
         enabled: true,
         endpoint: `${basePath}/agents/api/audit/:session_id`,
+        live_endpoint: `${basePath}/agents/api/audit/live`,
         description: 'Retrieve signed RER artifact for a completed session',
+        ...(auditKey && {
+          public_key: auditKey.publicKey,
+          algorithm: auditKey.algorithm,
+          key_id: auditKey.keyId,
+          keys_endpoint: `${basePath}/agents/api/audit/keys`,
+        }),
       },
     }),
+    ...(config.agentAuth && { agent_auth: publishAgentAuth(config.agentAuth) }),
+    ...(config.site.docs && { docs_url: config.site.docs }),
   };
 }
@@ -4,30 +4,48 @@ function flattenCapabilities(config: AgentDoorConfig): CapabilityDefinition[] {
   return config.capabilities.flat();
 }
 
+/**
+ * Render agents.txt as defined in spec/agents-txt.md. With
+ * `agentsTxtVersion: 'legacy'` the pre-0.1 `Site`, `Agents-JSON` and `Allow`
+ * keys are emitted as well, and `Rate-Limit`, `Session-TTL` and `Audit-Endpoint`
+ * keep their pre-0.1 values (`60/minute`, `3600s`, a `:session_id` template),
+ * for agents written against older SDK releases.
+ */
 export function generateAgentsTxt(config: AgentDoorConfig): string {
   const basePath = config.basePath ?? '/.well-known';
   const capabilities = flattenCapabilities(config);
+  const legacy = config.agentsTxtVersion === 'legacy';
+  const agentsJsonUrl = `${config.site.url}${basePath}/agents.json`;
+  const apiUrl = `${config.site.url}${basePath}/agents/api`;
 
   const lines: string[] = [
     `# agents.txt - ${config.site.name}`,
     `# ${config.site.url}`,
     '',
-    `Site: ${config.site.name}`,
+    `Name: ${config.site.name}`,
     `URL: ${config.site.url}`,
   ];
 
   if (config.site.description) lines.push(`Description: ${config.site.description}`);
   if (config.site.contact) lines.push(`Contact: ${config.site.contact}`);
+  if (legacy) lines.push(`Site: ${config.site.name}`);
 
-  lines.push('');
-  lines.push(`Agents-JSON: ${config.site.url}${basePath}/agents.json`);
   lines.push('');
   lines.push('# Capabilities');
-
-  for (const cap of capabilities) {
-    lines.push(`Allow: ${cap.name}`);
+  lines.push(`Capabilities: ${capabilities.map(cap => cap.name).join(', ')}`);
+  if (legacy) {
+    for (const cap of capabilities) {
+      lines.push(`Allow: ${cap.name}`);
+    }
   }
 
+  lines.push('');
+  lines.push(`Capabilities-URL: ${agentsJsonUrl}`);
+  if (legacy) lines.push(`Agents-JSON: ${agentsJsonUrl}`);
+  lines.push(`Agent-API: ${apiUrl}`);
+  lines.push(`Session-Endpoint: ${apiUrl}/session`);
+  if (config.site.docs) lines.push(`Docs: ${config.site.docs}`);
+
   if (config.flows && config.flows.length > 0) {
     lines.push('');
     lines.push('# Suggested Flows');
@@ -37,12 +55,18 @@ export function generateAgentsTxt(config: AgentDoorConfig): string {
     }
   }
 
-  if (config.rateLimit) lines.push('');
-  if (config.rateLimit) lines.push(`Rate-Limit: ${config.rateLimit}/minute`);
-  if (config.sessionTtl) lines.push(`Session-TTL: ${config.sessionTtl}s`);
+  const limited = capabilities.filter(cap => cap.rateLimit);
+  if (config.rateLimit || limited.length > 0 || config.sessionTtl) lines.push('');
+  if (config.rateLimit) lines.push(`Rate-Limit: ${config.rateLimit}${legacy ? '/minute' : ''}`);
+  for (const cap of limited) {
+    const { requestsPerMinute, burst } = cap.rateLimit!;
+    lines.push(`Capability-Rate-Limit: ${cap.name} ${requestsPerMinute}/minute${burst ? `, burst ${burst}` : ''}`);
+  }
+  if (config.sessionTtl) lines.push(`Session-TTL: ${config.sessionTtl}${legacy ? 's' : ''}`);
   if (config.audit) {
+    lines.push('');
     lines.push(`Audit: true`);
-    lines.push(`Audit-Endpoint: ${config.site.url}${basePath}/agents/api/audit/:session_id`);
+    lines.push(`Audit-Endpoint: ${apiUrl}/audit${legacy ? '/:session_id' : ''}`);
   }
 
   lines.push('');
@@ -0,0 +1,51 @@
+import { ApprovalRecord, ApprovalStatus, ApprovalStore } from './types';
+
+/** Default store. Pending requests are lost on restart and invisible to other instances. */
+export class MemoryApprovalStore implements ApprovalStore {
+  private approvals = new Map<string, ApprovalRecord>();
+
+  async get(id: string): Promise<ApprovalRecord | null> {
+    const approval = this.approvals.get(id);
+    return approval ? cloneApproval(approval) : null;
+  }
+
+  async set(approval: ApprovalRecord): Promise<void> {
+    this.approvals.set(approval.id, cloneApproval(approval));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.approvals.delete(id);
+  }
+
+  async markUsed(id: string): Promise<boolean> {
+    const approval = this.approvals.get(id);
+    if (approval?.status !== 'approved') return false;
+    approval.status = 'used';
+    return true;
+  }
+
+  async transition(id: string, from: ApprovalStatus, changes: Partial<ApprovalRecord>): Promise<boolean> {
+    const approval = this.approvals.get(id);
+    if (approval?.status !== from) return false;
+    this.approvals.set(id, cloneApproval({ ...approval, ...changes, id }));
+    return true;
+  }
+
+  async scanExpired(now: Date): Promise<string[]> {
+    const expired: string[] = [];
+    for (const [id, approval] of this.approvals) {
+      if (now >= approval.expiresAt) expired.push(id);
+    }
+    return expired;
+  }
+}
+
+function cloneApproval(approval: ApprovalRecord): ApprovalRecord {
+  // Rebuild the Dates explicitly, as cloneSession() does.
+  return {
+    ...structuredClone(approval),
+    createdAt: new Date(approval.createdAt),
+    expiresAt: new Date(approval.expiresAt),
+    ...(approval.decidedAt && { decidedAt: new Date(approval.decidedAt) }),
+  };
+}
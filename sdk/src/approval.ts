@@ -0,0 +1,183 @@
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { canonicalJson } from '@agents-protocol/client';
+import { AgentError, ConflictError, NotFoundError } from './errors';
+import { MemoryApprovalStore } from './approval-store';
+import { safeEqual } from './audit-access';
+import { systemClock } from './clock';
+import { ApprovalOptions, ApprovalRecord, ApprovalStore, Clock } from './types';
+
+const DEFAULT_APPROVAL_TTL_SECONDS = 900;
+/** Requests stay readable this long after they expire, so a polling agent still sees the outcome. */
+const RETAIN_AFTER_EXPIRY_MS = 3_600_000;
+/** Expired requests are swept when new ones arrive, at most this often. */
+const SWEEP_INTERVAL_MS = 60_000;
+
+export type ApprovalDecision = 'approve' | 'deny';
+
+/**
+ * Holds calls to `requiresApproval` capabilities until a human decides
+ * (spec/interaction-api.md, "Human Approval").
+ *
+ * A request moves from `pending` to `approved` or `denied` once, and an approval
+ * is spent by the one call that repeats the held input. Requests that outlive
+ * their deadline read as `expired`.
+ */
+export class ApprovalManager {
+  private store: ApprovalStore;
+  private options: ApprovalOptions;
+  private ttl: number;
+  private clock: Clock;
+  private lastSweep = 0;
+
+  constructor(options: ApprovalOptions = {}, clock: Clock = systemClock) {
+    this.options = options;
+    this.clock = clock;
+    this.store = options.store ?? new MemoryApprovalStore();
+    this.ttl = options.ttl ?? DEFAULT_APPROVAL_TTL_SECONDS;
+  }
+
+  /** Hold a call. The request expires with its session at the latest. */
+  async request(
+    sessionId: string,
+    capability: string,
+    input: Record<string, unknown>,
+    sessionExpiresAt: Date,
+  ): Promise<ApprovalRecord> {
+    await this.sweep();
+    const now = new Date(this.clock.now());
+    const approval: ApprovalRecord = {
+      id: `apr_${uuidv4().replace(/-/g, '')}`,
+      capability,
+      sessionId,
+      input,
+      status: 'pending',
+      decisionToken: randomBytes(32).toString('base64url'),
+      createdAt: now,
+      expiresAt: new Date(Math.min(now.getTime() + this.ttl * 1000, sessionExpiresAt.getTime())),
+    };
+    await this.store.set(approval);
+    await this.options.onRequest?.(approval);
+    return approval;
+  }
+
+  async get(id: string): Promise<ApprovalRecord | null> {
+    const approval = await this.store.get(id);
+    if (approval && (approval.status === 'pending' || approval.status === 'approved')
+      && this.clock.now() >= approval.expiresAt.getTime()) {
+      approval.status = 'expired';
+    }
+    return approval;
+  }
+
+  /** Who `credential` lets decide `approval`: the operator, the holder of its decision token, or nobody. */
+  decider(approval: ApprovalRecord, credential: string | null): 'operator' | 'user' | null {
+    if (!credential) return null;
+    if (this.options.operatorToken && safeEqual(credential, this.options.operatorToken)) return 'operator';
+    if (safeEqual(credential, approval.decisionToken)) return 'user';
+    return null;
+  }
+
+  /**
+   * Settle a pending request. The store decides which of several concurrent
+   * decisions wins; only the winner is passed to `record` (the audit chain). A
+   * decision that cannot be recorded is taken back, and the request is pending again.
+   */
+  async decide(
+    id: string,
+    decision: ApprovalDecision,
+    decidedBy: 'operator' | 'user',
+    reason?: string,
+    record?: (approval: ApprovalRecord) => Promise<void>,
+  ): Promise<ApprovalRecord> {
+    const approval = await this.get(id);
+    if (!approval) throw new NotFoundError('Approval request not found');
+    if (approval.status !== 'pending') {
+      throw new ConflictError(`Approval request is already ${approval.status}`, { status: approval.status });
+    }
+    const settled: Partial<ApprovalRecord> = {
+      status: decision === 'approve' ? 'approved' : 'denied',
+      decidedAt: new Date(this.clock.now()),
+      decidedBy,
+      ...(reason && { reason }),
+    };
+    if (!(await this.store.transition(id, 'pending', settled))) {
+      const current = await this.get(id);
+      const status = current?.status ?? 'expired';
+      throw new ConflictError(`Approval request is already ${status}`, { status });
+    }
+    const decided = { ...approval, ...settled };
+    try {
+      await record?.(decided);
+    } catch (err) {
+      await this.store.transition(id, settled.status!, {
+        status: 'pending',
+        decidedAt: undefined,
+        decidedBy: undefined,
+        reason: undefined,
+      });
+      throw err;
+    }
+    return decided;
+  }
+
+  /**
+   * Spend an approval on the resumed call. Throws unless it was approved for
+   * exactly this session, capability and input, and has not been spent.
+   */
+  async consume(id: string, sessionId: string, capability: string, input: Record<string, unknown>): Promise<void> {
+    const approval = await this.get(id);
+    // Another session's request is reported as missing, not as someone else's.
+    if (!approval || approval.sessionId !== sessionId) throw new NotFoundError('Approval request not found');
+    if (approval.capability !== capability || canonicalJson(approval.input) !== canonicalJson(input)) {
+      throw new AgentError('approval_mismatch', 'The call does not match the request that was approved', { status: 409 });
+    }
+    switch (approval.status) {
+      case 'pending':
+        throw new AgentError('approval_pending', 'Approval request is still waiting for a decision', {
+          status: 409,
+          retryable: true,
+        });
+      case 'denied':
+        throw new AgentError('approval_denied', 'Approval request was denied', {
+          status: 403,
+          ...(approval.reason && { details: { reason: approval.reason } }),
+        });
+      case 'expired':
+        throw new AgentError('approval_expired', 'Approval request expired', { status: 403 });
+      case 'used':
+        throw new AgentError('approval_used', 'Approval was already used', { status: 409 });
+    }
+    // Spent before the handler runs: a failed call needs a new approval, never a second try.
+    // The store decides which of several concurrent calls gets it.
+    if (!(await this.store.markUsed(id))) {
+      throw new AgentError('approval_used', 'Approval was already used', { status: 409 });
+    }
+  }
+
+  /** What the approval API shows: everything but the decision token. */
+  describe(approval: ApprovalRecord, statusUrl: string, siteUrl: string): Record<string, unknown> {
+    return {
+      approval_id: approval.id,
+      capability: approval.capability,
+      status: approval.status,
+      input: approval.input,
+      approval_url: this.options.approvalUrl?.(approval) ?? new URL(statusUrl, siteUrl).toString(),
+      status_url: statusUrl,
+      created_at: approval.createdAt.toISOString(),
+      expires_at: approval.expiresAt.toISOString(),
+      ...(approval.decidedAt && { decided_at: approval.decidedAt.toISOString() }),
+      ...(approval.decidedBy && { decided_by: approval.decidedBy }),
+      ...(approval.reason && { reason: approval.reason }),
+    };
+  }
+
+  private async sweep(): Promise<void> {
+    const now = this.clock.now();
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = now;
+    for (const id of await this.store.scanExpired(new Date(now - RETAIN_AFTER_EXPIRY_MS))) {
+      await this.store.delete(id);
+    }
+  }
+}
@@ -0,0 +1,121 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ArtifactStore } from './types';
+import { writeAtomic } from './atomic-write';
+
+/** Keeps artifacts in memory until their retention ends. A restart loses them. */
+export class MemoryArtifactStore implements ArtifactStore {
+  // Sealed artifacts are never mutated, so entries are stored without copying.
+  private artifacts = new Map<string, { artifact: object; expiresAt: Date }>();
+
+  async get(sessionId: string): Promise<object | null> {
+    return this.artifacts.get(sessionId)?.artifact ?? null;
+  }
+
+  async set(sessionId: string, artifact: object, expiresAt: Date): Promise<void> {
+    this.artifacts.set(sessionId, { artifact, expiresAt: new Date(expiresAt) });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.artifacts.delete(sessionId);
+  }
+
+  async scanExpired(now: Date): Promise<string[]> {
+    const expired: string[] = [];
+    for (const [sessionId, entry] of this.artifacts) {
+      if (now >= entry.expiresAt) expired.push(sessionId);
+    }
+    return expired;
+  }
+}
+
+interface IndexEntry {
+  sessionId: string;
+  /** ISO 8601 */
+  expiresAt: string;
+}
+
+/**
+ * Persistent store that keeps one JSON file per artifact in `directory`, plus
+ * `index.json` recording each artifact's retention deadline so expiry sweeps do
+ * not have to read every artifact. File names are SHA-256 hashes of the session
+ * ID, as in FileSessionStore.
+ *
+ * The index is rewritten whole on every change; writes from one instance are
+ * serialized, but several instances must not share a directory.
+ */
+export class FileArtifactStore implements ArtifactStore {
+  private directory: string;
+  private ready: Promise<void>;
+  /** Tail of the index write chain; each update waits for the previous one. */
+  private indexWrite: Promise<void> = Promise.resolve();
+
+  constructor(directory: string) {
+    this.directory = directory;
+    this.ready = fs.mkdir(directory, { recursive: true }).then(() => undefined);
+  }
+
+  async get(sessionId: string): Promise<object | null> {
+    await this.ready;
+    let raw: string;
+    try {
+      raw = await fs.readFile(path.join(this.directory, fileNameFor(sessionId)), 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+    return JSON.parse(raw) as object;
+  }
+
+  async set(sessionId: string, artifact: object, expiresAt: Date): Promise<void> {
+    await this.ready;
+    const name = fileNameFor(sessionId);
+    await writeAtomic(path.join(this.directory, name), JSON.stringify(artifact));
+    await this.updateIndex(index => {
+      index[name] = { sessionId, expiresAt: expiresAt.toISOString() };
+    });
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    await this.ready;
+    const name = fileNameFor(sessionId);
+    await fs.rm(path.join(this.directory, name), { force: true });
+    await this.updateIndex(index => {
+      delete index[name];
+    });
+  }
+
+  async scanExpired(now: Date): Promise<string[]> {
+    await this.ready;
+    await this.indexWrite;
+    const index = await this.readIndex();
+    return Object.values(index)
+      .filter(entry => now.getTime() >= Date.parse(entry.expiresAt))
+      .map(entry => entry.sessionId);
+  }
+
+  private updateIndex(change: (index: Record<string, IndexEntry>) => void): Promise<void> {
+    const next = this.indexWrite.then(async () => {
+      const index = await this.readIndex();
+      change(index);
+      await writeAtomic(path.join(this.directory, 'index.json'), JSON.stringify(index));
+    });
+    // A failed write must not wedge the chain for later updates.
+    this.indexWrite = next.catch(() => {});
+    return next;
+  }
+
+  private async readIndex(): Promise<Record<string, IndexEntry>> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, 'index.json'), 'utf8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return {};
+      throw err;
+    }
+  }
+}
+
+function fileNameFor(sessionId: string): string {
+  return `${createHash('sha256').update(sessionId).digest('hex')}.json`;
+}
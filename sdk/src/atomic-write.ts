@@ -0,0 +1,24 @@
+import { randomUUID } from 'crypto';
+import { promises as fs, renameSync, writeFileSync } from 'fs';
+
+/**
+ * Replace `file` with `data` by writing a temp file beside it and renaming it over,
+ * so a crash mid-write leaves the old contents rather than a truncated file. The
+ * temp name is unique per write, so concurrent writers never share one.
+ */
+export async function writeAtomic(file: string, data: string): Promise<void> {
+  const tmp = tempFileFor(file);
+  await fs.writeFile(tmp, data, 'utf8');
+  await fs.rename(tmp, file);
+}
+
+/** writeAtomic for callers that cannot await, such as constructors. */
+export function writeAtomicSync(file: string, data: string): void {
+  const tmp = tempFileFor(file);
+  writeFileSync(tmp, data, 'utf8');
+  renameSync(tmp, file);
+}
+
+function tempFileFor(file: string): string {
+  return `${file}.${process.pid}.${randomUUID()}.tmp`;
+}
@@ -0,0 +1,107 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { systemClock } from './clock';
+import { AuditAccessPolicy, AuditOptions, Clock } from './types';
+
+/** Default lifetime of a signed download link, in seconds. */
+const DEFAULT_LINK_TTL_SECONDS = 3600;
+
+/** Who was let through, for callers that treat holders and operators differently. */
+export type AuditAccessGrant = AuditAccessPolicy | 'link';
+
+/** What a request to the artifact endpoint presented. */
+export interface AuditAccessRequest {
+  /** Bearer credential, if any */
+  credential?: string | null;
+  /** `expires` and `signature` query parameters of a download link */
+  expires?: string;
+  signature?: string;
+  /** Session ID the credential belongs to, when it is a live session token */
+  liveSessionId?: string | null;
+}
+
+/**
+ * Decides who may download a sealed artifact (spec/audit.md, "Access Control").
+ *
+ * Proof tokens and download links are HMACs under one secret, so neither needs
+ * storage: a proof token is bound to a session ID, a link to a session ID and
+ * its expiry. With the default per-process secret both lapse at restart; set
+ * `accessSecret` to keep them valid, and share it between instances.
+ */
+export class AuditAccessControl {
+  private policies: Set<AuditAccessPolicy>;
+  private operatorToken: string | undefined;
+  private secret: Buffer;
+  private linkTtl: number;
+  private clock: Clock;
+
+  constructor(options: AuditOptions = {}, clock: Clock = systemClock) {
+    const access = options.access ?? 'public';
+    this.policies = new Set(Array.isArray(access) ? access : [access]);
+    if (this.policies.has('operator') && !options.operatorToken) {
+      throw new Error('audit.access includes "operator" but no audit.operatorToken is configured');
+    }
+    this.operatorToken = options.operatorToken;
+    this.secret = options.accessSecret ? Buffer.from(options.accessSecret) : randomBytes(32);
+    this.linkTtl = options.downloadLinkTtl ?? DEFAULT_LINK_TTL_SECONDS;
+    this.clock = clock;
+  }
+
+  /** Whether the session holder is handed a proof token when the session ends. */
+  get issuesProofTokens(): boolean {
+    return this.policies.has('holder');
+  }
+
+  /** Proof that the caller held the session, handed out when it ends. */
+  issueProof(sessionId: string): string {
+    return this.mac(`proof:${sessionId}`);
+  }
+
+  /**
+   * Query string (without `?`) that lets anyone download the artifact until it
+   * expires. Lifetimes beyond `downloadLinkTtl` are cut down to it.
+   */
+  signLink(sessionId: string, ttlSeconds: number = this.linkTtl): { query: string; expiresAt: Date } {
+    const ttl = Math.max(1, Math.floor(Math.min(ttlSeconds, this.linkTtl)));
+    const expires = Math.floor(this.clock.now() / 1000) + ttl;
+    const signature = this.mac(`link:${sessionId}:${expires}`);
+    return { query: `expires=${expires}&signature=${signature}`, expiresAt: new Date(expires * 1000) };
+  }
+
+  /**
+   * The grant a request carries for `sessionId`, or null. A download link is
+   * judged on its own: one that is present but invalid or expired is refused
+   * even when the policy would admit the caller otherwise.
+   */
+  authorize(sessionId: string, req: AuditAccessRequest): AuditAccessGrant | null {
+    if (req.expires !== undefined || req.signature !== undefined) {
+      return this.validLink(sessionId, req.expires, req.signature) ? 'link' : null;
+    }
+    if (this.policies.has('public')) return 'public';
+
+    const { credential } = req;
+    if (!credential) return null;
+    if (this.policies.has('operator') && safeEqual(credential, this.operatorToken!)) return 'operator';
+    if (this.policies.has('holder')) {
+      if (req.liveSessionId === sessionId) return 'holder';
+      if (safeEqual(credential, this.issueProof(sessionId))) return 'holder';
+    }
+    return null;
+  }
+
+  private validLink(sessionId: string, expires?: string, signature?: string): boolean {
+    if (!expires || !signature || !/^\d+$/.test(expires)) return false;
+    if (this.clock.now() >= Number(expires) * 1000) return false;
+    return safeEqual(signature, this.mac(`link:${sessionId}:${expires}`));
+  }
+
+  private mac(message: string): string {
+    return createHmac('sha256', this.secret).update(message).digest('base64url');
+  }
+}
+
+/** Constant-time string comparison for secrets. */
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
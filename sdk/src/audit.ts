@@ -11,9 +11,51 @@
  *
  * ## Key format guide
  * Ed25519KeyPair.publicKey is a 44-byte DER SPKI Buffer (12-byte ASN.1 prefix + 32 raw bytes).
+ * Ed25519KeyPair.privateKey is a DER PKCS#8 Buffer; keys loaded from PEM are converted to it.
  * @rer/evidence safeVerify() expects a raw 32-byte Uint8Array.
  *   getPublicKeyRaw() → 32-byte Uint8Array  — for @rer/evidence verification
  *   getPublicKeyDER() → 44-byte Buffer       — for @rer/runtime internals
+ *   getPublicKeyInfo() → base64 DER + key ID  — for agents.json `audit.public_key`
+ *   getPublicKeyJwk() → OKP JWK              — the active key
+ *   getPublishedKeys() → OKP JWKs            — active and retired keys, for the audit key endpoint
+ *
+ * ## Key rotation
+ * Each key has a validity window in the key history. A key signs every session
+ * that starts inside its window, even one that ends after the key is retired, so
+ * retired keys stay published for as long as their artifacts may be verified.
+ *
+ * ## Human approval
+ * Capabilities that require approval are listed in the envelope's
+ * `human_approval.required_for_tools`. The SDK holds those calls itself and
+ * records each request and decision as a call of the built-in `human_approval`
+ * tool, so the chain shows who approved what before the held call ran.
+ *
+ * ## Session limits
+ * A session's budgets go into its envelope: `rate_limits.max_tool_calls`,
+ * `spend_caps.max_usd`, and per-capability call counts under
+ * `context.max_calls_per_tool`, which the envelope has no field for. Call counts
+ * are charged before a call reaches the runtime. Spend is the caller's to measure:
+ * checkSpend() denies an amount that, on top of what the session has committed
+ * with commitSpend(), would pass the cap. Either way an overrun is a
+ * PolicyDeniedError. Approval records do not count as calls.
+ *
+ * ## Storing artifacts
+ * A sealed artifact waits in memory until the artifact store has taken it. A
+ * failed write is logged and retried by the next sweep(), and getArtifact()
+ * serves the artifact meanwhile, so a store outage delays records but loses none
+ * unless the process exits first: then destroy() rejects.
+ *
+ * ## Expiry
+ * The envelope's `expires_at` is the session's hard deadline: the furthest a
+ * refresh or sliding expiry can take it. The session itself may expire sooner,
+ * and extendSession() moves the point at which it is sealed: by sweep(), which
+ * runs on the clock's timer, or when the session is next touched.
+ *
+ * ## Agent principal
+ * A session created by a registered agent (see agent-auth.ts) names that agent as
+ * the principal, `{ type: 'agent', id: agentId }`. The session token hash then moves
+ * to `context.session_token_sha256`, and the agent's key ID, name and operator to
+ * `context.agent`.
  *
  * ## Concurrency constraint
  * callCapability() uses a per-(session, capability) queue to hand off handlers to
@@ -24,9 +66,11 @@
  * session, or the same capability on different sessions, are fully independent.
  */
 
+import { createHash, createPrivateKey, createPublicKey, KeyObject } from 'crypto';
+import { readFileSync } from 'fs';
 import { v4 as uuidv4 } from 'uuid';
 import { Runtime } from '@rer/runtime';
-import { generateEd25519KeyPair, ed25519Sign, canonicalize } from '@rer/core';
+import { generateEd25519KeyPair, ed25519Sign, canonicalize, PolicyDeniedError } from '@rer/core';
 import type {
   Ed25519KeyPair,
   RuntimeEnvelope,
@@ -35,62 +79,211 @@ import type {
   ToolRequest,
   ToolResponse,
 } from '@rer/core';
+import type {
+  AgentIdentity,
+  ArtifactStore,
+  Clock,
+  AuditKeyMaterial,
+  AuditOptions,
+  AuditRedactionContext,
+  ParamDefinition,
+  SessionLimits,
+} from './types';
+import { MemoryArtifactStore } from './artifact-store';
+import { writeAtomicSync } from './atomic-write';
+import { systemClock } from './clock';
+import { redactParams } from './redaction';
+
+/** Tool under which approval requests and decisions are recorded. */
+export const HUMAN_APPROVAL_TOOL = 'human_approval';
 
 /** Byte offset where the raw 32-byte key begins inside a DER SPKI Ed25519 public key. */
 const SPKI_PREFIX_BYTES = 12;
 
+/** spec/audit.md: sites SHOULD retain artifacts for at least 30 days. */
+const DEFAULT_ARTIFACT_RETENTION_SECONDS = 30 * 24 * 3600;
+
+/** Ed25519 public key as a JWK (RFC 8037), served from the audit key endpoint. */
+export interface AuditJwk {
+  kty: 'OKP';
+  crv: 'Ed25519';
+  /** Raw 32-byte key, base64url */
+  x: string;
+  /** RFC 7638 thumbprint of the key */
+  kid: string;
+  alg: 'EdDSA';
+  use: 'sig';
+  /** Start of the key's validity window, ISO 8601 */
+  not_before?: string;
+  /** End of the validity window; absent for the active key */
+  not_after?: string;
+}
+
+/** One entry of the key history, as persisted in `keyHistoryFile`. */
+export interface AuditKeyRecord {
+  keyId: string;
+  /** Base64 DER SPKI */
+  publicKey: string;
+  notBefore: string;
+  notAfter?: string;
+}
+
+/** The signing key as published in agents.json. */
+export interface AuditPublicKey {
+  algorithm: 'Ed25519';
+  /** Base64 DER SPKI, the same encoding artifacts carry */
+  publicKey: string;
+  /** RFC 7638 thumbprint; matches `kid` at the key endpoint */
+  keyId: string;
+}
+
+/**
+ * The event chain of a session that is still recording. Unsigned: the runtime
+ * signs only when the session ends, so this is a checkpoint, not evidence.
+ */
+export interface AuditLiveLog {
+  run_id: string;
+  events: RuntimeRunArtifact['events'];
+  event_count: number;
+  /** `event_hash` of the latest event; the next event will name it as its parent */
+  head_hash: string | null;
+  /** When the session is sealed if it does not end earlier, ISO 8601 */
+  expires_at: string;
+}
+
+/** Input of a recorded `human_approval` call */
+export interface AuditApprovalEvent {
+  approval_id: string;
+  capability: string;
+  decision: 'requested' | 'approved' | 'denied';
+  decided_by?: 'operator' | 'user';
+  reason?: string;
+}
+
+/** How a session's envelope departs from the defaults. */
+export interface AuditSessionOptions {
+  /** Capabilities whose calls wait for a human decision */
+  approvalTools?: string[];
+  /** Capabilities the agent gave up when it created the session */
+  deniedTools?: string[];
+  /** The session's budgets (see "Session limits" above) */
+  limits?: SessionLimits;
+  /** When the session expires. Default: the manager's TTL from now, which also caps it. */
+  expiresAt?: Date;
+  /** The latest the session can be extended to, and the envelope's `expires_at`. Default: `expiresAt`. */
+  maxExpiresAt?: Date;
+  /** The verified agent that created the session (see "Agent principal" above) */
+  agent?: AgentIdentity;
+}
+
+/** Calls a session has made against its budgets */
+export interface SessionUsage {
+  limits: SessionLimits;
+  toolCalls: number;
+  callsByTool: Record<string, number>;
+  /** USD the session has committed to, e.g. by checking out */
+  spentUsd: number;
+}
+
 interface SessionEntry {
   runtime: Runtime;
   expiresAt: number; // ms since epoch
-}
-
-interface ArtifactEntry {
-  artifact: RuntimeRunArtifact;
-  expiresAt: number; // ms since epoch — evicted after one additional TTL window
+  /** The envelope's `expires_at`, which extensions never pass */
+  deadline: number;
+  limits: SessionLimits;
+  toolCalls: number;
+  callsByTool: Map<string, number>;
+  spentUsd: number;
 }
 
 export class AuditManager {
   private keyPair: Ed25519KeyPair;
+  private keyHistory: AuditKeyRecord[];
+  private options: AuditOptions;
   private sessions = new Map<string, SessionEntry>();
-  private artifacts = new Map<string, ArtifactEntry>();
+  private artifacts: ArtifactStore;
   private pendingHandlers = new Map<string, Array<() => Promise<unknown>>>();
+  /** Sealed artifacts the store has not taken yet, with when their retention ends */
+  private unstored = new Map<string, { artifact: RuntimeRunArtifact; expiresAt: Date }>();
   private ttlSeconds: number;
-  private cleanupTimer: ReturnType<typeof setInterval>;
+  private clock: Clock;
+  private stopSweeps: () => void;
 
-  constructor(ttlSeconds: number = 3600) {
-    this.keyPair = generateEd25519KeyPair();
+  constructor(ttlSeconds: number = 3600, options: AuditOptions = {}, clock: Clock = systemClock) {
     this.ttlSeconds = ttlSeconds;
+    this.options = options;
+    this.clock = clock;
+    this.artifacts = options.artifactStore ?? new MemoryArtifactStore();
+    this.keyHistory = options.keyHistoryFile ? readKeyHistory(options.keyHistoryFile) : [];
+    this.keyPair = this.nextKeyPair();
+    this.activate(this.keyPair, new Date(clock.now()));
 
-    // Evict sessions whose TTL expired without an explicit endSession() call.
-    this.cleanupTimer = setInterval(() => this.cleanupExpired(), 60_000);
-    // Let the Node process exit without waiting for this timer.
-    if (this.cleanupTimer.unref) this.cleanupTimer.unref();
+    // Evict sessions whose TTL expired without an explicit endSession() call,
+    // and rotate the signing key when it is due.
+    this.stopSweeps = clock.every(60_000, () => {
+      // Artifacts the store refused stay unstored, and the next sweep retries them.
+      this.sweep().catch(() => {});
+    });
   }
 
-  startSession(sessionToken: string, siteUrl: string, capabilityNames: string[]): void {
-    // Gracefully seal any existing session for this token before overwriting.
-    if (this.sessions.has(sessionToken)) {
-      this.endSession(sessionToken);
-    }
+  /**
+   * Begin recording a session. Records are keyed by the public `sessionId`; the
+   * envelope names the principal by the hex SHA-256 of `sessionToken`, so an
+   * artifact identifies the session without handing out its bearer credential.
+   * `capabilityNames` is the envelope's allow list: the session's scope.
+   */
+  startSession(
+    sessionId: string,
+    sessionToken: string,
+    siteUrl: string,
+    capabilityNames: string[],
+    options: AuditSessionOptions = {},
+  ): void {
+    const { approvalTools = [], deniedTools = [], limits = {}, agent } = options;
+    this.rotateIfDue();
+    // Gracefully seal any existing session for this ID before overwriting.
+    // The new session must start now, so the old artifact is stored in the background.
+    const previous = this.seal(sessionId, 'Session ended');
+    if (previous) void this.store(sessionId, previous);
 
     const runId = uuidv4();
-    const now = new Date();
-    const expiresAt = new Date(now.getTime() + this.ttlSeconds * 1000);
+    const now = new Date(this.clock.now());
+    const ttlEnd = now.getTime() + this.ttlSeconds * 1000;
+    const expiresAt = new Date(Math.min(options.expiresAt?.getTime() ?? ttlEnd, ttlEnd));
+    const deadline = new Date(Math.max(options.maxExpiresAt?.getTime() ?? 0, expiresAt.getTime()));
 
     const envelope: RuntimeEnvelope = {
       envelope_version: 'rer-envelope/0.1',
       run_id: runId,
       created_at: now.toISOString(),
-      expires_at: expiresAt.toISOString(),
-      principal: { type: 'agent_session', id: sessionToken },
+      expires_at: deadline.toISOString(),
+      principal: agent
+        ? { type: 'agent', id: agent.agentId }
+        : { type: 'agent_session', id: hashSessionToken(sessionToken) },
       permissions: {
         models: { allow: [], deny: [] },
-        tools: { allow: capabilityNames, deny: [] },
-        spend_caps: { max_usd: null },
-        rate_limits: { max_model_calls: null, max_tool_calls: null },
-        human_approval: { required_for_tools: [] },
+        tools: {
+          allow: approvalTools.length > 0 ? [...capabilityNames, HUMAN_APPROVAL_TOOL] : capabilityNames,
+          deny: deniedTools,
+        },
+        spend_caps: { max_usd: limits.maxSpendUsd ?? null },
+        rate_limits: { max_model_calls: null, max_tool_calls: limits.maxToolCalls ?? null },
+        human_approval: { required_for_tools: approvalTools },
+      },
+      context: {
+        site: siteUrl,
+        session_id: sessionId,
+        ...(agent && {
+          session_token_sha256: hashSessionToken(sessionToken),
+          agent: {
+            key_id: agent.keyId,
+            algorithm: agent.algorithm,
+            ...(agent.name && { name: agent.name }),
+            ...(agent.operator && { operator: agent.operator }),
+          },
+        }),
+        ...(limits.maxCallsPerCapability && { max_calls_per_tool: limits.maxCallsPerCapability }),
       },
-      context: { site: siteUrl },
       envelope_signature: '',
     };
     const { envelope_signature: _, ...signable } = envelope;
@@ -102,7 +295,7 @@ export class AuditManager {
     const toolExecutors: Record<string, ToolExecutor> = {};
     for (const name of capabilityNames) {
       toolExecutors[name] = async (_req: ToolRequest): Promise<ToolResponse> => {
-        const key = `${sessionToken}:${name}`;
+        const key = `${sessionId}:${name}`;
         const queue = this.pendingHandlers.get(key);
         const handler = queue?.shift();
         let result: unknown = {};
@@ -112,6 +305,12 @@ export class AuditManager {
         return { tool: name, output: { data: result } };
       };
     }
+    if (approvalTools.length > 0) {
+      // Nothing to run: the ToolCalled event carrying the decision is the record.
+      toolExecutors[HUMAN_APPROVAL_TOOL] = async (): Promise<ToolResponse> => (
+        { tool: HUMAN_APPROVAL_TOOL, output: { data: { recorded: true } } }
+      );
+    }
 
     const runtime = new Runtime({
       envelope,
@@ -120,7 +319,15 @@ export class AuditManager {
     });
     runtime.start();
 
-    this.sessions.set(sessionToken, { runtime, expiresAt: expiresAt.getTime() });
+    this.sessions.set(sessionId, {
+      runtime,
+      expiresAt: expiresAt.getTime(),
+      deadline: deadline.getTime(),
+      limits,
+      toolCalls: 0,
+      callsByTool: new Map(),
+      spentUsd: 0,
+    });
   }
 
   /**
@@ -130,34 +337,46 @@ export class AuditManager {
    * If the runtime denies the call (PolicyDeniedError), the error propagates
    * immediately — the handler is never invoked and the queued entry is removed.
    * There is no fallback path when an active session exists.
+   *
+   * The chain records the input after the `redact` rules of `params` and the
+   * `redact` hook, and the output after the hook; the caller gets the real output.
+   * A throwing hook fails the call rather than recording unredacted data.
    */
   async callCapability(
-    sessionToken: string,
+    sessionId: string,
     capabilityName: string,
     requestData: Record<string, unknown>,
     handler: () => Promise<unknown>,
+    params?: Record<string, ParamDefinition>,
   ): Promise<unknown> {
-    const entry = this.sessions.get(sessionToken);
+    const entry = this.liveEntry(sessionId);
     if (!entry) {
       // No active session — run handler directly (no audit trail for this call).
       return handler();
     }
+    this.chargeCall(entry, capabilityName);
 
     // Queue the handler so the registered executor can pick it up.
-    const key = `${sessionToken}:${capabilityName}`;
+    const key = `${sessionId}:${capabilityName}`;
     let queue = this.pendingHandlers.get(key);
     if (!queue) {
       queue = [];
       this.pendingHandlers.set(key, queue);
     }
-    queue.push(handler);
+    let output: { value: unknown } | undefined;
+    queue.push(async () => {
+      const value = await handler();
+      output = { value };
+      return this.redact(value, { capability: capabilityName, phase: 'output' });
+    });
 
     try {
+      const input = this.redact(redactParams(params, requestData), { capability: capabilityName, phase: 'input' });
       const result = await entry.runtime.callTool({
         tool: capabilityName,
-        input: requestData,
+        input: input as Record<string, unknown>,
       });
-      return result.output.data;
+      return output ? output.value : result.output.data;
     } catch (err) {
       // Remove the stale queued handler — the executor will not run it.
       const queue = this.pendingHandlers.get(key);
@@ -168,37 +387,99 @@ export class AuditManager {
     }
   }
 
-  endSession(sessionToken: string): RuntimeRunArtifact | null {
-    const entry = this.sessions.get(sessionToken);
-    if (!entry) return null; // no session — not an error, caller checks
+  /**
+   * Append an approval request or decision to the session's chain. Returns false
+   * when the session is no longer recording, so the caller can refuse a decision
+   * that would go unrecorded.
+   */
+  async recordApproval(sessionId: string, event: AuditApprovalEvent): Promise<boolean> {
+    const entry = this.liveEntry(sessionId);
+    if (!entry) return false;
+    await entry.runtime.callTool({ tool: HUMAN_APPROVAL_TOOL, input: { ...event } });
+    return true;
+  }
 
-    try {
-      entry.runtime.end('completed', 'Session ended');
-    } catch {
-      // Runtime may already be ended or expired
+  /**
+   * Deny a call that would take the session past its `spend_caps.max_usd`:
+   * `amountUsd` on top of what it has already committed. Call it from inside the
+   * handler, so the chain shows the attempt and the caller discards whatever the
+   * handler changed.
+   */
+  checkSpend(sessionId: string, amountUsd: number): void {
+    const entry = this.liveEntry(sessionId);
+    const max = entry?.limits.maxSpendUsd;
+    // Compared in cents: a subtotal of float prices may be off by a rounding error.
+    if (max !== undefined && Math.round((entry!.spentUsd + amountUsd) * 100) > Math.round(max * 100)) {
+      const spent = entry!.spentUsd > 0 ? ` on top of ${entry!.spentUsd.toFixed(2)} USD already committed` : '';
+      throw new PolicyDeniedError(`Spending ${amountUsd.toFixed(2)} USD${spent} would exceed the session's cap of ${max} USD`);
     }
+  }
 
-    let artifact: RuntimeRunArtifact;
-    try {
-      artifact = entry.runtime.buildArtifact();
-    } catch (err) {
-      // Artifact construction failure must be visible — a silent failure means
-      // audit records are lost with no indication to the caller.
-      console.error(`[AuditManager] buildArtifact() failed for session ${sessionToken}:`, err);
-      this.sessions.delete(sessionToken);
-      this.clearPendingHandlers(sessionToken);
-      return null;
-    }
+  /** Add a spend the session has committed to, e.g. a checkout, to what later checks count. */
+  commitSpend(sessionId: string, amountUsd: number): void {
+    const entry = this.liveEntry(sessionId);
+    if (entry) entry.spentUsd += amountUsd;
+  }
 
-    this.artifacts.set(sessionToken, { artifact, expiresAt: Date.now() + this.ttlSeconds * 1000 });
-    this.sessions.delete(sessionToken);
-    this.clearPendingHandlers(sessionToken);
+  /** Follow a refreshed session's expiry, up to the envelope's deadline. No-op for unknown sessions. */
+  extendSession(sessionId: string, expiresAt: Date): void {
+    const entry = this.liveEntry(sessionId);
+    if (entry) entry.expiresAt = Math.min(Math.max(entry.expiresAt, expiresAt.getTime()), entry.deadline);
+  }
 
+  /** A session's budgets and what it has used of them; null once it is sealed. */
+  getUsage(sessionId: string): SessionUsage | null {
+    const entry = this.liveEntry(sessionId);
+    if (!entry) return null;
+    return {
+      limits: entry.limits,
+      toolCalls: entry.toolCalls,
+      callsByTool: Object.fromEntries(entry.callsByTool),
+      spentUsd: entry.spentUsd,
+    };
+  }
+
+  /**
+   * Seal the session and store its artifact for the retention period. An artifact
+   * the store refuses is still returned, and kept until a sweep stores it.
+   */
+  async endSession(sessionId: string): Promise<RuntimeRunArtifact | null> {
+    const artifact = this.seal(sessionId, 'Session ended');
+    if (!artifact) return null; // no session — not an error, caller checks
+    await this.store(sessionId, artifact);
     return artifact;
   }
 
-  getArtifact(sessionToken: string): RuntimeRunArtifact | null {
-    return this.artifacts.get(sessionToken)?.artifact ?? null;
+  async getArtifact(sessionId: string): Promise<RuntimeRunArtifact | null> {
+    const entry = this.sessions.get(sessionId);
+    if (entry && this.clock.now() >= entry.expiresAt) {
+      const artifact = this.seal(sessionId, 'TTL expired');
+      if (artifact) await this.store(sessionId, artifact);
+    }
+    const unstored = this.unstored.get(sessionId);
+    if (unstored) return unstored.artifact;
+    return (await this.artifacts.get(sessionId)) as RuntimeRunArtifact | null;
+  }
+
+  /** Whether the session is still recording, so its artifact does not exist yet. */
+  isActive(sessionId: string): boolean {
+    return this.liveEntry(sessionId) !== null;
+  }
+
+  /** Snapshot of the chain recorded so far, or null once the session is sealed. */
+  getLiveLog(sessionId: string): AuditLiveLog | null {
+    const entry = this.liveEntry(sessionId);
+    if (!entry) return null;
+    // buildArtifact() reads the chain without ending the run; its signature is
+    // dropped because a mid-session signature would look like a sealed artifact.
+    const { run_id, events } = entry.runtime.buildArtifact();
+    return {
+      run_id,
+      events,
+      event_count: events.length,
+      head_hash: events.length > 0 ? events[events.length - 1].header.event_hash : null,
+      expires_at: new Date(entry.expiresAt).toISOString(),
+    };
   }
 
   /**
@@ -218,49 +499,255 @@ export class AuditManager {
     return this.keyPair.publicKey;
   }
 
-  destroy(): void {
-    clearInterval(this.cleanupTimer);
-    for (const [token, entry] of this.sessions) {
-      try {
-        entry.runtime.end('completed', 'Shutdown');
-        const artifact = entry.runtime.buildArtifact();
-        this.artifacts.set(token, { artifact, expiresAt: Date.now() + this.ttlSeconds * 1000 });
-      } catch {
-        // Best-effort on shutdown
-      }
+  getPublicKeyInfo(): AuditPublicKey {
+    return {
+      algorithm: 'Ed25519',
+      publicKey: this.keyPair.publicKey.toString('base64'),
+      keyId: this.getPublicKeyJwk().kid,
+    };
+  }
+
+  /** The public key as a JWK, identified by its RFC 7638 thumbprint. */
+  getPublicKeyJwk(): AuditJwk {
+    return toJwk(this.keyPair.publicKey);
+  }
+
+  /** Every key in the history with its validity window, active key first. */
+  getPublishedKeys(): AuditJwk[] {
+    return [...this.keyHistory].reverse().map(record => ({
+      ...toJwk(Buffer.from(record.publicKey, 'base64')),
+      not_before: record.notBefore,
+      ...(record.notAfter && { not_after: record.notAfter }),
+    }));
+  }
+
+  /**
+   * Retire the active key and sign new sessions with the next one: a new
+   * provider or file key if it changed, otherwise a freshly generated pair.
+   * Sessions already running keep the key they started with.
+   */
+  rotateKey(now: Date = new Date(this.clock.now())): void {
+    let next = this.nextKeyPair();
+    if (next.publicKey.equals(this.keyPair.publicKey)) {
+      // A file or provider that still yields the active key has nothing to rotate to.
+      if (this.options.signingKey) return;
+      next = generateEd25519KeyPair();
+    }
+    this.activate(next, now);
+    this.keyPair = next;
+  }
+
+  /**
+   * Seal every active session and wait until their artifacts are stored. Rejects
+   * when some artifact could not be stored, after trying every one of them.
+   */
+  async destroy(): Promise<void> {
+    this.stopSweeps();
+    for (const token of [...this.sessions.keys()]) {
+      const artifact = this.seal(token, 'Shutdown');
+      if (artifact) this.unstored.set(token, { artifact, expiresAt: this.retentionEnd() });
     }
-    this.sessions.clear();
     this.pendingHandlers.clear();
+    await this.storeUnstored();
+    if (this.unstored.size > 0) {
+      throw new Error(`Could not store the audit artifacts of sessions ${[...this.unstored.keys()].join(', ')}`);
+    }
   }
 
-  private cleanupExpired(): void {
-    const now = Date.now();
-    for (const [token, entry] of this.sessions) {
+  /**
+   * Seal expired sessions, delete artifacts past their retention and rotate the
+   * signing key when it is due. Runs every minute unless the clock has no timers.
+   */
+  async sweep(): Promise<void> {
+    this.rotateIfDue();
+    const now = this.clock.now();
+    for (const [sessionId, entry] of [...this.sessions]) {
       if (now >= entry.expiresAt) {
-        try {
-          entry.runtime.end('completed', 'TTL expired');
-          const artifact = entry.runtime.buildArtifact();
-          this.artifacts.set(token, { artifact, expiresAt: now + this.ttlSeconds * 1000 });
-        } catch {
-          // ignore
-        }
-        this.sessions.delete(token);
-        this.clearPendingHandlers(token);
+        const artifact = this.seal(sessionId, 'TTL expired');
+        if (artifact) this.unstored.set(sessionId, { artifact, expiresAt: this.retentionEnd() });
       }
     }
-    // Evict sealed artifacts whose retention window has elapsed.
-    for (const [token, entry] of this.artifacts) {
-      if (now >= entry.expiresAt) {
-        this.artifacts.delete(token);
-      }
+    await this.storeUnstored();
+    // Delete sealed artifacts whose retention period has elapsed.
+    for (const sessionId of await this.artifacts.scanExpired(new Date(now))) {
+      await this.artifacts.delete(sessionId);
+    }
+  }
+
+  private redact(data: unknown, context: AuditRedactionContext): unknown {
+    return this.options.redact ? this.options.redact(data, context) : data;
+  }
+
+  /** Count a call against the session's budgets, or deny it when one is used up. */
+  private chargeCall(entry: SessionEntry, tool: string): void {
+    const { maxToolCalls, maxCallsPerCapability } = entry.limits;
+    if (maxToolCalls !== undefined && entry.toolCalls >= maxToolCalls) {
+      throw new PolicyDeniedError(`Session reached its tool call limit (${maxToolCalls})`);
+    }
+    const calls = entry.callsByTool.get(tool) ?? 0;
+    const toolLimit = maxCallsPerCapability?.[tool];
+    if (toolLimit !== undefined && calls >= toolLimit) {
+      throw new PolicyDeniedError(`Session reached its limit of calls to ${tool} (${toolLimit})`);
+    }
+    entry.toolCalls++;
+    entry.callsByTool.set(tool, calls + 1);
+  }
+
+  /**
+   * The session's record while it is recording. An expired one is sealed on the
+   * spot, so expiry holds even when no timer sweeps.
+   */
+  private liveEntry(sessionId: string): SessionEntry | null {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return null;
+    if (this.clock.now() < entry.expiresAt) return entry;
+    const artifact = this.seal(sessionId, 'TTL expired');
+    if (artifact) void this.store(sessionId, artifact);
+    return null;
+  }
+
+  /** End the runtime and build its artifact, forgetting the session either way. */
+  private seal(sessionId: string, reason: string): RuntimeRunArtifact | null {
+    const entry = this.sessions.get(sessionId);
+    if (!entry) return null;
+    this.sessions.delete(sessionId);
+    this.clearPendingHandlers(sessionId);
+
+    try {
+      entry.runtime.end('completed', reason);
+    } catch {
+      // Runtime may already be ended or expired
+    }
+
+    try {
+      return entry.runtime.buildArtifact();
+    } catch (err) {
+      // Artifact construction failure must be visible — a silent failure means
+      // audit records are lost with no indication to the caller.
+      console.error(`[AuditManager] buildArtifact() failed for session ${sessionId}:`, err);
+      return null;
     }
   }
 
-  private clearPendingHandlers(sessionToken: string): void {
+  private retentionEnd(): Date {
+    const retention = this.options.artifactRetention ?? DEFAULT_ARTIFACT_RETENTION_SECONDS;
+    return new Date(this.clock.now() + retention * 1000);
+  }
+
+  /** Hand a sealed artifact to the store, keeping it in `unstored` until the write succeeds. Never rejects. */
+  private async store(sessionId: string, artifact: RuntimeRunArtifact): Promise<void> {
+    this.unstored.set(sessionId, { artifact, expiresAt: this.retentionEnd() });
+    await this.storeUnstoredOne(sessionId);
+  }
+
+  /** Retry every unstored artifact, dropping those whose retention has already run out. */
+  private async storeUnstored(): Promise<void> {
+    for (const sessionId of [...this.unstored.keys()]) await this.storeUnstoredOne(sessionId);
+  }
+
+  private async storeUnstoredOne(sessionId: string): Promise<void> {
+    const pending = this.unstored.get(sessionId);
+    if (!pending) return;
+    if (this.clock.now() >= pending.expiresAt.getTime()) {
+      this.unstored.delete(sessionId);
+      return;
+    }
+    try {
+      await this.artifacts.set(sessionId, pending.artifact, pending.expiresAt);
+      // A newer session under the same ID may have been sealed while this write ran.
+      if (this.unstored.get(sessionId) === pending) this.unstored.delete(sessionId);
+    } catch (err) {
+      console.error(`[AuditManager] storing the artifact for session ${sessionId} failed; the next sweep retries:`, err);
+    }
+  }
+
+  private rotateIfDue(): void {
+    const { rotateEvery } = this.options;
+    const active = this.keyHistory[this.keyHistory.length - 1];
+    if (!rotateEvery || !active) return;
+    if (this.clock.now() - Date.parse(active.notBefore) < rotateEvery * 1000) return;
+    try {
+      this.rotateKey();
+    } catch (err) {
+      // Keep signing with the current key; a failed rotation must not stop auditing.
+      console.error('[AuditManager] key rotation failed:', err);
+    }
+  }
+
+  private nextKeyPair(): Ed25519KeyPair {
+    const { signingKey } = this.options;
+    if (typeof signingKey === 'function') return keyPairFrom(signingKey());
+    if (typeof signingKey === 'string') return keyPairFrom(readKeyFile(signingKey));
+    return generateEd25519KeyPair();
+  }
+
+  /** Open a validity window for `keyPair`, closing the active one. Resuming the active key is a no-op. */
+  private activate(keyPair: Ed25519KeyPair, now: Date): void {
+    const keyId = toJwk(keyPair.publicKey).kid;
+    const existing = this.keyHistory.find(record => record.keyId === keyId);
+    if (existing?.notAfter) {
+      throw new Error(`Audit signing key ${keyId} was retired at ${existing.notAfter}; configure a new key`);
+    }
+    if (existing) return;
+
+    const active = this.keyHistory[this.keyHistory.length - 1];
+    if (active && !active.notAfter) active.notAfter = now.toISOString();
+    this.keyHistory.push({ keyId, publicKey: keyPair.publicKey.toString('base64'), notBefore: now.toISOString() });
+    if (this.options.keyHistoryFile) writeKeyHistory(this.options.keyHistoryFile, this.keyHistory);
+  }
+
+  private clearPendingHandlers(sessionId: string): void {
     for (const key of this.pendingHandlers.keys()) {
-      if (key.startsWith(sessionToken + ':')) {
+      if (key.startsWith(sessionId + ':')) {
         this.pendingHandlers.delete(key);
       }
     }
   }
 }
+
+/** Hex SHA-256 of a session token, as recorded in `principal.id`. */
+export function hashSessionToken(sessionToken: string): string {
+  return createHash('sha256').update(sessionToken).digest('hex');
+}
+
+function toJwk(publicKeyDer: Buffer): AuditJwk {
+  const x = publicKeyDer.subarray(SPKI_PREFIX_BYTES, SPKI_PREFIX_BYTES + 32).toString('base64url');
+  // Thumbprint input: the required members in lexicographic order, no whitespace.
+  const kid = createHash('sha256')
+    .update(JSON.stringify({ crv: 'Ed25519', kty: 'OKP', x }))
+    .digest('base64url');
+  return { kty: 'OKP', crv: 'Ed25519', x, kid, alg: 'EdDSA', use: 'sig' };
+}
+
+function keyPairFrom(material: AuditKeyMaterial): Ed25519KeyPair {
+  const privateKey: KeyObject = typeof material === 'string'
+    ? createPrivateKey(material)
+    : createPrivateKey({ key: material, format: 'der', type: 'pkcs8' });
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Audit signing key must be Ed25519, got ${privateKey.asymmetricKeyType}`);
+  }
+  return {
+    publicKey: createPublicKey(privateKey).export({ format: 'der', type: 'spki' }),
+    privateKey: privateKey.export({ format: 'der', type: 'pkcs8' }),
+  } as Ed25519KeyPair;
+}
+
+/** PEM files are returned as text, anything else as DER bytes. */
+function readKeyFile(file: string): AuditKeyMaterial {
+  const bytes = readFileSync(file);
+  const text = bytes.toString('utf8');
+  return text.includes('-----BEGIN') ? text : bytes;
+}
+
+function readKeyHistory(file: string): AuditKeyRecord[] {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8')) as AuditKeyRecord[];
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw err;
+  }
+}
+
+function writeKeyHistory(file: string, history: AuditKeyRecord[]): void {
+  writeAtomicSync(file, JSON.stringify(history, null, 2));
+}
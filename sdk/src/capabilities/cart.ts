@@ -1,4 +1,10 @@
 import { CapabilityDefinition, CartItem } from '../types';
+import { NotFoundError, UnauthorizedError } from '../errors';
+
+/** Sum of price × quantity. Items without a price count as free. */
+export function cartSubtotal(items: CartItem[]): number {
+  return items.reduce((sum, item) => sum + (item.price ?? 0) * item.quantity, 0);
+}
 
 export function cart(): CapabilityDefinition[] {
   const add: CapabilityDefinition = {
@@ -8,30 +14,28 @@ export function cart(): CapabilityDefinition[] {
     requiresSession: true,
     params: {
       item_id: { type: 'string', required: true, description: 'Item ID to add' },
-      quantity: { type: 'number', required: true, description: 'Quantity to add' },
+      quantity: { type: 'integer', required: true, minimum: 1, description: 'Quantity to add' },
       name: { type: 'string', required: false, description: 'Item name' },
-      price: { type: 'number', required: false, description: 'Item price' },
+      price: { type: 'number', required: false, minimum: 0, description: 'Item price' },
     },
     handler: async (req, session) => {
-      if (!session) throw new Error('Session required');
-      const { item_id, quantity, name, price } = req.body;
-      if (typeof item_id !== 'string' || typeof quantity !== 'number') {
-        throw new Error('Missing required parameters: item_id, quantity');
-      }
+      if (!session) throw new UnauthorizedError('Session required');
+      const { item_id, quantity, name, price } = req.input as {
+        item_id: string; quantity: number; name?: string; price?: number;
+      };
 
       const existing = session.cartItems.find(i => i.itemId === item_id);
-      if (existing) {
-        existing.quantity += quantity;
-        if (typeof name === 'string') existing.name = name;
-        if (typeof price === 'number') existing.price = price;
-      } else {
-        const item: CartItem = { itemId: item_id, quantity };
-        if (typeof name === 'string') item.name = name;
-        if (typeof price === 'number') item.price = price;
-        session.cartItems.push(item);
-      }
+      const item: CartItem = existing
+        ? { ...existing, quantity: existing.quantity + quantity }
+        : { itemId: item_id, quantity };
+      if (typeof name === 'string') item.name = name;
+      if (typeof price === 'number') item.price = price;
 
-      return { item_id, quantity: existing?.quantity ?? quantity, cart_size: session.cartItems.length };
+      session.cartItems = existing
+        ? session.cartItems.map(i => (i.itemId === item_id ? item : i))
+        : [...session.cartItems, item];
+
+      return { item_id, quantity: item.quantity, cart_size: session.cartItems.length };
     },
   };
 
@@ -41,10 +45,9 @@ export function cart(): CapabilityDefinition[] {
     method: 'GET',
     requiresSession: true,
     handler: async (_req, session) => {
-      if (!session) throw new Error('Session required');
+      if (!session) throw new UnauthorizedError('Session required');
       const items = session.cartItems;
-      const subtotal = items.reduce((sum, item) => sum + (item.price ?? 0) * item.quantity, 0);
-      return { items, subtotal };
+      return { items, subtotal: cartSubtotal(items) };
     },
   };
 
@@ -55,19 +58,17 @@ export function cart(): CapabilityDefinition[] {
     requiresSession: true,
     params: {
       item_id: { type: 'string', required: true, description: 'Item ID to update' },
-      quantity: { type: 'number', required: true, description: 'New quantity' },
+      quantity: { type: 'integer', required: true, minimum: 1, description: 'New quantity' },
     },
     handler: async (req, session) => {
-      if (!session) throw new Error('Session required');
-      const { item_id, quantity } = req.body;
-      if (typeof item_id !== 'string' || typeof quantity !== 'number') {
-        throw new Error('Missing required parameters: item_id, quantity');
-      }
+      if (!session) throw new UnauthorizedError('Session required');
+      const { item_id, quantity } = req.input as { item_id: string; quantity: number };
 
-      const item = session.cartItems.find(i => i.itemId === item_id);
-      if (!item) throw new Error(`Item not found in cart: ${item_id}`);
+      if (!session.cartItems.some(i => i.itemId === item_id)) {
+        throw new NotFoundError(`Item not found in cart: ${item_id}`);
+      }
 
-      item.quantity = quantity;
+      session.cartItems = session.cartItems.map(i => (i.itemId === item_id ? { ...i, quantity } : i));
       return { item_id, quantity };
     },
   };
@@ -81,15 +82,14 @@ export function cart(): CapabilityDefinition[] {
       item_id: { type: 'string', required: true, description: 'Item ID to remove' },
     },
     handler: async (req, session) => {
-      if (!session) throw new Error('Session required');
-      const raw = req.body.item_id ?? req.query.item_id;
-      if (typeof raw !== 'string' || !raw) throw new Error('Missing required parameter: item_id');
-      const item_id = raw;
+      if (!session) throw new UnauthorizedError('Session required');
+      const item_id = req.input.item_id as string;
 
-      const index = session.cartItems.findIndex(i => i.itemId === item_id);
-      if (index === -1) throw new Error(`Item not found in cart: ${item_id}`);
+      if (!session.cartItems.some(i => i.itemId === item_id)) {
+        throw new NotFoundError(`Item not found in cart: ${item_id}`);
+      }
 
-      session.cartItems.splice(index, 1);
+      session.cartItems = session.cartItems.filter(i => i.itemId !== item_id);
       return { item_id, removed: true };
     },
   };
@@ -1,7 +1,9 @@
 import { CapabilityDefinition, CartItem } from '../types';
+import { ConflictError, UnauthorizedError } from '../errors';
 
 interface CheckoutOptions {
-  onCheckout: (cart: CartItem[]) => Promise<{ checkout_url: string }>;
+  /** `total` is what the buyer will pay, e.g. with shipping and tax; it is checked against the session's spend cap. */
+  onCheckout: (cart: CartItem[]) => Promise<{ checkout_url: string; total?: number }>;
 }
 
 export function checkout({ onCheckout }: CheckoutOptions): CapabilityDefinition {
@@ -12,11 +14,17 @@ export function checkout({ onCheckout }: CheckoutOptions): CapabilityDefinition
     requiresSession: true,
     humanHandoff: true,
     handler: async (_req, session) => {
-      if (!session) throw new Error('Session required');
+      if (!session) throw new UnauthorizedError('Session required');
       const items = session.cartItems;
-      if (items.length === 0) throw new Error('Cart is empty');
+      if (items.length === 0) throw new ConflictError('Cart is empty');
       const result = await onCheckout(items);
-      return { checkout_url: result.checkout_url, human_handoff: true };
+      // The cart now lives in the checkout the human completes.
+      session.cartItems = [];
+      return {
+        checkout_url: result.checkout_url,
+        ...(typeof result.total === 'number' && { total: result.total }),
+        human_handoff: true,
+      };
     },
   };
 }
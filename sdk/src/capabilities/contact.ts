@@ -10,16 +10,12 @@ export function contact({ handler }: ContactOptions): CapabilityDefinition {
     description: 'Send a contact message',
     method: 'POST',
     params: {
-      name: { type: 'string', required: true, description: 'Sender name' },
-      email: { type: 'string', required: true, description: 'Sender email' },
-      message: { type: 'string', required: true, description: 'Message content' },
+      name: { type: 'string', required: true, description: 'Sender name', redact: 'hash' },
+      email: { type: 'string', required: true, description: 'Sender email', redact: 'hash' },
+      message: { type: 'string', required: true, description: 'Message content', redact: 'hash' },
     },
     handler: async (req) => {
-      const { name, email, message } = req.body;
-      if (typeof name !== 'string' || typeof email !== 'string' || typeof message !== 'string'
-          || !name || !email || !message) {
-        throw new Error('Missing required parameters: name, email, message');
-      }
+      const { name, email, message } = req.input as { name: string; email: string; message: string };
       await handler({ name, email, message });
       return { sent: true };
     },
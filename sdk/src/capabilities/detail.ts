@@ -1,4 +1,5 @@
 import { CapabilityDefinition } from '../types';
+import { NotFoundError } from '../errors';
 
 interface DetailOptions {
   handler: (id: string) => Promise<unknown>;
@@ -9,13 +10,15 @@ export function detail({ handler }: DetailOptions): CapabilityDefinition {
     name: 'detail',
     description: 'Get detailed information about a specific item',
     method: 'GET',
+    path: '/detail/:id',
     params: {
       id: { type: 'string', required: true, description: 'Item identifier' },
     },
     handler: async (req) => {
-      const id = req.params.id ?? req.query.id;
-      if (!id) throw new Error('Missing required parameter: id');
-      return handler(id);
+      const id = req.input.id as string;
+      const item = await handler(id);
+      if (item === null || item === undefined) throw new NotFoundError(`Item not found: ${id}`);
+      return item;
     },
   };
 }
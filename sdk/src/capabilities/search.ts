@@ -11,12 +11,10 @@ export function search({ handler }: SearchOptions): CapabilityDefinition {
     method: 'GET',
     params: {
       q: { type: 'string', required: true, description: 'Search query' },
-      limit: { type: 'number', required: false, description: 'Max results to return' },
+      limit: { type: 'integer', required: false, description: 'Max results to return' },
     },
     handler: async (req) => {
-      const q = req.query.q;
-      if (!q) throw new Error('Missing required parameter: q');
-      const limit = req.query.limit ? parseInt(req.query.limit, 10) : undefined;
+      const { q, limit } = req.input as { q: string; limit?: number };
       return handler(q, { limit });
     },
   };
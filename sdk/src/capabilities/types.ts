@@ -1,4 +1,4 @@
-import type { AgentRequest, SessionData } from '../types';
+import type { AgentRequest, ParamDefinition, SessionData } from '../types';
 
 export interface CapabilityHandler {
   (req: AgentRequest, session?: SessionData | null): Promise<any>;
@@ -8,7 +8,7 @@ export type RegisteredCapability = {
   name: string;
   description: string;
   method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
-  params?: Record<string, { type: string; required?: boolean; description?: string }>;
+  params?: Record<string, ParamDefinition>;
   requiresSession?: boolean;
   humanHandoff?: boolean;
   handler: CapabilityHandler;
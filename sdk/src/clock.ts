@@ -0,0 +1,60 @@
+import { Clock } from './types';
+
+/** Default clock: wall time, with intervals that never keep the process alive. */
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  every(intervalMs, task) {
+    const timer = setInterval(task, intervalMs);
+    if (timer.unref) timer.unref();
+    return () => clearInterval(timer);
+  },
+};
+
+/**
+ * `clock` without its timers, for runtimes that forbid them or freeze between
+ * requests. Expired state is then dropped when it is next touched, or by sweep().
+ */
+export function withoutTimers(clock: Clock = systemClock): Clock {
+  return {
+    now: () => clock.now(),
+    every: () => () => {},
+  };
+}
+
+/**
+ * A clock that only moves when told to. advance() runs the scheduled tasks that
+ * fall due on the way, once per elapsed interval, so tests need no fake timers.
+ */
+export class ManualClock implements Clock {
+  private time: number;
+  private tasks = new Set<{ intervalMs: number; nextAt: number; task: () => void }>();
+
+  constructor(start: number | Date = 0) {
+    this.time = typeof start === 'number' ? start : start.getTime();
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  every(intervalMs: number, task: () => void): () => void {
+    const entry = { intervalMs, nextAt: this.time + intervalMs, task };
+    this.tasks.add(entry);
+    return () => { this.tasks.delete(entry); };
+  }
+
+  advance(ms: number): void {
+    const until = this.time + ms;
+    for (;;) {
+      let due: { intervalMs: number; nextAt: number; task: () => void } | null = null;
+      for (const entry of this.tasks) {
+        if (entry.nextAt <= until && (!due || entry.nextAt < due.nextAt)) due = entry;
+      }
+      if (!due) break;
+      this.time = due.nextAt;
+      due.nextAt += due.intervalMs;
+      due.task();
+    }
+    this.time = until;
+  }
+}
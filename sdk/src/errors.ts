@@ -0,0 +1,111 @@
+/**
+ * Errors a capability handler can throw to control the Interaction API response.
+ *
+ * Every failure is serialized as
+ *   `{ ok: false, error, code, retryable, details? }`
+ * with the error's HTTP status, so agents can branch on `code` instead of
+ * parsing messages. Anything else a handler throws is reported as
+ * `capability_failed` with status 400.
+ */
+
+export interface AgentErrorOptions {
+  status?: number;
+  retryable?: boolean;
+  details?: Record<string, unknown>;
+  cause?: unknown;
+}
+
+export class AgentError extends Error {
+  /** Stable, machine-readable identifier, e.g. `not_found`. */
+  readonly code: string;
+  readonly status: number;
+  /** Whether repeating the same call later may succeed. */
+  readonly retryable: boolean;
+  readonly details?: Record<string, unknown>;
+
+  constructor(code: string, message: string, options: AgentErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.name = 'AgentError';
+    this.code = code;
+    this.status = options.status ?? 400;
+    this.retryable = options.retryable ?? false;
+    this.details = options.details;
+  }
+
+  /** The `ok: false` envelope sent to agents. */
+  toJSON(): Record<string, unknown> {
+    return {
+      ok: false,
+      error: this.message,
+      code: this.code,
+      retryable: this.retryable,
+      ...(this.details && { details: this.details }),
+    };
+  }
+}
+
+export class InvalidParamsError extends AgentError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('invalid_params', message, { status: 400, details });
+    this.name = 'InvalidParamsError';
+  }
+}
+
+export class UnauthorizedError extends AgentError {
+  constructor(message = 'Missing session token', code = 'session_required') {
+    super(code, message, { status: 401 });
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends AgentError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('forbidden', message, { status: 403, details });
+    this.name = 'ForbiddenError';
+  }
+}
+
+export class NotFoundError extends AgentError {
+  constructor(message = 'Not found', details?: Record<string, unknown>) {
+    super('not_found', message, { status: 404, details });
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends AgentError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super('conflict', message, { status: 409, details });
+    this.name = 'ConflictError';
+  }
+}
+
+export class RateLimitedError extends AgentError {
+  constructor(retryAfterSeconds: number) {
+    super('rate_limited', 'Rate limit exceeded', {
+      status: 429,
+      retryable: true,
+      details: { retry_after_seconds: retryAfterSeconds },
+    });
+    this.name = 'RateLimitedError';
+  }
+}
+
+/** A dependency the handler relies on failed. 5xx and 429 upstream responses are retryable. */
+export class UpstreamError extends AgentError {
+  constructor(message: string, upstreamStatus?: number, options: { cause?: unknown } = {}) {
+    super('upstream_error', message, {
+      status: 502,
+      retryable: upstreamStatus === undefined || upstreamStatus === 429 || upstreamStatus >= 500,
+      ...(upstreamStatus !== undefined && { details: { upstream_status: upstreamStatus } }),
+      cause: options.cause,
+    });
+    this.name = 'UpstreamError';
+  }
+}
+
+export class UnavailableError extends AgentError {
+  constructor(message = 'Service temporarily unavailable') {
+    super('unavailable', message, { status: 503, retryable: true });
+    this.name = 'UnavailableError';
+  }
+}
@@ -1,7 +1,37 @@
 export { AgentDoor } from './server';
 export { SessionManager } from './session';
+export { MemorySessionStore, FileSessionStore } from './session-store';
+export { MemoryRevocationList, SessionTokenCodec } from './session-token';
+export { systemClock, withoutTimers, ManualClock } from './clock';
+export { MemoryArtifactStore, FileArtifactStore } from './artifact-store';
+export { MemoryApprovalStore } from './approval-store';
+export { ApprovalManager } from './approval';
+export { AgentAuthenticator, MemoryAgentRegistry } from './agent-auth';
+export type { ApprovalDecision } from './approval';
 export { RateLimiter } from './rate-limiter';
-export { AuditManager } from './audit';
+export { MemoryRateLimitStore } from './rate-limit-store';
+export type { MemoryRateLimitStoreOptions } from './rate-limit-store';
+export type { RateLimitResult, RateLimiterOptions } from './rate-limiter';
+export { AuditManager, hashSessionToken, HUMAN_APPROVAL_TOOL } from './audit';
+export type { AuditJwk, AuditPublicKey, AuditKeyRecord, AuditLiveLog, AuditApprovalEvent } from './audit';
+export { AuditAccessControl } from './audit-access';
+export type { AuditAccessGrant, AuditAccessRequest } from './audit-access';
+export { redactValue } from './redaction';
+export type { RedactedValue } from './redaction';
+export {
+  AgentError,
+  InvalidParamsError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  ConflictError,
+  RateLimitedError,
+  UpstreamError,
+  UnavailableError,
+} from './errors';
+export type { AgentErrorOptions } from './errors';
+export { validateParams, validateSchema } from './validation';
+export type { ParamError, ValidationResult } from './validation';
 export { generateAgentsTxt } from './agents-txt';
 export { generateAgentsJson } from './agents-json';
 export { search, browse, detail, cart, checkout, contact } from './capabilities';
@@ -9,10 +39,35 @@ export type { CapabilityHandler, RegisteredCapability } from './capabilities';
 export type {
   SiteConfig,
   CapabilityDefinition,
+  CapabilityRateLimit,
+  ParamDefinition,
+  RedactionMode,
+  AuditRedactionContext,
+  JsonSchema,
   AgentDoorConfig,
+  Clock,
+  AuditOptions,
+  AuditAccessPolicy,
+  AuditKeyMaterial,
+  ApprovalOptions,
+  ApprovalRecord,
+  ApprovalStatus,
+  ApprovalStore,
+  AgentAuthOptions,
+  AgentIdentity,
+  AgentRegistry,
+  RegisteredAgent,
   AgentRequest,
   FlowDefinition,
   SessionData,
+  SessionLimits,
+  SessionStore,
+  SessionRevocationList,
+  StatelessSessionOptions,
+  ArtifactStore,
+  RateLimitAlgorithm,
+  RateLimitState,
+  RateLimitStore,
   AgentResponse,
   CartItem,
   OpenAPISpec,
@@ -0,0 +1,104 @@
+import { InvalidParamsError } from './errors';
+import { SessionLimits } from './types';
+import type { SessionUsage } from './audit';
+
+/** How limits appear in agents.json and session responses. */
+export interface PublishedLimits {
+  max_tool_calls?: number;
+  max_calls_per_capability?: Record<string, number>;
+  max_spend_usd?: number;
+}
+
+export function publishLimits(limits: SessionLimits): PublishedLimits | null {
+  const published: PublishedLimits = {
+    ...(limits.maxToolCalls !== undefined && { max_tool_calls: limits.maxToolCalls }),
+    ...(limits.maxCallsPerCapability && Object.keys(limits.maxCallsPerCapability).length > 0 && {
+      max_calls_per_capability: limits.maxCallsPerCapability,
+    }),
+    ...(limits.maxSpendUsd !== undefined && { max_spend_usd: limits.maxSpendUsd }),
+  };
+  return Object.keys(published).length > 0 ? published : null;
+}
+
+/** What is left of each limit, as reported by `GET /session`. */
+export interface RemainingQuota {
+  tool_calls?: number;
+  calls_per_capability?: Record<string, number>;
+  spend_usd?: number;
+}
+
+/**
+ * What a session has left of its limits, or null when it has none. Spend is
+ * what the session has committed so far plus `pendingUsd`, e.g. its cart.
+ */
+export function remainingQuota(usage: SessionUsage, pendingUsd: number): RemainingQuota | null {
+  const spentUsd = usage.spentUsd + pendingUsd;
+  const { maxToolCalls, maxCallsPerCapability = {}, maxSpendUsd } = usage.limits;
+  const perCapability: Record<string, number> = {};
+  for (const [name, max] of Object.entries(maxCallsPerCapability)) {
+    perCapability[name] = Math.max(0, max - (usage.callsByTool[name] ?? 0));
+  }
+  const remaining: RemainingQuota = {
+    ...(maxToolCalls !== undefined && { tool_calls: Math.max(0, maxToolCalls - usage.toolCalls) }),
+    ...(Object.keys(perCapability).length > 0 && { calls_per_capability: perCapability }),
+    // Rounded to cents, as the spend check compares.
+    ...(maxSpendUsd !== undefined && { spend_usd: Math.max(0, Math.round((maxSpendUsd - spentUsd) * 100) / 100) }),
+  };
+  return Object.keys(remaining).length > 0 ? remaining : null;
+}
+
+/**
+ * Limits of a new session: the site's, tightened by whatever the agent asked for
+ * in the `limits` field of its session request. A request can only lower a limit.
+ */
+export function resolveSessionLimits(
+  site: SessionLimits,
+  requested: unknown,
+  capabilityNames: string[],
+): SessionLimits {
+  if (requested === undefined || requested === null) return site;
+  if (typeof requested !== 'object' || Array.isArray(requested)) {
+    throw new InvalidParamsError('limits must be an object');
+  }
+  const { max_tool_calls, max_calls_per_capability, max_spend_usd, ...unknown } = requested as Record<string, unknown>;
+  const errors: string[] = Object.keys(unknown).map(key => `limits.${key} is not a known limit`);
+
+  if (max_tool_calls !== undefined && !isCount(max_tool_calls)) {
+    errors.push('limits.max_tool_calls must be a non-negative integer');
+  }
+  if (max_spend_usd !== undefined && !(typeof max_spend_usd === 'number' && max_spend_usd >= 0)) {
+    errors.push('limits.max_spend_usd must be a non-negative number');
+  }
+  const perCapability: Record<string, number> = {};
+  if (max_calls_per_capability !== undefined) {
+    if (typeof max_calls_per_capability !== 'object' || max_calls_per_capability === null || Array.isArray(max_calls_per_capability)) {
+      errors.push('limits.max_calls_per_capability must be an object');
+    } else {
+      for (const [name, count] of Object.entries(max_calls_per_capability)) {
+        if (!capabilityNames.includes(name)) errors.push(`limits.max_calls_per_capability: unknown capability ${name}`);
+        else if (!isCount(count)) errors.push(`limits.max_calls_per_capability.${name} must be a non-negative integer`);
+        else perCapability[name] = count;
+      }
+    }
+  }
+  if (errors.length > 0) throw new InvalidParamsError(`Invalid limits: ${errors.join('; ')}`);
+
+  const merged = { ...site.maxCallsPerCapability };
+  for (const [name, count] of Object.entries(perCapability)) merged[name] = lower(merged[name], count)!;
+  return {
+    ...site,
+    maxToolCalls: lower(site.maxToolCalls, max_tool_calls as number | undefined),
+    maxSpendUsd: lower(site.maxSpendUsd, max_spend_usd as number | undefined),
+    ...(Object.keys(merged).length > 0 && { maxCallsPerCapability: merged }),
+  };
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function lower(a: number | undefined, b: number | undefined): number | undefined {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return Math.min(a, b);
+}
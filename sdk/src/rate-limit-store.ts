@@ -0,0 +1,74 @@
+import { Clock, RateLimitState, RateLimitStore } from './types';
+import { systemClock } from './clock';
+
+interface StoredEntry {
+  state: RateLimitState;
+  expiresAt: number; // ms since epoch
+}
+
+export interface MemoryRateLimitStoreOptions {
+  /** Most keys tracked at once (an OOM guard). Default: 100,000. */
+  maxEntries?: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 100_000;
+
+/**
+ * Default store, counting in memory. Counters are per instance, so N instances
+ * behind a load balancer allow up to N times the configured limit.
+ *
+ * When `maxEntries` live counters are tracked, a new key evicts the least recently
+ * updated one, which is also the one closest to resetting. New clients are never
+ * refused for lack of room; a site that expects more concurrent clients than
+ * `maxEntries` should raise it, or share a store such as Redis.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private entries = new Map<string, StoredEntry>();
+  private clock: Clock;
+  private maxEntries: number;
+  private stopSweeps: () => void;
+
+  constructor(clock: Clock = systemClock, options: MemoryRateLimitStoreOptions = {}) {
+    this.clock = clock;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    // Expired entries are already ignored on access; sweeping only frees memory.
+    this.stopSweeps = clock.every(30_000, () => this.sweep());
+  }
+
+  async update<T>(
+    key: string,
+    ttlMs: number,
+    apply: (current: RateLimitState | null) => { state: RateLimitState; result: T },
+  ): Promise<T> {
+    const now = this.clock.now();
+    const existing = this.entries.get(key);
+    const current = existing && existing.expiresAt > now ? existing.state : null;
+
+    if (!existing && this.entries.size >= this.maxEntries) {
+      this.sweep();
+      if (this.entries.size >= this.maxEntries) {
+        // Map order is update order: the first key is the least recently updated.
+        this.entries.delete(this.entries.keys().next().value!);
+      }
+    }
+
+    const { state, result } = apply(current);
+    // Delete first so re-insertion moves the key to the back of the eviction order.
+    this.entries.delete(key);
+    this.entries.set(key, { state, expiresAt: now + ttlMs });
+    return result;
+  }
+
+  destroy(): void {
+    this.stopSweeps();
+    this.entries.clear();
+  }
+
+  /** Drop expired counters. */
+  sweep(): void {
+    const now = this.clock.now();
+    for (const [key, entry] of this.entries) {
+      if (entry.expiresAt <= now) this.entries.delete(key);
+    }
+  }
+}
@@ -1,65 +1,148 @@
-interface WindowEntry {
-  timestamps: number[];
+import { Clock, RateLimitAlgorithm, RateLimitState, RateLimitStore } from './types';
+import { MemoryRateLimitStore } from './rate-limit-store';
+import { systemClock } from './clock';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** ms since epoch — when a denied request may retry, or when the budget is fully restored. */
+  resetAt: number;
+}
+
+export interface RateLimiterOptions {
+  algorithm?: RateLimitAlgorithm;
+  store?: RateLimitStore;
+  windowMs?: number;
+  /** Time source, shared with the default store. Default: wall time. */
+  clock?: Clock;
 }
 
-/** Reject new IPs once this many distinct keys are tracked (OOM guard). */
-const MAX_ENTRIES = 10_000;
+type Decide = (current: RateLimitState | null, now: number, limit: number, burst: number, windowMs: number) => {
+  state: RateLimitState;
+  result: RateLimitResult;
+};
 
 export class RateLimiter {
-  private windows = new Map<string, WindowEntry>();
-  private cleanupInterval: ReturnType<typeof setInterval>;
-  private windowMs = 60_000;
+  private store: RateLimitStore;
+  private ownedStore: MemoryRateLimitStore | null;
+  private algorithm: RateLimitAlgorithm;
+  private windowMs: number;
+  private clock: Clock;
 
-  constructor() {
-    this.cleanupInterval = setInterval(() => this.cleanup(), 30_000);
-    if (this.cleanupInterval.unref) this.cleanupInterval.unref();
+  constructor(options: RateLimiterOptions = {}) {
+    this.algorithm = options.algorithm ?? 'sliding-window';
+    this.windowMs = options.windowMs ?? 60_000;
+    this.clock = options.clock ?? systemClock;
+    // Only tear down a store we created — a shared store may serve other instances.
+    this.ownedStore = options.store ? null : new MemoryRateLimitStore(this.clock);
+    this.store = options.store ?? this.ownedStore!;
   }
 
-  checkRateLimit(key: string, limit: number): { allowed: boolean; remaining: number; resetAt: number } {
-    const now = Date.now();
-    const windowStart = now - this.windowMs;
-
-    let entry = this.windows.get(key);
-    if (!entry) {
-      if (this.windows.size >= MAX_ENTRIES) {
-        // Map is full — treat unknown IPs as rate-limited to prevent OOM.
-        return { allowed: false, remaining: 0, resetAt: now + this.windowMs };
-      }
-      entry = { timestamps: [] };
-      this.windows.set(key, entry);
-    }
+  /** `burst` is the token-bucket capacity; it defaults to `limit` and window algorithms ignore it. */
+  async checkRateLimit(key: string, limit: number, burst: number = limit): Promise<RateLimitResult> {
+    const decide = ALGORITHMS[this.algorithm];
+    const now = this.clock.now();
+    return this.store.update(
+      `${this.algorithm}:${key}`,
+      this.windowMs * Math.max(1, burst / limit),
+      current => decide(current, now, limit, burst, this.windowMs),
+    );
+  }
 
-    entry.timestamps = entry.timestamps.filter(t => t > windowStart);
+  /** Drop expired counters from the default store; a shared store expires its own. */
+  sweep(): void {
+    this.ownedStore?.sweep();
+  }
 
-    if (entry.timestamps.length >= limit) {
-      const oldestInWindow = entry.timestamps[0];
-      return {
-        allowed: false,
-        remaining: 0,
-        resetAt: oldestInWindow + this.windowMs,
-      };
+  destroy(): void {
+    this.ownedStore?.destroy();
+  }
+}
+
+// ─── Algorithms (pure: state in, state + decision out) ────────────────────────
+
+/** Most entries a sliding window keeps; past it, new requests join the newest entry. */
+const MAX_WINDOW_ENTRIES = 100;
+
+const slidingWindow: Decide = (current, now, limit, _burst, windowMs) => {
+  const windowStart = now - windowMs;
+  const previous = current && 'timestamps' in current ? current : { timestamps: [] as number[], counts: undefined };
+  const timestamps: number[] = [];
+  const counts: number[] = [];
+  previous.timestamps.forEach((t, i) => {
+    if (t > windowStart) {
+      timestamps.push(t);
+      counts.push(previous.counts?.[i] ?? 1);
     }
+  });
+  const used = counts.reduce((sum, n) => sum + n, 0);
+  const state = () => (counts.some(n => n > 1) ? { timestamps, counts } : { timestamps });
 
-    entry.timestamps.push(now);
+  if (used >= limit) {
     return {
-      allowed: true,
-      remaining: limit - entry.timestamps.length,
-      resetAt: now + this.windowMs,
+      state: state(),
+      result: { allowed: false, limit, remaining: 0, resetAt: timestamps[0] + windowMs },
     };
   }
 
-  private cleanup(): void {
-    const windowStart = Date.now() - this.windowMs;
-    for (const [key, entry] of this.windows) {
-      entry.timestamps = entry.timestamps.filter(t => t > windowStart);
-      if (entry.timestamps.length === 0) {
-        this.windows.delete(key);
-      }
-    }
+  // Joining the newest entry counts the merged requests until `now` leaves the window: late, never early.
+  if (timestamps.length < MAX_WINDOW_ENTRIES) {
+    timestamps.push(now);
+    counts.push(1);
+  } else {
+    timestamps[timestamps.length - 1] = now;
+    counts[counts.length - 1]++;
   }
+  return {
+    state: state(),
+    result: { allowed: true, limit, remaining: limit - used - 1, resetAt: now + windowMs },
+  };
+};
 
-  destroy(): void {
-    clearInterval(this.cleanupInterval);
-    this.windows.clear();
+const fixedWindow: Decide = (current, now, limit, _burst, windowMs) => {
+  const windowStart = Math.floor(now / windowMs) * windowMs;
+  const resetAt = windowStart + windowMs;
+  const count = current && 'windowStart' in current && current.windowStart === windowStart
+    ? current.count
+    : 0;
+
+  if (count >= limit) {
+    return { state: { windowStart, count }, result: { allowed: false, limit, remaining: 0, resetAt } };
   }
-}
+  return {
+    state: { windowStart, count: count + 1 },
+    result: { allowed: true, limit, remaining: limit - count - 1, resetAt },
+  };
+};
+
+const tokenBucket: Decide = (current, now, limit, burst, windowMs) => {
+  const refillPerMs = limit / windowMs;
+  const tokens = current && 'tokens' in current
+    ? Math.min(burst, current.tokens + (now - current.updatedAt) * refillPerMs)
+    : burst;
+
+  if (tokens < 1) {
+    return {
+      state: { tokens, updatedAt: now },
+      result: { allowed: false, limit, remaining: 0, resetAt: now + Math.ceil((1 - tokens) / refillPerMs) },
+    };
+  }
+
+  const left = tokens - 1;
+  return {
+    state: { tokens: left, updatedAt: now },
+    result: {
+      allowed: true,
+      limit,
+      remaining: Math.floor(left),
+      resetAt: now + Math.ceil((burst - left) / refillPerMs),
+    },
+  };
+};
+
+const ALGORITHMS: Record<RateLimitAlgorithm, Decide> = {
+  'sliding-window': slidingWindow,
+  'fixed-window': fixedWindow,
+  'token-bucket': tokenBucket,
+};
@@ -0,0 +1,51 @@
+import { createHash, randomBytes } from 'crypto';
+import { canonicalJson } from '@agents-protocol/client';
+import type { ParamDefinition, RedactionMode } from './types';
+
+/**
+ * What a hashed value is recorded as. Anyone who knows the original value can
+ * confirm it: `hash` is hex SHA-256 over the salt bytes followed by the value's
+ * UTF-8 text (strings) or JCS canonical JSON (anything else). The per-value salt
+ * keeps equal values from being linkable across events, but a guessable value
+ * can still be confirmed by guessing, so use `drop` for anything that must not
+ * be confirmable at all.
+ */
+export interface RedactedValue {
+  $redacted: 'sha256';
+  /** 16 random bytes, base64 */
+  salt: string;
+  hash: string;
+}
+
+/** Replace a single value according to `mode`; `drop` yields undefined. */
+export function redactValue(value: unknown, mode: RedactionMode): unknown {
+  switch (mode) {
+    case 'drop':
+      return undefined;
+    case 'mask':
+      // Keep the last four characters of long strings, as receipts do with card numbers.
+      return typeof value === 'string' && value.length >= 8 ? `****${value.slice(-4)}` : '****';
+    case 'hash': {
+      const salt = randomBytes(16);
+      const text = typeof value === 'string' ? value : canonicalJson(value);
+      const hash = createHash('sha256').update(salt).update(text).digest('hex');
+      const redacted: RedactedValue = { $redacted: 'sha256', salt: salt.toString('base64'), hash };
+      return redacted;
+    }
+  }
+}
+
+/** Apply the `redact` rules of a capability's params to the data recorded for a call. */
+export function redactParams(
+  params: Record<string, ParamDefinition> | undefined,
+  data: Record<string, unknown>,
+): Record<string, unknown> {
+  const result = { ...data };
+  for (const [field, def] of Object.entries(params ?? {})) {
+    if (!def.redact || !(field in result)) continue;
+    const redacted = redactValue(result[field], def.redact === true ? 'hash' : def.redact);
+    if (redacted === undefined) delete result[field];
+    else result[field] = redacted;
+  }
+  return result;
+}
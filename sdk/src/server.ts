@@ -3,19 +3,44 @@ import {
   AgentDoorConfig,
   AgentRequest,
   CapabilityDefinition,
+  CartItem,
+  Clock,
+  JsonSchema,
   OpenAPISpec,
+  ParamDefinition,
   SessionData,
+  SessionLimits,
 } from './types';
 import { generateAgentsTxt } from './agents-txt';
-import { generateAgentsJson } from './agents-json';
-import { SessionManager } from './session';
-import { RateLimiter } from './rate-limiter';
+import { capabilityPath, generateAgentsJson } from './agents-json';
+import { resolveSessionScope, SessionManager, SessionScope } from './session';
+import { RateLimiter, RateLimitResult } from './rate-limiter';
 import { AuditManager } from './audit';
+import { AuditAccessControl } from './audit-access';
+import { ApprovalManager } from './approval';
+import { AgentAuthenticator } from './agent-auth';
+import { systemClock, withoutTimers } from './clock';
+import { compilePatterns, validateParams } from './validation';
+import { publishLimits, remainingQuota, resolveSessionLimits } from './limits';
+import { cartSubtotal } from './capabilities/cart';
+import { formatManifestIssue, validateManifest } from '@agents-protocol/client';
+import {
+  AgentError,
+  ConflictError,
+  ForbiddenError,
+  InvalidParamsError,
+  NotFoundError,
+  RateLimitedError,
+  UnauthorizedError,
+  UpstreamError,
+} from './errors';
 import { PolicyDeniedError } from '@rer/core';
 
 interface RouteEntry {
   method: string;
   pattern: string;
+  /** Set on capability routes, to name them in collision errors */
+  capability?: string;
   handler: (req: AgentRequest) => Promise<InternalResponse>;
 }
 
@@ -35,24 +60,62 @@ export class AgentDoor {
   private sessionManager: SessionManager;
   private rateLimiter: RateLimiter;
   private auditManager: AuditManager | null;
+  private auditAccess: AuditAccessControl | null;
+  private approvalManager: ApprovalManager | null;
+  private agentAuth: AgentAuthenticator | null;
+  private clock: Clock;
   private rateLimit: number;
   private agentsTxt: string;
   private agentsJson: object;
+  private agentsJsonKeyId: string | null = null;
   private agentsJsonPath: string;
   private routes: RouteEntry[];
+  /** Tail of each session's capability calls in flight, so they run one after another */
+  private sessionCalls = new Map<string, Promise<unknown>>();
 
   constructor(config: AgentDoorConfig) {
     this.config = config;
     this.basePath = config.basePath ?? '/.well-known';
     this.capabilities = config.capabilities.flat();
+    // Checked before any store or timer exists, so a bad config leaves nothing running.
+    this.agentsJson = generateAgentsJson(config);
+    assertValidManifest(this.agentsJson);
+    assertValidPatterns(this.capabilities);
+    if (config.limits && !config.audit) {
+      throw new Error('Session limits are enforced by the audit runtime; set audit to enable them');
+    }
+    if (config.sessionMaxLifetime !== undefined && config.sessionMaxLifetime < (config.sessionTtl ?? 3600)) {
+      throw new Error('sessionMaxLifetime must be at least sessionTtl');
+    }
+    if (config.statelessSessions && config.sessionStore) {
+      throw new Error('Stateless sessions are not kept in a sessionStore; set one or the other');
+    }
+    this.routes = this.buildRoutes();
     this.rateLimit = config.rateLimit ?? 60;
-    this.sessionManager = new SessionManager(config.sessionTtl ?? 3600, this.capabilities);
-    this.rateLimiter = new RateLimiter();
-    this.auditManager = config.audit ? new AuditManager(config.sessionTtl ?? 3600) : null;
+    this.clock = config.backgroundSweeps === false ? withoutTimers(config.clock) : config.clock ?? systemClock;
+    this.sessionManager = new SessionManager(
+      config.sessionTtl ?? 3600,
+      this.capabilities,
+      config.sessionStore,
+      config.sessionMaxLifetime,
+      config.statelessSessions,
+      this.clock,
+    );
+    this.rateLimiter = new RateLimiter({
+      algorithm: config.rateLimitAlgorithm,
+      store: config.rateLimitStore,
+      clock: this.clock,
+    });
+    const auditOptions = config.audit === true ? {} : config.audit || null;
+    // Access control first: a bad access config throws before the audit timer starts.
+    this.auditAccess = auditOptions ? new AuditAccessControl(auditOptions, this.clock) : null;
+    this.auditManager = auditOptions ? new AuditManager(config.sessionTtl ?? 3600, auditOptions, this.clock) : null;
+    this.approvalManager = this.capabilities.some(c => c.requiresApproval)
+      ? new ApprovalManager(config.approvals, this.clock)
+      : null;
+    this.agentAuth = config.agentAuth ? new AgentAuthenticator(config.agentAuth) : null;
     this.agentsTxt = generateAgentsTxt(config);
-    this.agentsJson = generateAgentsJson(config);
     this.agentsJsonPath = `${this.basePath}/agents.json`;
-    this.routes = this.buildRoutes();
   }
 
   // ─── Static factory: build from OpenAPI spec ────────────────────────────────
@@ -82,37 +145,38 @@ export class AgentDoor {
 
         const params: NonNullable<CapabilityDefinition['params']> = {};
 
+        // Path params follow the capability's own route, so getPet at `/pets/{id}` serves `/getPet/:id`.
+        const pathParamNames: string[] = [];
         for (const p of operation.parameters ?? []) {
           if (p.in === 'query' || p.in === 'path') {
-            params[p.name] = {
-              type: p.schema?.type ?? 'string',
-              required: p.required ?? false,
-              description: p.description,
-              ...(p.schema?.enum && { enum: p.schema.enum }),
-              ...(p.schema?.default != null && { default: p.schema.default }),
-            };
+            params[p.name] = toParamDefinition(p.schema ?? {}, p.in === 'path' || (p.required ?? false), p.description);
           }
+          if (p.in === 'path') pathParamNames.push(p.name);
         }
 
         const bodySchema = operation.requestBody?.content?.['application/json']?.schema;
         if (bodySchema?.properties) {
           const required = new Set(bodySchema.required ?? []);
           for (const [propName, prop] of Object.entries(bodySchema.properties)) {
-            params[propName] = {
-              type: prop.type ?? 'string',
-              required: required.has(propName),
-              description: prop.description,
-            };
+            params[propName] = toParamDefinition(prop, required.has(propName));
           }
         }
 
+        const successResponse = Object.entries(operation.responses ?? {})
+          .find(([status]) => /^2\d\d$/.test(status))?.[1];
+        const outputSchema = successResponse?.content?.['application/json']?.schema;
+
         const targetPath = path;
 
         capabilities.push({
           name,
           description: operation.summary ?? `${httpMethod.toUpperCase()} ${path}`,
           method,
+          ...(pathParamNames.length > 0 && {
+            path: `/${name.split('.').join('/')}${pathParamNames.map(p => `/:${p}`).join('')}`,
+          }),
           params: Object.keys(params).length > 0 ? params : undefined,
+          ...(outputSchema && { outputSchema }),
           handler: async (req) => {
             let resolvedPath = targetPath;
             for (const [k, v] of Object.entries(req.params)) {
@@ -132,10 +196,16 @@ export class AgentDoor {
               init.headers = { 'Content-Type': 'application/json' };
             }
 
-            const response = await fetch(url.toString(), init);
+            let response: globalThis.Response;
+            try {
+              response = await fetch(url.toString(), init);
+            } catch (err) {
+              const reason = err instanceof Error ? err.message : String(err);
+              throw new UpstreamError(`Upstream request failed: ${reason}`, undefined, { cause: err });
+            }
             if (!response.ok) {
               const text = await response.text().catch(() => response.statusText);
-              throw new Error(`Upstream ${response.status}: ${text}`);
+              throw upstreamError(response.status, text);
             }
             return response.json();
           },
@@ -163,7 +233,8 @@ export class AgentDoor {
       res.setHeader('Link', `<${this.agentsJsonPath}>; rel="${AGENTS_REL}"`);
       res.setHeader('Access-Control-Allow-Origin', '*');
       res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Session-Token');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-Session-Token, X-Approval-Id, Signature-Input, Signature, Content-Digest');
+      res.setHeader('Access-Control-Expose-Headers', 'X-Session-Token');
 
       if (req.method === 'OPTIONS') {
         res.status(204).end();
@@ -211,7 +282,7 @@ export class AgentDoor {
       const result = await this.dispatch(agentReq);
 
       if (result === null) {
-        return new globalThis.Response(JSON.stringify({ ok: false, error: 'Not found' }), {
+        return new globalThis.Response(JSON.stringify(new NotFoundError()), {
           status: 404,
           headers: { 'Content-Type': 'application/json', ...corsHeaders(agentsJsonPath) },
         });
@@ -238,7 +309,13 @@ export class AgentDoor {
       const match = matchRoute(route.pattern, req.path);
       if (match && route.method === req.method) {
         req.params = { ...req.params, ...match.params };
-        return route.handler(req);
+        try {
+          return await route.handler(req);
+        } catch (err) {
+          // Handlers answer the errors they expect; this is a failing store or a bug.
+          console.error(`[AgentDoor] ${req.method} ${req.path} failed:`, err);
+          return errorResponse(new AgentError('internal_error', 'Internal server error', { status: 500, retryable: true }));
+        }
       }
     }
     return null;
@@ -253,105 +330,410 @@ export class AgentDoor {
     routes.push({
       method: 'GET',
       pattern: `${this.basePath}/agents.txt`,
-      handler: async () => ({ status: 200, body: this.agentsTxt, contentType: 'text/plain' }),
+      handler: async () => ({ status: 200, body: this.agentsTxt, contentType: 'text/plain; charset=utf-8' }),
     });
 
     routes.push({
       method: 'GET',
       pattern: `${this.basePath}/agents.json`,
-      handler: async () => ({ status: 200, body: this.agentsJson }),
+      handler: async () => ({ status: 200, body: this.currentAgentsJson() }),
     });
 
     routes.push({
       method: 'POST',
       pattern: `${apiBase}/session`,
       handler: async (req) => {
-        const rate = this.checkRate(req);
-        if (!rate.allowed) return rateLimitResponse(rate.resetAt);
-        const result = this.sessionManager.createSession(this.config.site.url);
+        const rate = await this.checkRate(req);
+        if (!rate.allowed) return rateLimitResponse(rate, this.clock.now());
+        const agentError = await this.checkAgent(req, null);
+        if (agentError) return errorResponse(agentError);
+        const body = (req.body ?? {}) as Record<string, unknown>;
+        if (body.limits !== undefined && !this.auditManager) {
+          return errorResponse(new InvalidParamsError('This site does not enforce session limits'));
+        }
+        const names = this.capabilities.map(c => c.name);
+        let scope: SessionScope;
+        let limits: SessionLimits;
+        try {
+          scope = resolveSessionScope(body, names);
+          limits = resolveSessionLimits(this.config.limits ?? {}, body.limits, names);
+        } catch (err) {
+          return errorResponse(toAgentError(err));
+        }
+        const published = publishLimits(limits);
+        const result = await this.sessionManager.createSession(
+          this.config.site.url,
+          scope,
+          req.agent,
+          published ? limits : undefined,
+        );
         if (this.auditManager) {
-          this.auditManager.startSession(result.sessionToken, this.config.site.url, result.capabilities);
+          this.auditManager.startSession(
+            result.sessionId,
+            result.sessionToken,
+            this.config.site.url,
+            result.capabilities,
+            {
+              approvalTools: this.capabilities
+                .filter(c => c.requiresApproval && result.capabilities.includes(c.name))
+                .map(c => c.name),
+              deniedTools: scope.denied,
+              limits,
+              expiresAt: result.expiresAt,
+              maxExpiresAt: result.maxExpiresAt,
+              agent: req.agent,
+            },
+          );
         }
         return {
           status: 200,
           body: {
             ok: true,
             data: {
+              session_id: result.sessionId,
               session_token: result.sessionToken,
               expires_at: result.expiresAt.toISOString(),
+              max_expires_at: result.maxExpiresAt.toISOString(),
               capabilities: result.capabilities,
-              ...(this.auditManager && { audit: true }),
+              ...(published && { limits: published }),
+              ...(req.agent && { agent_id: req.agent.agentId }),
+              ...(this.auditManager && {
+                audit: true,
+                audit_artifact_url: `${apiBase}/audit/${result.sessionId}`,
+              }),
             },
           },
         };
       },
     });
 
+    routes.push({
+      method: 'GET',
+      pattern: `${apiBase}/session`,
+      handler: async (req) => {
+        const rate = await this.checkRate(req);
+        if (!rate.allowed) return rateLimitResponse(rate, this.clock.now());
+        const token = extractToken(req);
+        if (!token) return errorResponse(new UnauthorizedError());
+        const session = await this.sessionManager.validateSession(token);
+        if (!session) return errorResponse(new UnauthorizedError('Invalid or expired session', 'session_invalid'));
+        const agentError = await this.checkAgent(req, session);
+        if (agentError) return errorResponse(agentError);
+        return { status: 200, body: { ok: true, data: this.sessionStatus(session) } };
+      },
+    });
+
+    routes.push({
+      method: 'POST',
+      pattern: `${apiBase}/session/refresh`,
+      handler: async (req) => {
+        const rate = await this.checkRate(req);
+        if (!rate.allowed) return rateLimitResponse(rate, this.clock.now());
+        const token = extractToken(req);
+        if (!token) return errorResponse(new UnauthorizedError());
+        const session = await this.sessionManager.validateSession(token);
+        if (!session) return errorResponse(new UnauthorizedError('Invalid or expired session', 'session_invalid'));
+        const agentError = await this.checkAgent(req, session);
+        if (agentError) return errorResponse(agentError);
+        await this.extendSession(session);
+        return {
+          status: 200,
+          body: { ok: true, data: this.sessionStatus(session) },
+          ...reissuedToken(session, token),
+        };
+      },
+    });
+
     routes.push({
       method: 'DELETE',
       pattern: `${apiBase}/session`,
       handler: async (req) => {
-        const rate = this.checkRate(req);
-        if (!rate.allowed) return rateLimitResponse(rate.resetAt);
+        const rate = await this.checkRate(req);
+        if (!rate.allowed) return rateLimitResponse(rate, this.clock.now());
         const token = extractToken(req);
-        if (!token) return { status: 401, body: { ok: false, error: 'Missing session token' } };
-        if (this.auditManager) this.auditManager.endSession(token);
-        this.sessionManager.endSession(token);
-        return { status: 200, body: { ok: true, data: { ended: true } } };
+        if (!token) return errorResponse(new UnauthorizedError());
+        // An expired or unknown token has nothing to seal; the audit sweep seals expired sessions.
+        const session = await this.sessionManager.validateSession(token);
+        const agentError = await this.checkAgent(req, session);
+        if (agentError) return errorResponse(agentError);
+        const sealed = this.auditManager && session ? await this.auditManager.endSession(session.sessionId) : null;
+        await this.sessionManager.endSession(token);
+        return {
+          status: 200,
+          body: {
+            ok: true,
+            data: {
+              ended: true,
+              ...(sealed && {
+                session_id: session!.sessionId,
+                audit_artifact_url: `${apiBase}/audit/${session!.sessionId}`,
+                ...(this.auditAccess!.issuesProofTokens && {
+                  audit_access_token: this.auditAccess!.issueProof(session!.sessionId),
+                }),
+              }),
+            },
+          },
+        };
       },
     });
 
-    if (this.auditManager) {
+    if (this.config.audit) {
+      // keys and live are registered before audit/:session_id, which would otherwise match them.
+      routes.push({
+        method: 'GET',
+        pattern: `${apiBase}/audit/keys`,
+        handler: async () => ({ status: 200, body: { keys: this.auditManager!.getPublishedKeys() } }),
+      });
+
+      // The caller's own session only; the live chain is not public until it is sealed.
+      routes.push({
+        method: 'GET',
+        pattern: `${apiBase}/audit/live`,
+        handler: async (req) => {
+          const rate = await this.checkRate(req);
+          if (!rate.allowed) return rateLimitResponse(rate, this.clock.now());
+          const token = extractToken(req);
+          if (!token) return errorResponse(new UnauthorizedError());
+          const session = await this.sessionManager.validateSession(token);
+          if (!session) {
+            return errorResponse(new UnauthorizedError('Invalid or expired session', 'session_invalid'));
+          }
+          const agentError = await this.checkAgent(req, session);
+          if (agentError) return errorResponse(agentError);
+          const log = this.auditManager!.getLiveLog(session.sessionId);
+          if (!log) return errorResponse(new NotFoundError('No audit log is recording for this session'));
+          return { status: 200, body: { ok: true, data: log } };
+        },
+      });
+
       routes.push({
         method: 'GET',
         pattern: `${apiBase}/audit/:session_id`,
         handler: async (req) => {
-          const rate = this.checkRate(req);
-        if (!rate.allowed) return rateLimitResponse(rate.resetAt);
-          const artifact = this.auditManager!.getArtifact(req.params.session_id);
-          if (!artifact) return { status: 404, body: { ok: false, error: 'Audit artifact not found' } };
-          return { status: 200, body: { ok: true, data: artifact } };
+          const rate = await this.checkRate(req);
+          if (!rate.allowed) return rateLimitResponse(rate, this.clock.now());
+          const denied = await this.checkAuditAccess(req);
+          if (denied) return errorResponse(denied);
+          const artifact = await this.auditManager!.getArtifact(req.params.session_id);
+          if (artifact) return { status: 200, body: { ok: true, data: artifact } };
+          if (this.auditManager!.isActive(req.params.session_id)) {
+            // Not retryable: the artifact appears only after the agent ends the session.
+            return errorResponse(new AgentError('session_active', 'Session is still active; end it to seal the artifact', {
+              status: 425,
+              details: { live_endpoint: `${apiBase}/audit/live` },
+            }));
+          }
+          return errorResponse(new NotFoundError('Audit artifact not found'));
+        },
+      });
+
+      // Anyone allowed to download the artifact may hand out a time-limited link to it.
+      routes.push({
+        method: 'POST',
+        pattern: `${apiBase}/audit/:session_id/link`,
+        handler: async (req) => {
+          const rate = await this.checkRate(req);
+          if (!rate.allowed) return rateLimitResponse(rate, this.clock.now());
+          const sessionId = req.params.session_id;
+          const denied = await this.checkAuditAccess({ ...req, query: {} });
+          if (denied) return errorResponse(denied);
+          const ttl = req.body?.ttl;
+          if (ttl !== undefined && !(typeof ttl === 'number' && ttl > 0)) {
+            return errorResponse(new InvalidParamsError('ttl must be a positive number of seconds'));
+          }
+          if (!this.auditManager!.isActive(sessionId) && !(await this.auditManager!.getArtifact(sessionId))) {
+            return errorResponse(new NotFoundError('Audit artifact not found'));
+          }
+          const link = this.createAuditLink(sessionId, ttl);
+          return { status: 200, body: { ok: true, data: { url: link.url, expires_at: link.expiresAt.toISOString() } } };
+        },
+      });
+    }
+
+    if (this.capabilities.some(c => c.requiresApproval)) {
+      // The agent that made the call polls here; the operator and the decision token holder also decide here.
+      routes.push({
+        method: 'GET',
+        pattern: `${apiBase}/approvals/:approval_id`,
+        handler: async (req) => {
+          const rate = await this.checkRate(req);
+          if (!rate.allowed) return rateLimitResponse(rate, this.clock.now());
+          const approval = await this.approvalManager!.get(req.params.approval_id);
+          if (!approval) return errorResponse(new NotFoundError('Approval request not found'));
+          const credential = extractToken(req);
+          if (!this.approvalManager!.decider(approval, credential)) {
+            const session = credential ? await this.sessionManager.validateSession(credential) : null;
+            if (session?.sessionId !== approval.sessionId) return errorResponse(approvalAccessError(credential));
+            const agentError = await this.checkAgent(req, session);
+            if (agentError) return errorResponse(agentError);
+          }
+          const statusUrl = `${apiBase}/approvals/${approval.id}`;
+          return { status: 200, body: { ok: true, data: this.approvalManager!.describe(approval, statusUrl, this.config.site.url) } };
+        },
+      });
+
+      routes.push({
+        method: 'POST',
+        pattern: `${apiBase}/approvals/:approval_id`,
+        handler: async (req) => {
+          const rate = await this.checkRate(req);
+          if (!rate.allowed) return rateLimitResponse(rate, this.clock.now());
+          const { decision, reason } = req.body ?? {};
+          if (decision !== 'approve' && decision !== 'deny') {
+            return errorResponse(new InvalidParamsError('decision must be "approve" or "deny"'));
+          }
+          if (reason !== undefined && typeof reason !== 'string') {
+            return errorResponse(new InvalidParamsError('reason must be a string'));
+          }
+          const approval = await this.approvalManager!.get(req.params.approval_id);
+          if (!approval) return errorResponse(new NotFoundError('Approval request not found'));
+          const credential = extractToken(req);
+          const decidedBy = this.approvalManager!.decider(approval, credential);
+          if (!decidedBy) return errorResponse(approvalAccessError(credential));
+          // People decide, and they do not sign; a signature that is sent must still verify.
+          if (req.headers['signature-input'] !== undefined || req.headers['signature'] !== undefined) {
+            const agentError = await this.checkAgent(req, null);
+            if (agentError) return errorResponse(agentError);
+          }
+
+          try {
+            const decided = await this.approvalManager!.decide(approval.id, decision, decidedBy, reason, async (a) => {
+              if (!this.auditManager) return;
+              const recorded = await this.auditManager.recordApproval(a.sessionId, {
+                approval_id: a.id,
+                capability: a.capability,
+                decision: a.status === 'approved' ? 'approved' : 'denied',
+                decided_by: decidedBy,
+                ...(a.reason && { reason: a.reason }),
+              });
+              if (!recorded) throw new ConflictError('The session waiting for this approval has ended');
+            });
+            const statusUrl = `${apiBase}/approvals/${decided.id}`;
+            return { status: 200, body: { ok: true, data: this.approvalManager!.describe(decided, statusUrl, this.config.site.url) } };
+          } catch (err) {
+            return errorResponse(toAgentError(err));
+          }
         },
       });
     }
 
     for (const cap of this.capabilities) {
-      const pattern = capabilityRoute(cap, apiBase);
+      if (cap.path !== undefined && !cap.path.startsWith('/')) {
+        throw new Error(`Capability ${cap.name} has path "${cap.path}", which must start with "/"`);
+      }
+      const pattern = `${apiBase}${capabilityPath(cap)}`;
+      const taken = routes.find(r => r.method === cap.method && routesOverlap(r.pattern, pattern));
+      if (taken) {
+        throw new Error(
+          `Capability ${cap.name} (${cap.method} ${pattern}) collides with `
+          + (taken.capability ? `capability ${taken.capability} (${taken.pattern})` : `the built-in route ${taken.pattern}`),
+        );
+      }
       routes.push({
         method: cap.method,
         pattern,
+        capability: cap.name,
         handler: async (req) => {
-          const rate = this.checkRate(req);
-        if (!rate.allowed) return rateLimitResponse(rate.resetAt);
-
-          let session: SessionData | null = null;
-          if (cap.requiresSession) {
-            const token = extractToken(req);
-            if (!token) return { status: 401, body: { ok: false, error: 'Missing session token' } };
-            session = this.sessionManager.validateSession(token);
-            if (!session) return { status: 401, body: { ok: false, error: 'Invalid or expired session' } };
+          // Resolve the session up front so a valid token can key the rate limit.
+          const token = extractToken(req);
+          const tokenSession = token ? await this.sessionManager.validateSession(token) : null;
+
+          const rate = await this.checkRate(req, tokenSession, cap);
+          if (!rate.allowed) return rateLimitResponse(rate, this.clock.now());
+
+          // A valid token ties even an open capability's call to its session, so it
+          // is recorded and counted against the session's limits.
+          const session: SessionData | null = tokenSession;
+          if (cap.requiresSession || cap.requiresApproval) {
+            if (!token) return errorResponse(new UnauthorizedError());
+            if (!session) {
+              return errorResponse(new UnauthorizedError('Invalid or expired session', 'session_invalid'));
+            }
+          }
+          const agentError = await this.checkAgent(req, session);
+          if (agentError) return errorResponse(agentError);
+          if (session && !session.capabilities.includes(cap.name)) {
+            return errorResponse(new AgentError(
+              'out_of_scope',
+              `This session was created without the ${cap.name} capability`,
+              { status: 403, details: { capability: cap.name, session_capabilities: session.capabilities } },
+            ));
+          }
+          // Only the instance recording a session can count its calls and spend.
+          if (session?.limits && !this.auditManager?.isActive(session.sessionId)) {
+            return errorResponse(new AgentError(
+              'session_not_recorded',
+              'This server is not recording the session, so it cannot enforce the session\'s limits',
+              { status: 409, details: { session_id: session.sessionId } },
+            ));
           }
+          if (session && this.config.slidingExpiry) await this.extendSession(session);
 
-          try {
+          const { values, errors } = validateParams(cap.params, collectInput(req));
+          if (errors.length > 0) {
+            return errorResponse(new InvalidParamsError(
+              `Invalid parameters: ${errors.map(e => e.message).join('; ')}`,
+              { fields: errors },
+            ));
+          }
+          req.input = values;
+
+          const call = async (): Promise<InternalResponse> => {
+            // Calls queued behind this one may have changed the cart since the session was read.
+            if (session && token) {
+              const latest = await this.sessionManager.validateSession(token);
+              if (!latest) return errorResponse(new UnauthorizedError('Invalid or expired session', 'session_invalid'));
+              session.cartItems = latest.cartItems;
+            }
+            const approvalId = cap.requiresApproval ? req.headers['x-approval-id'] : undefined;
+            if (cap.requiresApproval && !approvalId) return this.holdForApproval(req, cap, session!, apiBase);
+            const run = async () => {
+              // Spent only once the call is charged, so a call past the session's limits leaves it unused.
+              if (approvalId) await this.approvalManager!.consume(approvalId, session!.sessionId, cap.name, req.input);
+              return cap.handler(req, session);
+            };
+            const cartBefore = session?.cartItems;
             let data: unknown;
             if (this.auditManager && session) {
+              const auditManager = this.auditManager;
               const requestData = cap.method === 'GET'
                 ? { ...req.query, ...req.params }
                 : { ...req.body, ...req.params };
-              data = await this.auditManager.callCapability(
-                session.sessionToken,
+              data = await auditManager.callCapability(
+                session.sessionId,
                 cap.name,
                 requestData,
-                () => cap.handler(req, session),
+                async () => {
+                  // A handoff commits the cart, so its cost is checked before the site acts on it.
+                  const cartCost = cartSpend(session.cartItems);
+                  if (cap.humanHandoff) auditManager.checkSpend(session.sessionId, cartCost);
+                  const result = await run();
+                  // An overrun throws before the cart is saved, so the session keeps its old cart.
+                  if (cap.humanHandoff) {
+                    const spend = handoffTotal(result) ?? cartCost;
+                    auditManager.checkSpend(session.sessionId, spend);
+                    auditManager.commitSpend(session.sessionId, spend);
+                  } else {
+                    auditManager.checkSpend(session.sessionId, cartSpend(session.cartItems));
+                  }
+                  return result;
+                },
+                cap.params,
               );
             } else {
-              data = await cap.handler(req, session);
+              data = await run();
+            }
+            // Handlers work on a snapshot; a new cartItems array means the cart changed.
+            if (session && session.cartItems !== cartBefore) {
+              await this.sessionManager.updateSession(session);
             }
-            return { status: 200, body: { ok: true, data } };
+            return { status: 200, body: { ok: true, data }, ...reissuedToken(session, token) };
+          };
+
+          try {
+            return await (session ? this.inSessionOrder(session.sessionId, call) : call());
           } catch (err: unknown) {
-            const message = err instanceof Error ? err.message : 'Unknown error';
-            const status = err instanceof PolicyDeniedError ? 403 : 400;
-            return { status, body: { ok: false, error: message } };
+            return errorResponse(toAgentError(err), reissuedToken(session, token).headers);
           }
         },
       });
@@ -360,6 +742,16 @@ export class AgentDoor {
     return routes;
   }
 
+  /** agents.json carrying the key that signs new sessions, which changes when the audit key rotates. */
+  private currentAgentsJson(): object {
+    const key = this.auditManager?.getPublicKeyInfo();
+    if (key && key.keyId !== this.agentsJsonKeyId) {
+      this.agentsJson = generateAgentsJson(this.config, key);
+      this.agentsJsonKeyId = key.keyId;
+    }
+    return this.agentsJson;
+  }
+
   // ─── HTML link injection (Express) ───────────────────────────────────────────
 
   private injectHtmlLink(res: Response): void {
@@ -375,39 +767,278 @@ export class AgentDoor {
     };
   }
 
-  private checkRate(req: AgentRequest): { allowed: boolean; remaining: number; resetAt: number } {
-    return this.rateLimiter.checkRateLimit(req.ip ?? 'unknown', this.rateLimit);
+  /**
+   * Charge the site-wide budget and, if the capability declares one, its own budget.
+   * Both are keyed by session when a valid session token was sent — an unverified
+   * token must not buy a fresh budget — and by client IP otherwise. Sessions are
+   * keyed by their ID, which stays put when a stateless session's token is reissued.
+   */
+  private async checkRate(
+    req: AgentRequest,
+    session: SessionData | null = null,
+    cap?: CapabilityDefinition,
+  ): Promise<RateLimitResult> {
+    const subject = session
+      ? `session:${session.sessionId}`
+      : `ip:${req.ip ?? 'unknown'}`;
+
+    const global = await this.rateLimiter.checkRateLimit(subject, this.rateLimit);
+    if (!global.allowed || !cap?.rateLimit) return global;
+
+    const { requestsPerMinute, burst } = cap.rateLimit;
+    return this.rateLimiter.checkRateLimit(`cap:${cap.name}:${subject}`, requestsPerMinute, burst);
+  }
+
+  /**
+   * Signed, time-limited URL of a session's audit artifact that works without
+   * credentials, e.g. for an agent to hand to its user. `ttlSeconds` is capped
+   * at `audit.downloadLinkTtl`.
+   */
+  createAuditLink(sessionId: string, ttlSeconds?: number): { url: string; expiresAt: Date } {
+    if (!this.auditAccess) throw new Error('Audit is not enabled');
+    const { query, expiresAt } = this.auditAccess.signLink(sessionId, ttlSeconds);
+    const path = `${this.basePath}/agents/api/audit/${encodeURIComponent(sessionId)}?${query}`;
+    return { url: new URL(path, this.config.site.url).toString(), expiresAt };
+  }
+
+  /** Hold a call that needs approval and names none to spend: 202 with a new pending request. */
+  private async holdForApproval(
+    req: AgentRequest,
+    cap: CapabilityDefinition,
+    session: SessionData,
+    apiBase: string,
+  ): Promise<InternalResponse> {
+    const approval = await this.approvalManager!.request(session.sessionId, cap.name, req.input, session.expiresAt);
+    await this.auditManager?.recordApproval(session.sessionId, {
+      approval_id: approval.id,
+      capability: cap.name,
+      decision: 'requested',
+    });
+    const statusUrl = `${apiBase}/approvals/${approval.id}`;
+    return { status: 202, body: { ok: true, approval: this.approvalManager!.describe(approval, statusUrl, this.config.site.url) } };
+  }
+
+  /**
+   * Run a session's capability calls one at a time, so a handler that rewrites the
+   * cart starts from the cart the previous call saved rather than overwriting it.
+   * Only orders calls within this process.
+   */
+  private async inSessionOrder<T>(sessionId: string, call: () => Promise<T>): Promise<T> {
+    const result = (this.sessionCalls.get(sessionId) ?? Promise.resolve()).then(call);
+    const tail = result.catch(() => {});
+    this.sessionCalls.set(sessionId, tail);
+    try {
+      return await result;
+    } finally {
+      if (this.sessionCalls.get(sessionId) === tail) this.sessionCalls.delete(sessionId);
+    }
+  }
+
+  /** Push a session's expiry out by one TTL, up to its deadline, and let the audit sweep follow. */
+  private async extendSession(session: SessionData): Promise<void> {
+    const expiresAt = await this.sessionManager.refreshSession(session);
+    this.auditManager?.extendSession(session.sessionId, expiresAt);
+  }
+
+  /**
+   * The `GET /session` view: lifetime, scope, cart size and the session's limits,
+   * with what is left of them when this instance is the one counting.
+   */
+  private sessionStatus(session: SessionData): Record<string, unknown> {
+    const usage = this.auditManager?.getUsage(session.sessionId) ?? null;
+    const limits = session.limits && publishLimits(session.limits);
+    const remaining = usage && remainingQuota(usage, cartSpend(session.cartItems));
+    return {
+      session_id: session.sessionId,
+      created_at: session.createdAt.toISOString(),
+      expires_at: session.expiresAt.toISOString(),
+      max_expires_at: (session.maxExpiresAt ?? session.expiresAt).toISOString(),
+      capabilities: session.capabilities,
+      cart_items: session.cartItems.length,
+      ...(limits && { limits }),
+      ...(remaining && { remaining }),
+      ...(session.agent && { agent_id: session.agent.agentId }),
+    };
+  }
+
+  /**
+   * Identify the agent that signed `req` into `req.agent`. Null when the request may
+   * go on: any signature verified, and a session that belongs to an agent is used by it.
+   */
+  private async checkAgent(req: AgentRequest, session: SessionData | null): Promise<AgentError | null> {
+    if (this.agentAuth) {
+      try {
+        req.agent = (await this.agentAuth.authenticate(req, this.clock.now())) ?? undefined;
+      } catch (err) {
+        return toAgentError(err);
+      }
+    }
+    const owner = session?.agent;
+    if (!owner) return null;
+    if (!req.agent) {
+      return new UnauthorizedError(
+        `This session belongs to agent ${owner.agentId}; sign the request with its key`,
+        'agent_auth_required',
+      );
+    }
+    if (req.agent.agentId !== owner.agentId) {
+      return new AgentError('agent_mismatch', `This session belongs to agent ${owner.agentId}`, {
+        status: 403,
+        details: { session_agent: owner.agentId, request_agent: req.agent.agentId },
+      });
+    }
+    return null;
+  }
+
+  /** Null when the request may read the artifact named by its `session_id` param. */
+  private async checkAuditAccess(req: AgentRequest): Promise<AgentError | null> {
+    const credential = extractToken(req);
+    const { expires, signature } = req.query;
+    // Only a live session token can name its own session; anything else is left to the proof check.
+    const live = credential ? await this.sessionManager.validateSession(credential) : null;
+    const grant = this.auditAccess!.authorize(req.params.session_id, {
+      credential,
+      expires,
+      signature,
+      liveSessionId: live?.sessionId,
+    });
+    // Reading through a live session is using its token, which only the session's agent may do.
+    if (grant === 'holder' && live?.sessionId === req.params.session_id) return this.checkAgent(req, live);
+    if (grant) return null;
+    if (expires !== undefined || signature !== undefined) {
+      return new ForbiddenError('Download link is invalid or has expired');
+    }
+    if (!credential) {
+      return new UnauthorizedError('This audit artifact requires a proof token or operator credential', 'audit_auth_required');
+    }
+    return new ForbiddenError('Credential does not grant access to this audit artifact');
   }
 
-  destroy(): void {
+  /**
+   * Drop expired sessions and rate-limit counters, seal expired audit sessions and
+   * delete artifacts past retention. Timers do this on their own; with
+   * `backgroundSweeps: false`, call it from a scheduled job instead.
+   */
+  async sweep(): Promise<void> {
+    this.rateLimiter.sweep();
+    await this.sessionManager.sweep();
+    await this.auditManager?.sweep();
+  }
+
+  /** Stop timers; resolves once open audit sessions have been sealed and stored. */
+  async destroy(): Promise<void> {
     this.sessionManager.destroy();
     this.rateLimiter.destroy();
-    this.auditManager?.destroy();
+    await this.auditManager?.destroy();
   }
 }
 
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
+/** Throw with every schema error, so a misconfigured site fails at startup rather than confusing agents. */
+function assertValidManifest(agentsJson: object): void {
+  const { errors } = validateManifest(agentsJson);
+  if (errors.length === 0) return;
+  throw new Error(
+    `AgentDoor config produces an invalid agents.json:\n${errors.map(e => `  ${formatManifestIssue(e)}`).join('\n')}`,
+  );
+}
+
+/** Compile param patterns once, here, so a bad one fails at startup instead of on every call. */
+function assertValidPatterns(capabilities: CapabilityDefinition[]): void {
+  const problems = capabilities.flatMap(cap => compilePatterns(cap.params).map(e => `  ${cap.name}: ${e.message}`));
+  if (problems.length === 0) return;
+  throw new Error(`AgentDoor config has invalid param patterns:\n${problems.join('\n')}`);
+}
+
+/**
+ * What a cart counts for against the spend cap. Negative prices and quantities count
+ * as zero, so a line written by a custom cart handler cannot offset the others.
+ */
+function cartSpend(items: CartItem[]): number {
+  return cartSubtotal(items.map(item => ({
+    ...item,
+    quantity: Math.max(0, item.quantity),
+    ...(item.price !== undefined && { price: Math.max(0, item.price) }),
+  })));
+}
+
+/** The total a handoff reports the buyer will pay, e.g. with shipping and tax. */
+function handoffTotal(data: unknown): number | undefined {
+  const total = (data as { total?: unknown } | null)?.total;
+  return typeof total === 'number' ? total : undefined;
+}
+
+function approvalAccessError(credential: string | null): AgentError {
+  if (!credential) {
+    return new UnauthorizedError('Send the operator credential, the decision token or the session token', 'approval_auth_required');
+  }
+  return new ForbiddenError('Credential does not grant access to this approval request');
+}
+
 function corsHeaders(agentsJsonPath: string): Record<string, string> {
   return {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, POST, PUT, PATCH, DELETE, OPTIONS',
-    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Session-Token',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Session-Token, X-Approval-Id, Signature-Input, Signature, Content-Digest',
+    'Access-Control-Expose-Headers': 'X-Session-Token',
     'Link': `<${agentsJsonPath}>; rel="agents"`,
   };
 }
 
-function rateLimitResponse(resetAt: number): InternalResponse {
-  const retryAfter = String(Math.max(1, Math.ceil((resetAt - Date.now()) / 1000)));
-  return {
-    status: 429,
-    body: { ok: false, error: 'Rate limit exceeded' },
-    headers: {
-      'Retry-After': retryAfter,
-      'X-RateLimit-Remaining': '0',
-      'X-RateLimit-Reset': String(Math.ceil(resetAt / 1000)),
-    },
+/**
+ * The `X-Session-Token` header for a session whose token changed while serving the
+ * request, as a stateless session's does when its cart or expiry moves.
+ */
+function reissuedToken(session: SessionData | null, sentToken: string | null): { headers?: Record<string, string> } {
+  if (!session || session.sessionToken === sentToken) return {};
+  return { headers: { 'X-Session-Token': session.sessionToken } };
+}
+
+function errorResponse(err: AgentError, headers?: Record<string, string>): InternalResponse {
+  return { status: err.status, body: err.toJSON(), ...(headers && { headers }) };
+}
+
+/** Handlers may throw anything; only AgentErrors choose their own status and code. */
+function toAgentError(err: unknown): AgentError {
+  if (err instanceof AgentError) return err;
+  const message = err instanceof Error ? err.message : 'Unknown error';
+  if (err instanceof PolicyDeniedError) return new AgentError('policy_denied', message, { status: 403 });
+  return new AgentError('capability_failed', message, { status: 400 });
+}
+
+/** Map a failed upstream response from a `fromOpenAPI` proxy onto the matching agent error. */
+function upstreamError(status: number, text: string): AgentError {
+  const details = { upstream_status: status };
+  if (status === 404) return new NotFoundError(text || 'Not found', details);
+  if (status === 400 || status === 422) return new InvalidParamsError(text || 'Invalid parameters', details);
+  return new UpstreamError(`Upstream ${status}: ${text}`, status);
+}
+
+function rateLimitResponse(rate: RateLimitResult, now: number): InternalResponse {
+  const retryAfter = Math.max(1, Math.ceil((rate.resetAt - now) / 1000));
+  return errorResponse(new RateLimitedError(retryAfter), {
+    'Retry-After': String(retryAfter),
+    'X-RateLimit-Limit': String(rate.limit),
+    'X-RateLimit-Remaining': String(rate.remaining),
+    'X-RateLimit-Reset': String(Math.ceil(rate.resetAt / 1000)),
+  });
+}
+
+/**
+ * A top-level param's `required: true` means "must be present", so when the param is
+ * also an object with its own required properties, those move into `allOf`.
+ */
+function toParamDefinition(schema: JsonSchema, required: boolean, description?: string): ParamDefinition {
+  const { required: requiredProps, ...rest } = schema;
+  const param: ParamDefinition = {
+    ...rest,
+    type: schema.type ?? 'string',
+    required: required || requiredProps,
+    ...(description && { description }),
   };
+  if (required && requiredProps?.length) param.allOf = [...(rest.allOf ?? []), { required: requiredProps }];
+  return param;
 }
 
 function expressToAgentRequest(req: Request): AgentRequest {
@@ -419,6 +1050,10 @@ function expressToAgentRequest(req: Request): AgentRequest {
   for (const [k, v] of Object.entries(req.headers)) {
     if (typeof v === 'string') headers[k] = v;
   }
+  const url: string = req.originalUrl ?? req.url ?? '';
+  const queryStart = url.indexOf('?');
+  // Kept by body parsers given a `verify` hook that stores the buffer as `req.rawBody`.
+  const rawBody = (req as Request & { rawBody?: string | Buffer }).rawBody;
   return {
     method: req.method.toUpperCase(),
     path: req.path,
@@ -427,6 +1062,9 @@ function expressToAgentRequest(req: Request): AgentRequest {
     params: (req.params as Record<string, string>) ?? {},
     headers,
     ip: req.ip ?? req.socket?.remoteAddress,
+    rawQuery: queryStart >= 0 ? url.slice(queryStart) : '',
+    ...(rawBody !== undefined && { rawBody }),
+    input: {},
   };
 }
 
@@ -437,15 +1075,21 @@ async function webRequestToAgentRequest(request: globalThis.Request): Promise<Ag
 
   const headers: Record<string, string> = {};
   request.headers.forEach((v, k) => { headers[k] = v; });
+  // Runtimes differ on whether Host is visible; signatures cover it as @authority.
+  headers['host'] ??= url.host;
 
   let body: Record<string, unknown> = {};
+  let rawBody: string | undefined;
   const ct = request.headers.get('content-type') ?? '';
   if (ct.includes('application/json') && request.body) {
-    try { body = await request.json() as Record<string, unknown>; } catch { /* empty body */ }
+    try {
+      rawBody = await request.text();
+      body = JSON.parse(rawBody) as Record<string, unknown>;
+    } catch { /* empty body */ }
   } else if (ct.includes('application/x-www-form-urlencoded') && request.body) {
     try {
-      const text = await request.text();
-      new URLSearchParams(text).forEach((v, k) => { body[k] = v; });
+      rawBody = await request.text();
+      new URLSearchParams(rawBody).forEach((v, k) => { body[k] = v; });
     } catch { /* empty body */ }
   }
 
@@ -457,22 +1101,34 @@ async function webRequestToAgentRequest(request: globalThis.Request): Promise<Ag
     params: {},
     headers,
     ip: headers['x-forwarded-for']?.split(',')[0]?.trim(),
+    rawQuery: url.search,
+    ...(rawBody !== undefined && { rawBody }),
+    input: {},
   };
 }
 
+/** GET reads the query string; other methods also read the body. Path params win. */
+function collectInput(req: AgentRequest): Record<string, unknown> {
+  return req.method === 'GET'
+    ? { ...req.query, ...req.params }
+    : { ...req.query, ...req.body, ...req.params };
+}
+
 function extractToken(req: AgentRequest): string | null {
   const auth = req.headers['authorization'];
   if (auth?.startsWith('Bearer ')) return auth.slice(7);
   return req.headers['x-session-token'] ?? null;
 }
 
-function capabilityRoute(cap: CapabilityDefinition, apiBase: string): string {
-  const parts = cap.name.split('.');
-  if (cap.name === 'detail') return `${apiBase}/detail/:id`;
-  if (parts.length > 1) return `${apiBase}/${parts.join('/')}`;
-  return `${apiBase}/${cap.name}`;
+/** Whether some path matches both patterns: same length, and every segment pair is equal or has a `:param`. */
+function routesOverlap(a: string, b: string): boolean {
+  const aParts = a.split('/');
+  const bParts = b.split('/');
+  return aParts.length === bParts.length
+    && aParts.every((part, i) => part === bParts[i] || part.startsWith(':') || bParts[i].startsWith(':'));
 }
 
+/** Path params come back decoded; a segment that is not valid percent-encoding matches nothing. */
 function matchRoute(pattern: string, path: string): { params: Record<string, string> } | null {
   const patternParts = pattern.split('/');
   const pathParts = path.split('/');
@@ -481,7 +1137,12 @@ function matchRoute(pattern: string, path: string): { params: Record<string, str
   const params: Record<string, string> = {};
   for (let i = 0; i < patternParts.length; i++) {
     if (patternParts[i].startsWith(':')) {
-      params[patternParts[i].slice(1)] = pathParts[i];
+      if (pathParts[i] === '') return null;
+      try {
+        params[patternParts[i].slice(1)] = decodeURIComponent(pathParts[i]);
+      } catch {
+        return null;
+      }
     } else if (patternParts[i] !== pathParts[i]) {
       return null;
     }
@@ -0,0 +1,129 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { SessionData, SessionStore } from './types';
+import { writeAtomic } from './atomic-write';
+
+/** Default store: sessions live in this process's memory and do not survive a restart. */
+export class MemorySessionStore implements SessionStore {
+  private sessions = new Map<string, SessionData>();
+
+  async get(token: string): Promise<SessionData | null> {
+    const session = this.sessions.get(token);
+    return session ? cloneSession(session) : null;
+  }
+
+  async set(session: SessionData): Promise<void> {
+    this.sessions.set(session.sessionToken, cloneSession(session));
+  }
+
+  async delete(token: string): Promise<void> {
+    this.sessions.delete(token);
+  }
+
+  async touch(token: string, expiresAt: Date): Promise<void> {
+    const session = this.sessions.get(token);
+    if (session) session.expiresAt = new Date(expiresAt);
+  }
+
+  async scanExpired(now: Date): Promise<string[]> {
+    const expired: string[] = [];
+    for (const [token, session] of this.sessions) {
+      if (now >= session.expiresAt) expired.push(token);
+    }
+    return expired;
+  }
+}
+
+/**
+ * Persistent store that keeps one JSON file per session in `directory`.
+ * File names are SHA-256 hashes of the token, so tokens never appear on disk
+ * as paths and cannot escape the directory.
+ *
+ * A file that does not parse (e.g. edited by hand, or a full disk) is renamed to
+ * `<name>.json.corrupt` and read as no session, so it cannot stall expiry sweeps.
+ *
+ * Suitable for a single instance that must survive restarts. Several instances
+ * can share the directory over a network filesystem, but there is no locking —
+ * use a database-backed store for real horizontal scaling.
+ */
+export class FileSessionStore implements SessionStore {
+  private directory: string;
+  private ready: Promise<void>;
+
+  constructor(directory: string) {
+    this.directory = directory;
+    this.ready = fs.mkdir(directory, { recursive: true }).then(() => undefined);
+  }
+
+  async get(token: string): Promise<SessionData | null> {
+    await this.ready;
+    return this.read(this.fileFor(token));
+  }
+
+  async set(session: SessionData): Promise<void> {
+    await this.ready;
+    await writeAtomic(this.fileFor(session.sessionToken), JSON.stringify(session));
+  }
+
+  async delete(token: string): Promise<void> {
+    await this.ready;
+    await fs.rm(this.fileFor(token), { force: true });
+  }
+
+  async touch(token: string, expiresAt: Date): Promise<void> {
+    const session = await this.get(token);
+    if (!session) return;
+    session.expiresAt = expiresAt;
+    await this.set(session);
+  }
+
+  async scanExpired(now: Date): Promise<string[]> {
+    await this.ready;
+    const expired: string[] = [];
+    for (const name of await fs.readdir(this.directory)) {
+      if (!name.endsWith('.json')) continue;
+      const session = await this.read(path.join(this.directory, name));
+      if (session && now >= session.expiresAt) expired.push(session.sessionToken);
+    }
+    return expired;
+  }
+
+  private fileFor(token: string): string {
+    const name = createHash('sha256').update(token).digest('hex');
+    return path.join(this.directory, `${name}.json`);
+  }
+
+  private async read(file: string): Promise<SessionData | null> {
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, 'utf8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw err;
+    }
+    let parsed: SessionData;
+    try {
+      parsed = JSON.parse(raw) as SessionData;
+    } catch {
+      await fs.rename(file, `${file}.corrupt`).catch(() => {});
+      return null;
+    }
+    return {
+      ...parsed,
+      expiresAt: new Date(parsed.expiresAt),
+      ...(parsed.maxExpiresAt && { maxExpiresAt: new Date(parsed.maxExpiresAt) }),
+      createdAt: new Date(parsed.createdAt),
+    };
+  }
+}
+
+function cloneSession(session: SessionData): SessionData {
+  // Rebuild the Dates explicitly: structuredClone() output can come from another realm.
+  return {
+    ...structuredClone(session),
+    expiresAt: new Date(session.expiresAt),
+    ...(session.maxExpiresAt && { maxExpiresAt: new Date(session.maxExpiresAt) }),
+    createdAt: new Date(session.createdAt),
+  };
+}
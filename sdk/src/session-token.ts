@@ -0,0 +1,234 @@
+/**
+ * Stateless sessions: the session lives in its token rather than in a SessionStore,
+ * so any instance holding the secret can serve it without a lookup.
+ *
+ * A token carries the session ID, site, scope, agent, limits, lifetime and a compact cart.
+ * It is either signed (`st1.<payload>.<hmac>`, readable by its holder) or encrypted
+ * with AES-256-GCM (`st1e.<iv>.<ciphertext>.<tag>`). The MAC and encryption keys are
+ * derived from the configured secret with HKDF, one pair per secret, so a secret can
+ * be rotated: the first signs new tokens and every one of them still verifies.
+ *
+ * Whenever the session changes (its cart, or its expiry on refresh) it gets a new
+ * token, which the site returns in the `X-Session-Token` response header. Earlier
+ * tokens stay valid until their own expiry and show the session as it was then.
+ * Ending a session revokes its ID, and with it every token issued for it.
+ */
+
+import { createCipheriv, createDecipheriv, createHmac, hkdfSync, randomBytes, timingSafeEqual } from 'crypto';
+import { ConflictError } from './errors';
+import { systemClock } from './clock';
+import {
+  AgentIdentity,
+  CartItem,
+  Clock,
+  SessionData,
+  SessionLimits,
+  SessionRevocationList,
+  StatelessSessionOptions,
+} from './types';
+
+const SIGNED_PREFIX = 'st1';
+const ENCRYPTED_PREFIX = 'st1e';
+const MIN_SECRET_BYTES = 32;
+const DEFAULT_MAX_TOKEN_BYTES = 4096;
+
+/** [itemId, quantity, price, name, metadata], trailing absent fields dropped */
+type CompactCartItem = [string, number, (number | null)?, (string | null)?, Record<string, unknown>?];
+
+interface TokenPayload {
+  sid: string;
+  site: string;
+  /** Absent when the session may call every capability */
+  cap?: string[];
+  agent?: AgentIdentity;
+  lim?: SessionLimits;
+  cart: CompactCartItem[];
+  /** Epoch milliseconds */
+  iat: number;
+  exp: number;
+  mex: number;
+}
+
+interface TokenKeys {
+  mac: Buffer;
+  enc: Buffer;
+}
+
+/** Default revocation list: process-local, so each instance only knows the sessions it ended. */
+export class MemoryRevocationList implements SessionRevocationList {
+  private revoked = new Map<string, number>();
+  private clock: Clock;
+
+  constructor(clock: Clock = systemClock) {
+    this.clock = clock;
+  }
+
+  async revoke(sessionId: string, expiresAt: Date): Promise<void> {
+    const now = this.clock.now();
+    for (const [id, until] of this.revoked) {
+      if (now >= until) this.revoked.delete(id);
+    }
+    this.revoked.set(sessionId, expiresAt.getTime());
+  }
+
+  async isRevoked(sessionId: string): Promise<boolean> {
+    const until = this.revoked.get(sessionId);
+    if (until === undefined) return false;
+    // Past this point every token of the session has expired anyway.
+    if (this.clock.now() >= until) {
+      this.revoked.delete(sessionId);
+      return false;
+    }
+    return true;
+  }
+}
+
+export class SessionTokenCodec {
+  private keys: TokenKeys[];
+  private encrypt: boolean;
+  private maxTokenBytes: number;
+  private allCapabilities: string[];
+
+  constructor(options: StatelessSessionOptions, allCapabilities: string[] = []) {
+    const secrets = Array.isArray(options.secret) ? options.secret : [options.secret];
+    if (secrets.length === 0) throw new Error('Stateless sessions need a secret');
+    this.keys = secrets.map(secret => {
+      if (Buffer.byteLength(secret) < MIN_SECRET_BYTES) {
+        throw new Error(`Stateless session secrets must be at least ${MIN_SECRET_BYTES} bytes`);
+      }
+      return { mac: deriveKey(secret, 'mac'), enc: deriveKey(secret, 'enc') };
+    });
+    this.encrypt = options.encrypt ?? false;
+    this.maxTokenBytes = options.maxTokenBytes ?? DEFAULT_MAX_TOKEN_BYTES;
+    this.allCapabilities = allCapabilities;
+  }
+
+  /**
+   * A token carrying `session` as it is now. Throws ConflictError when the token
+   * would be larger than `maxTokenBytes`, which in practice means the cart is too big.
+   */
+  issue(session: SessionData): string {
+    const payload: TokenPayload = {
+      sid: session.sessionId,
+      site: session.siteId,
+      ...(!sameNames(session.capabilities, this.allCapabilities) && { cap: session.capabilities }),
+      ...(session.agent && { agent: session.agent }),
+      ...(session.limits && { lim: session.limits }),
+      cart: session.cartItems.map(compactItem),
+      iat: session.createdAt.getTime(),
+      exp: session.expiresAt.getTime(),
+      mex: (session.maxExpiresAt ?? session.expiresAt).getTime(),
+    };
+    const json = Buffer.from(JSON.stringify(payload));
+    const [key] = this.keys;
+    let token: string;
+    if (this.encrypt) {
+      const iv = randomBytes(12);
+      const cipher = createCipheriv('aes-256-gcm', key.enc, iv);
+      cipher.setAAD(Buffer.from(ENCRYPTED_PREFIX));
+      const ciphertext = Buffer.concat([cipher.update(json), cipher.final()]);
+      token = [ENCRYPTED_PREFIX, ...[iv, ciphertext, cipher.getAuthTag()].map(base64url)].join('.');
+    } else {
+      const signed = `${SIGNED_PREFIX}.${base64url(json)}`;
+      token = `${signed}.${base64url(mac(key.mac, signed))}`;
+    }
+    if (token.length > this.maxTokenBytes) {
+      throw new ConflictError('The session no longer fits in its token; remove items from the cart', {
+        token_bytes: token.length,
+        max_token_bytes: this.maxTokenBytes,
+      });
+    }
+    return token;
+  }
+
+  /**
+   * The session `token` carries, or null when it is malformed, was tampered with, or
+   * was issued under a secret this codec does not hold. Expiry is the caller's check.
+   */
+  read(token: string): SessionData | null {
+    const json = token.startsWith(`${ENCRYPTED_PREFIX}.`) ? this.decrypt(token) : this.verify(token);
+    if (!json) return null;
+    let payload: TokenPayload;
+    try {
+      payload = JSON.parse(json.toString('utf8')) as TokenPayload;
+    } catch {
+      return null;
+    }
+    return {
+      sessionId: payload.sid,
+      sessionToken: token,
+      siteId: payload.site,
+      capabilities: payload.cap ?? [...this.allCapabilities],
+      ...(payload.agent && { agent: payload.agent }),
+      ...(payload.lim && { limits: payload.lim }),
+      cartItems: payload.cart.map(expandItem),
+      expiresAt: new Date(payload.exp),
+      maxExpiresAt: new Date(payload.mex),
+      createdAt: new Date(payload.iat),
+    };
+  }
+
+  private verify(token: string): Buffer | null {
+    const parts = token.split('.');
+    if (parts.length !== 3 || parts[0] !== SIGNED_PREFIX) return null;
+    const signature = Buffer.from(parts[2], 'base64url');
+    const signed = `${parts[0]}.${parts[1]}`;
+    const valid = this.keys.some(key => {
+      const expected = mac(key.mac, signed);
+      return expected.length === signature.length && timingSafeEqual(expected, signature);
+    });
+    return valid ? Buffer.from(parts[1], 'base64url') : null;
+  }
+
+  private decrypt(token: string): Buffer | null {
+    const parts = token.split('.');
+    if (parts.length !== 4) return null;
+    const [iv, ciphertext, tag] = parts.slice(1).map(p => Buffer.from(p, 'base64url'));
+    if (iv.length !== 12 || tag.length !== 16) return null;
+    for (const key of this.keys) {
+      try {
+        const decipher = createDecipheriv('aes-256-gcm', key.enc, iv);
+        decipher.setAAD(Buffer.from(ENCRYPTED_PREFIX));
+        decipher.setAuthTag(tag);
+        return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+      } catch {
+        // Not this key; try the next one.
+      }
+    }
+    return null;
+  }
+}
+
+function deriveKey(secret: string, purpose: 'mac' | 'enc'): Buffer {
+  return Buffer.from(hkdfSync('sha256', secret, '', `agents-session-token/${purpose}`, 32));
+}
+
+function mac(key: Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data).digest();
+}
+
+function base64url(bytes: Buffer): string {
+  return bytes.toString('base64url');
+}
+
+function sameNames(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((name, i) => name === b[i]);
+}
+
+function compactItem(item: CartItem): CompactCartItem {
+  const compact: CompactCartItem = [item.itemId, item.quantity, item.price ?? null, item.name ?? null, item.metadata];
+  while (compact.length > 2 && (compact[compact.length - 1] === null || compact[compact.length - 1] === undefined)) {
+    compact.pop();
+  }
+  return compact;
+}
+
+function expandItem([itemId, quantity, price, name, metadata]: CompactCartItem): CartItem {
+  return {
+    itemId,
+    ...(name != null && { name }),
+    quantity,
+    ...(price != null && { price }),
+    ...(metadata && { metadata }),
+  };
+}
@@ -1,63 +1,194 @@
 import { v4 as uuidv4 } from 'uuid';
-import { SessionData, CapabilityDefinition } from './types';
+import {
+  AgentIdentity,
+  Clock,
+  SessionData,
+  CapabilityDefinition,
+  SessionLimits,
+  SessionRevocationList,
+  SessionStore,
+  StatelessSessionOptions,
+} from './types';
+import { MemorySessionStore } from './session-store';
+import { MemoryRevocationList, SessionTokenCodec } from './session-token';
+import { systemClock } from './clock';
+import { InvalidParamsError } from './errors';
 
+/** What a new session may do, narrowed from the site's defaults by the agent's request. */
+export interface SessionScope {
+  /** Capabilities the session may call. Default: all of them. */
+  capabilities?: string[];
+  /** Capabilities the agent explicitly gave up, recorded as the envelope's deny list */
+  denied?: string[];
+  /**
+   * Seconds the session may live in total, refreshes included. It expires after
+   * the site's TTL or this, whichever is sooner. Default: the site's maximum lifetime.
+   */
+  ttl?: number;
+}
+
+/**
+ * Issues, looks up and ends sessions. Sessions live in a SessionStore, or with
+ * `stateless` options in their own tokens: then a session whose cart or expiry
+ * changes gets a new `sessionToken`, which the caller must hand back to the agent.
+ */
 export class SessionManager {
-  private sessions = new Map<string, SessionData>();
-  private cleanupInterval: ReturnType<typeof setInterval>;
+  private store: SessionStore;
+  private tokens: SessionTokenCodec | null;
+  private revocations: SessionRevocationList | null;
+  private clock: Clock;
+  private stopSweeps: () => void;
   private ttl: number;
+  private maxLifetime: number;
 
-  constructor(ttlSeconds: number = 3600, capabilities: CapabilityDefinition[] = []) {
+  /** `maxLifetimeSeconds` bounds refreshes; by default a session ends after one TTL. */
+  constructor(
+    ttlSeconds: number = 3600,
+    capabilities: CapabilityDefinition[] = [],
+    store: SessionStore = new MemorySessionStore(),
+    maxLifetimeSeconds: number = ttlSeconds,
+    stateless?: StatelessSessionOptions,
+    clock: Clock = systemClock,
+  ) {
     this.ttl = ttlSeconds;
+    this.maxLifetime = Math.max(maxLifetimeSeconds, ttlSeconds);
     this.capabilityNames = capabilities.map(c => c.name);
-    this.cleanupInterval = setInterval(() => this.cleanup(), 60_000);
+    this.store = store;
+    this.tokens = stateless ? new SessionTokenCodec(stateless, this.capabilityNames) : null;
+    this.revocations = stateless ? stateless.revocations ?? new MemoryRevocationList(clock) : null;
+    this.clock = clock;
+    // Store errors are transient from our point of view — the next sweep retries.
+    // Stateless sessions have nothing to sweep: their tokens simply stop verifying.
+    this.stopSweeps = stateless ? () => {} : clock.every(60_000, () => { this.sweep().catch(() => {}); });
   }
 
   private capabilityNames: string[];
 
-  createSession(siteId: string): { sessionToken: string; expiresAt: Date; capabilities: string[] } {
-    const sessionToken = uuidv4();
-    const expiresAt = new Date(Date.now() + this.ttl * 1000);
+  async createSession(
+    siteId: string,
+    scope: SessionScope = {},
+    agent?: AgentIdentity,
+    limits?: SessionLimits,
+  ): Promise<{ sessionId: string; sessionToken: string; expiresAt: Date; maxExpiresAt: Date; capabilities: string[] }> {
+    const sessionId = `ses_${uuidv4().replace(/-/g, '')}`;
+    const now = this.clock.now();
+    const expiresAt = new Date(now + Math.min(scope.ttl ?? this.ttl, this.ttl) * 1000);
+    const maxExpiresAt = new Date(now + Math.min(scope.ttl ?? this.maxLifetime, this.maxLifetime) * 1000);
     const session: SessionData = {
-      sessionToken,
+      sessionId,
+      sessionToken: uuidv4(),
       siteId,
-      capabilities: this.capabilityNames,
+      capabilities: scope.capabilities ?? this.capabilityNames,
+      ...(agent && { agent }),
+      ...(limits && { limits }),
       cartItems: [],
       expiresAt,
-      createdAt: new Date(),
+      maxExpiresAt,
+      createdAt: new Date(now),
     };
-    this.sessions.set(sessionToken, session);
-    return { sessionToken, expiresAt, capabilities: session.capabilities };
+    if (this.tokens) session.sessionToken = this.tokens.issue(session);
+    else await this.store.set(session);
+    return { sessionId, sessionToken: session.sessionToken, expiresAt, maxExpiresAt, capabilities: session.capabilities };
   }
 
-  validateSession(token: string): SessionData | null {
-    const session = this.sessions.get(token);
+  async validateSession(token: string): Promise<SessionData | null> {
+    if (this.tokens) {
+      const session = this.tokens.read(token);
+      if (!session || this.clock.now() >= session.expiresAt.getTime()) return null;
+      return (await this.revocations!.isRevoked(session.sessionId)) ? null : session;
+    }
+    const session = await this.store.get(token);
     if (!session) return null;
-    if (Date.now() >= session.expiresAt.getTime()) {
-      this.sessions.delete(token);
+    if (this.clock.now() >= session.expiresAt.getTime()) {
+      await this.store.delete(token);
       return null;
     }
     return session;
   }
 
-  getSession(token: string): SessionData | null {
+  async getSession(token: string): Promise<SessionData | null> {
     return this.validateSession(token);
   }
 
-  endSession(token: string): void {
-    this.sessions.delete(token);
+  /**
+   * Move a live session's expiry to one TTL from now, never past its `maxExpiresAt`
+   * and never earlier than it was. Updates `session` and returns the new expiry.
+   */
+  async refreshSession(session: SessionData): Promise<Date> {
+    const deadline = (session.maxExpiresAt ?? session.expiresAt).getTime();
+    const next = Math.min(this.clock.now() + this.ttl * 1000, deadline);
+    if (next > session.expiresAt.getTime()) {
+      session.expiresAt = new Date(next);
+      if (this.tokens) session.sessionToken = this.tokens.issue(session);
+      else await this.store.touch(session.sessionToken, session.expiresAt);
+    }
+    return session.expiresAt;
+  }
+
+  /**
+   * Persist a modified session snapshot (e.g. after a cart capability ran). A
+   * stateless session gets a new token instead; throws ConflictError if it is too big.
+   */
+  async updateSession(session: SessionData): Promise<void> {
+    if (this.tokens) session.sessionToken = this.tokens.issue(session);
+    else await this.store.set(session);
+  }
+
+  async endSession(token: string): Promise<void> {
+    if (this.tokens) {
+      const session = this.tokens.read(token);
+      if (session) await this.revocations!.revoke(session.sessionId, session.maxExpiresAt ?? session.expiresAt);
+      return;
+    }
+    await this.store.delete(token);
   }
 
-  private cleanup(): void {
-    const now = new Date();
-    for (const [token, session] of this.sessions) {
-      if (now > session.expiresAt) {
-        this.sessions.delete(token);
-      }
+  /** Delete expired sessions from the store. Runs every minute unless the clock has no timers. */
+  async sweep(): Promise<void> {
+    if (this.tokens) return;
+    for (const token of await this.store.scanExpired(new Date(this.clock.now()))) {
+      await this.store.delete(token);
     }
   }
 
   destroy(): void {
-    clearInterval(this.cleanupInterval);
-    this.sessions.clear();
+    this.stopSweeps();
   }
 }
+
+/**
+ * Scope of a new session from the `capabilities`, `deny` and `ttl` fields of the
+ * session request. The agent can only narrow its authority: the session gets the
+ * requested capabilities (default: all) minus the denied ones, for at most the
+ * site's TTL. Naming a capability the site does not declare is an error.
+ */
+export function resolveSessionScope(body: Record<string, unknown>, capabilityNames: string[]): SessionScope {
+  const errors: string[] = [];
+  const names = (field: 'capabilities' | 'deny'): string[] | undefined => {
+    const value = body[field];
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value) || !value.every(v => typeof v === 'string')) {
+      errors.push(`${field} must be an array of capability names`);
+      return undefined;
+    }
+    const unknown = value.filter(name => !capabilityNames.includes(name));
+    if (unknown.length > 0) errors.push(`${field}: unknown capabilities ${unknown.join(', ')}`);
+    return value;
+  };
+  const requested = names('capabilities');
+  const denied = names('deny');
+  const { ttl } = body;
+  if (ttl !== undefined && !(typeof ttl === 'number' && Number.isInteger(ttl) && ttl > 0)) {
+    errors.push('ttl must be a positive integer');
+  }
+  if (errors.length > 0) throw new InvalidParamsError(`Invalid session request: ${errors.join('; ')}`);
+
+  if (!requested && !denied && ttl === undefined) return {};
+  return {
+    ...((requested || denied) && {
+      capabilities: capabilityNames.filter(name => (!requested || requested.includes(name)) && !denied?.includes(name)),
+    }),
+    ...(denied && { denied: capabilityNames.filter(name => denied.includes(name)) }),
+    ...(ttl !== undefined && { ttl: ttl as number }),
+  };
+}
@@ -3,6 +3,8 @@ export interface SiteConfig {
   url: string;
   description?: string;
   contact?: string;
+  /** Human-readable documentation for the site's agent capabilities. */
+  docs?: string;
 }
 
 /** Framework-agnostic request passed to capability handlers */
@@ -14,18 +16,191 @@ export interface AgentRequest {
   params: Record<string, string>;
   headers: Record<string, string>;
   ip?: string;
+  /** Query string as received, with its leading `?`; signatures cover it byte for byte. */
+  rawQuery?: string;
+  /** Body as received, when the framework kept it; its Content-Digest is checked against it. */
+  rawBody?: string | Buffer;
+  /** The registered agent that signed the request, when `agentAuth` is on and it verified. */
+  agent?: AgentIdentity;
+  /**
+   * Query, body and path values merged, validated against the capability's `params`
+   * and coerced to their declared types, with defaults applied. Filled in by the
+   * dispatcher before the handler runs; undeclared values pass through untouched.
+   */
+  input: Record<string, unknown>;
 }
 
 export interface CapabilityDefinition {
   name: string;
   description: string;
   method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
-  params?: Record<string, { type: string; required?: boolean; description?: string; default?: unknown; enum?: unknown[] }>;
+  /**
+   * Route under the API base, e.g. `/orders/:order_id/items`. Each `:name` segment is
+   * a path parameter and must be declared in `params` as required, which gives it its
+   * type. Default: the name with dots as slashes (`cart.add` → `/cart/add`).
+   */
+  path?: string;
+  params?: Record<string, ParamDefinition>;
+  /** Shape of the handler's `data` on success. Published in agents.json; not enforced. */
+  outputSchema?: JsonSchema;
   requiresSession?: boolean;
   humanHandoff?: boolean;
+  /**
+   * Hold each call until a human approves it (see `AgentDoorConfig.approvals`).
+   * Implies `requiresSession`.
+   */
+  requiresApproval?: boolean;
+  /** Budget for this capability alone, enforced on top of the site-wide `rateLimit`. */
+  rateLimit?: CapabilityRateLimit;
+  /**
+   * `session` is a snapshot read from the SessionStore. To change the cart, assign a
+   * new `cartItems` array — the dispatcher writes it back once the handler resolves.
+   */
   handler: (req: AgentRequest, session?: SessionData | null) => Promise<unknown>;
 }
 
+/**
+ * JSON Schema (draft-07 subset) understood by the param validator and published
+ * verbatim in agents.json. Unsupported keywords are published but not enforced.
+ */
+export interface JsonSchema {
+  /** 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object' | 'null', or a list of them. */
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  default?: unknown;
+  examples?: unknown[];
+  enum?: unknown[];
+  const?: unknown;
+  // numbers
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  // strings
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  /** Enforced: email, uri, date, date-time, uuid. Others are advisory. */
+  format?: string;
+  // arrays
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  uniqueItems?: boolean;
+  // objects
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  // composition
+  allOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+}
+
+/**
+ * A top-level capability parameter: any JSON Schema, plus the agents.json
+ * shorthand `required: true` meaning the parameter itself must be present.
+ * An array keeps its JSON Schema meaning (required properties of an object value).
+ */
+export interface ParamDefinition extends Omit<JsonSchema, 'required' | 'type'> {
+  type: string | string[];
+  required?: boolean | string[];
+  /**
+   * How the value is recorded in the audit trail; `true` means `'hash'`.
+   * Handlers always receive the real value. Not published in agents.json.
+   */
+  redact?: boolean | RedactionMode;
+}
+
+/**
+ * - `hash`: a salted SHA-256 that anyone who knows the value can check.
+ * - `mask`: `****` plus the last four characters of strings of 8 or more.
+ * - `drop`: left out entirely.
+ */
+export type RedactionMode = 'hash' | 'mask' | 'drop';
+
+export interface AuditRedactionContext {
+  capability: string;
+  /** `input` is the call's parameters; `output` is the handler's result */
+  phase: 'input' | 'output';
+}
+
+export interface CapabilityRateLimit {
+  requestsPerMinute: number;
+  /**
+   * Bucket capacity — how many calls may arrive back to back. Only the 'token-bucket'
+   * algorithm honours it; window algorithms cap at `requestsPerMinute` per window.
+   */
+  burst?: number;
+}
+
+/**
+ * Budgets of one session, written into its audit envelope and enforced by the
+ * audit runtime. A call past a budget is denied with 403 `policy_denied`.
+ */
+export interface SessionLimits {
+  /** Capability calls per session, all capabilities together */
+  maxToolCalls?: number;
+  /** Calls per session of individual capabilities, by capability name */
+  maxCallsPerCapability?: Record<string, number>;
+  /**
+   * Most a session may spend, in USD: the cart subtotal may not grow past it,
+   * nor may the total a `humanHandoff` capability such as checkout reports.
+   */
+  maxSpendUsd?: number;
+}
+
+/** PEM text or DER bytes of a PKCS#8 Ed25519 private key */
+export type AuditKeyMaterial = string | Buffer;
+
+export interface AuditOptions {
+  /**
+   * Key that signs artifacts: a path to a PEM or DER PKCS#8 file, or a provider.
+   * Both are consulted at startup and again at each rotation, so replacing the
+   * file or returning a new key from the provider rotates the key.
+   * Default: a fresh key pair per process.
+   */
+  signingKey?: string | (() => AuditKeyMaterial);
+  /** Seconds a signing key stays active before it is replaced. Checked once a minute. */
+  rotateEvery?: number;
+  /**
+   * JSON file of every public key this site has published, with validity windows.
+   * Without it, keys retired before a restart are no longer published.
+   */
+  keyHistoryFile?: string;
+  /** Where sealed artifacts are kept. Defaults to an in-process MemoryArtifactStore. */
+  artifactStore?: ArtifactStore;
+  /** Seconds an artifact is kept after its session ends. Default: 30 days, the spec's minimum. */
+  artifactRetention?: number;
+  /**
+   * Rewrites what each call records, after the params' `redact` rules: return the
+   * data to keep. `redactValue()` hashes or masks single values the same way.
+   */
+  redact?: (data: unknown, context: AuditRedactionContext) => unknown;
+  /**
+   * Who may download sealed artifacts. Default: 'public'. Signed download links
+   * are honoured under every policy.
+   */
+  access?: AuditAccessPolicy | AuditAccessPolicy[];
+  /** Admin credential for the 'operator' policy, sent as a bearer token. */
+  operatorToken?: string;
+  /**
+   * HMAC key for proof tokens and download links. Default: random per process,
+   * so both stop working at restart.
+   */
+  accessSecret?: string | Buffer;
+  /** Longest a download link may be valid, in seconds, and the lifetime of links that do not ask. Default: 3600. */
+  downloadLinkTtl?: number;
+}
+
+/**
+ * Who may download an artifact: anyone, the session holder (with its live session
+ * token or the proof token issued when the session ends), or the site operator.
+ */
+export type AuditAccessPolicy = 'public' | 'holder' | 'operator';
+
 /** Suggested step sequence for a common agent task */
 export interface FlowDefinition {
   name: string;
@@ -37,19 +212,261 @@ export interface AgentDoorConfig {
   site: SiteConfig;
   capabilities: (CapabilityDefinition | CapabilityDefinition[])[];
   flows?: FlowDefinition[];
+  /**
+   * Site-wide requests per minute. Counted per session when the request carries a
+   * valid session token, otherwise per client IP.
+   */
   rateLimit?: number;
+  /** Counting strategy for `rateLimit`. Default: 'sliding-window'. */
+  rateLimitAlgorithm?: RateLimitAlgorithm;
+  /** Where rate-limit counters live. Share one across instances to enforce a global budget. */
+  rateLimitStore?: RateLimitStore;
   sessionTtl?: number;
-  audit?: boolean;
+  /**
+   * Seconds a session may live in total, however often it is refreshed or used.
+   * Default: `sessionTtl`, so sessions cannot be extended.
+   */
+  sessionMaxLifetime?: number;
+  /** Extend a session to a full TTL whenever it calls a capability, up to `sessionMaxLifetime`. */
+  slidingExpiry?: boolean;
+  /** Where sessions (and their carts) live. Defaults to an in-process MemorySessionStore. */
+  sessionStore?: SessionStore;
+  /**
+   * Carry sessions in signed tokens instead of a `sessionStore`, so that instances
+   * without shared memory (serverless functions, edge workers) can all serve them.
+   */
+  statelessSessions?: StatelessSessionOptions;
+  /** Time source for sessions, rate limits, approvals and audit. Default: wall time. */
+  clock?: Clock;
+  /**
+   * Sweep expired sessions, rate-limit counters and audit sessions on timers. Set
+   * `false` where timers are unavailable: expired state is then dropped when it is
+   * next touched, or when you call `door.sweep()`. Default: true.
+   */
+  backgroundSweeps?: boolean;
+  /** `true`, or options for the audit signing key. */
+  audit?: boolean | AuditOptions;
+  /** How calls to `requiresApproval` capabilities wait for a human decision. */
+  approvals?: ApprovalOptions;
+  /**
+   * Budgets of every session. An agent may ask for tighter ones when it creates
+   * a session, never looser. Enforced by the audit runtime, so `audit` must be on.
+   */
+  limits?: SessionLimits;
+  /** Identify registered agents by the HTTP message signatures on their requests. */
+  agentAuth?: AgentAuthOptions;
   basePath?: string;
+  /**
+   * agents.txt format. '0.1' (default) follows spec/agents-txt.md; 'legacy' also
+   * emits the `Site`, `Agents-JSON` and `Allow` keys of earlier SDK releases.
+   */
+  agentsTxtVersion?: '0.1' | 'legacy';
 }
 
 export interface SessionData {
+  /** Public identifier: audit records and URLs use this, never the token. */
+  sessionId: string;
+  /** Secret bearer credential */
   sessionToken: string;
   siteId: string;
+  /** Capabilities this session may call: all of them unless the agent asked for fewer */
   capabilities: string[];
+  /** The agent that created the session; every later request must be signed by it. */
+  agent?: AgentIdentity;
+  /** Budgets the session was created with. Absent when none applies. */
+  limits?: SessionLimits;
   cartItems: CartItem[];
   expiresAt: Date;
+  /** Latest `expiresAt` a refresh or activity can reach. Absent: `expiresAt` is final. */
+  maxExpiresAt?: Date;
+  createdAt: Date;
+}
+
+/**
+ * Persistence backend for SessionManager. Implementations must hand out copies:
+ * callers never hold a reference into the store's own state, so a Redis or SQL
+ * backend behaves the same as the in-memory default.
+ */
+export interface SessionStore {
+  get(token: string): Promise<SessionData | null>;
+  set(session: SessionData): Promise<void>;
+  delete(token: string): Promise<void>;
+  /** Move a session's expiry without rewriting the rest of it. No-op for unknown tokens. */
+  touch(token: string, expiresAt: Date): Promise<void>;
+  /** Tokens of sessions whose expiry is at or before `now`. */
+  scanExpired(now: Date): Promise<string[]>;
+}
+
+/**
+ * Time source and scheduler of everything that expires. `every()` runs `task`
+ * every `intervalMs` until the returned function is called; a clock may decline
+ * to schedule anything (see withoutTimers() in clock.ts).
+ */
+export interface Clock {
+  /** Milliseconds since the epoch */
+  now(): number;
+  every(intervalMs: number, task: () => void): () => void;
+}
+
+/** Sessions carried in their tokens (see session-token.ts). */
+export interface StatelessSessionOptions {
+  /**
+   * Secret the tokens are signed with, at least 32 bytes. Pass several to rotate:
+   * the first signs new tokens, and tokens signed with any of them are accepted.
+   */
+  secret: string | string[];
+  /** Encrypt tokens (AES-256-GCM) so their holder cannot read the session. Default: false. */
+  encrypt?: boolean;
+  /**
+   * Sessions ended before they expired. Default: an in-process MemoryRevocationList;
+   * share one across instances so an ended session is refused everywhere.
+   */
+  revocations?: SessionRevocationList;
+  /** Largest token to issue; a cart change that would exceed it fails with 409. Default: 4096. */
+  maxTokenBytes?: number;
+}
+
+/** Session IDs whose tokens must no longer be accepted, checked on every stateless session lookup. */
+export interface SessionRevocationList {
+  /** Refuse `sessionId` from now on. The entry may be dropped after `expiresAt`, when its tokens have expired. */
+  revoke(sessionId: string, expiresAt: Date): Promise<void>;
+  isRevoked(sessionId: string): Promise<boolean>;
+}
+
+/**
+ * Persistence backend for sealed audit artifacts, keyed by session ID. Artifacts
+ * are opaque JSON to the store; `expiresAt` is when retention allows deleting one.
+ */
+export interface ArtifactStore {
+  get(sessionId: string): Promise<object | null>;
+  set(sessionId: string, artifact: object, expiresAt: Date): Promise<void>;
+  delete(sessionId: string): Promise<void>;
+  /** Session IDs whose retention ended at or before `now`. */
+  scanExpired(now: Date): Promise<string[]>;
+}
+
+/** An agent the site knows, by the key it signs requests with. Set exactly one key. */
+export interface RegisteredAgent {
+  /** The `keyid` its signatures name */
+  keyId: string;
+  /** Stable identifier recorded as the audit principal */
+  agentId: string;
+  name?: string;
+  /** Who runs the agent, e.g. a company name or domain */
+  operator?: string;
+  /** Ed25519 public key: PEM, or base64 DER SPKI */
+  publicKey?: string;
+  /** Shared secret issued to the agent, for HMAC-SHA256 signatures */
+  apiKey?: string;
+}
+
+/** Lookup of registered agents by key ID, e.g. over a database table. */
+export interface AgentRegistry {
+  get(keyId: string): Promise<RegisteredAgent | null>;
+}
+
+/** A verified agent, as attached to requests and sessions. */
+export interface AgentIdentity {
+  agentId: string;
+  name?: string;
+  operator?: string;
+  keyId: string;
+  algorithm: 'ed25519' | 'hmac-sha256';
+}
+
+export interface AgentAuthOptions {
+  /** The agents allowed to sign requests, or a registry to look them up in. */
+  agents: RegisteredAgent[] | AgentRegistry;
+  /**
+   * Refuse unsigned session and capability requests. Default: false, so unsigned
+   * agents keep working and signed ones are identified.
+   */
+  required?: boolean;
+  /** Seconds a signature's `created` time may lie in the past. Default: 300. */
+  maxSignatureAge?: number;
+}
+
+export interface ApprovalOptions {
+  /** Where approval requests live. Defaults to an in-process MemoryApprovalStore. */
+  store?: ApprovalStore;
+  /** Seconds a request waits for a decision, never beyond its session's expiry. Default: 900. */
+  ttl?: number;
+  /** Credential that lets the site operator decide any request, sent as a bearer token. */
+  operatorToken?: string;
+  /** Page where a human reviews the request. Default: the request's status URL. */
+  approvalUrl?: (approval: ApprovalRecord) => string;
+  /**
+   * Called for each new request, e.g. to send the end user a link carrying
+   * `decisionToken`. The agent is never shown that token.
+   */
+  onRequest?: (approval: ApprovalRecord) => void | Promise<void>;
+}
+
+/** `used` once the approved call has run: an approval is good for one call. */
+export type ApprovalStatus = 'pending' | 'approved' | 'denied' | 'expired' | 'used';
+
+export interface ApprovalRecord {
+  id: string;
+  capability: string;
+  /** Public ID of the session that made the call */
+  sessionId: string;
+  /** Validated input of the held call; the resumed call must send the same */
+  input: Record<string, unknown>;
+  status: ApprovalStatus;
+  /** Secret that lets its holder decide this request */
+  decisionToken: string;
   createdAt: Date;
+  expiresAt: Date;
+  decidedAt?: Date;
+  decidedBy?: 'operator' | 'user';
+  reason?: string;
+}
+
+/** Persistence backend for approval requests. Like SessionStore, hands out copies. */
+export interface ApprovalStore {
+  get(id: string): Promise<ApprovalRecord | null>;
+  set(approval: ApprovalRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+  /**
+   * Atomically move an `approved` request to `used`. Resolves false when it was not
+   * `approved` at that moment, e.g. because a concurrent call spent it first.
+   */
+  markUsed(id: string): Promise<boolean>;
+  /**
+   * Atomically apply `changes` to a request whose status is still `from`. Resolves
+   * false when it was not, e.g. because a concurrent decision settled it first.
+   */
+  transition(id: string, from: ApprovalStatus, changes: Partial<ApprovalRecord>): Promise<boolean>;
+  /** IDs of requests whose expiry is at or before `now`. */
+  scanExpired(now: Date): Promise<string[]>;
+}
+
+/**
+ * - `sliding-window`: exact, keeps one timestamp per request in the window.
+ * - `fixed-window`: one counter per window; cheap, but allows up to 2x at window edges.
+ * - `token-bucket`: refills `limit` tokens per window; constant memory per key.
+ */
+export type RateLimitAlgorithm = 'sliding-window' | 'fixed-window' | 'token-bucket';
+
+/** Per-key counter state. Plain JSON so distributed stores can serialize it. */
+export type RateLimitState =
+  /** `counts[i]` requests at `timestamps[i]`; absent, one each */
+  | { timestamps: number[]; counts?: number[] }
+  | { windowStart: number; count: number }
+  | { tokens: number; updatedAt: number };
+
+/** Persistence backend for RateLimiter counters. */
+export interface RateLimitStore {
+  /**
+   * Atomically replace the state under `key` with `apply(current)` and return the
+   * accompanying result. `apply` is pure, so a distributed store may re-run it
+   * (e.g. Redis WATCH/MULTI retries). The new state may be dropped after `ttlMs`.
+   */
+  update<T>(
+    key: string,
+    ttlMs: number,
+    apply: (current: RateLimitState | null) => { state: RateLimitState; result: T },
+  ): Promise<T>;
 }
 
 export interface AgentResponse<T = any> {
@@ -78,17 +495,21 @@ export interface OpenAPISpec {
       in: 'query' | 'path' | 'header' | 'cookie';
       required?: boolean;
       description?: string;
-      schema?: { type?: string; enum?: unknown[]; default?: unknown };
+      schema?: JsonSchema;
     }>;
     requestBody?: {
       content?: {
         'application/json'?: {
-          schema?: {
-            properties?: Record<string, { type?: string; description?: string }>;
-            required?: string[];
-          };
+          schema?: JsonSchema;
         };
       };
     };
+    responses?: Record<string, {
+      content?: {
+        'application/json'?: {
+          schema?: JsonSchema;
+        };
+      };
+    }>;
   }>>;
 }
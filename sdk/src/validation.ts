@@ -0,0 +1,294 @@
+import { JsonSchema, ParamDefinition } from './types';
+
+export interface ParamError {
+  /** Dotted path to the failing value, e.g. `address.zip` or `items[2].quantity`. */
+  field: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  values: Record<string, unknown>;
+  errors: ParamError[];
+}
+
+/**
+ * Check `input` against a capability's declared params. Query-string values arrive
+ * as strings, so top-level values are coerced to their declared type ("2" → 2,
+ * "true" → true, '{"a":1}' → object) before checking. Empty strings count as absent.
+ * Every failing field is reported, not just the first.
+ */
+export function validateParams(
+  defs: Record<string, ParamDefinition> | undefined,
+  input: Record<string, unknown>,
+): ValidationResult {
+  const values: Record<string, unknown> = { ...input };
+  const errors: ParamError[] = [];
+
+  for (const [field, def] of Object.entries(defs ?? {})) {
+    const raw = input[field];
+    const { required, ...rest } = def;
+    const schema: JsonSchema = Array.isArray(required) ? { ...rest, required } : rest;
+
+    if (raw === undefined || raw === null || raw === '') {
+      delete values[field];
+      if (schema.default !== undefined) {
+        values[field] = schema.default;
+      } else if (required === true) {
+        errors.push({ field, message: `${field} is required` });
+      }
+      continue;
+    }
+
+    const value = typeof raw === 'string' ? coerce(raw, typesOf(schema)) : raw;
+    const before = errors.length;
+    validateSchema(schema, value, field, errors);
+    if (errors.length === before) values[field] = applyDefaults(schema, value);
+  }
+
+  return { values, errors };
+}
+
+/**
+ * Compile every `pattern` in `defs` ahead of the first request that needs it.
+ * Returns one error per pattern that is not a valid regular expression.
+ */
+export function compilePatterns(defs: Record<string, ParamDefinition> | undefined): ParamError[] {
+  const errors: ParamError[] = [];
+  const visit = (schema: JsonSchema, path: string): void => {
+    if (schema.pattern !== undefined) {
+      try {
+        patternFor(schema.pattern);
+      } catch (err) {
+        errors.push({ field: path, message: `${path} has an invalid pattern: ${(err as Error).message}` });
+      }
+    }
+    for (const [key, prop] of Object.entries(schema.properties ?? {})) visit(prop, `${path}.${key}`);
+    if (schema.items) visit(schema.items, `${path}[]`);
+    if (typeof schema.additionalProperties === 'object') visit(schema.additionalProperties, `${path}.*`);
+    for (const sub of [...schema.allOf ?? [], ...schema.anyOf ?? [], ...schema.oneOf ?? []]) visit(sub, path);
+  };
+  for (const [field, def] of Object.entries(defs ?? {})) visit(def as JsonSchema, field);
+  return errors;
+}
+
+/** Validate `value` against `schema`, appending one error per failing location. */
+export function validateSchema(schema: JsonSchema, value: unknown, path: string, errors: ParamError[]): void {
+  const types = typesOf(schema);
+  if (types.length > 0 && !types.some(t => matchesType(value, t))) {
+    errors.push({ field: path, message: `${path} must be ${article(types[0])} ${types.join(' or ')}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.some(allowed => sameValue(allowed, value))) {
+    errors.push({ field: path, message: `${path} must be one of: ${schema.enum.map(String).join(', ')}` });
+    return;
+  }
+  if (schema.const !== undefined && !sameValue(schema.const, value)) {
+    errors.push({ field: path, message: `${path} must be ${JSON.stringify(schema.const)}` });
+    return;
+  }
+
+  if (typeof value === 'string') checkString(schema, value, path, errors);
+  else if (typeof value === 'number') checkNumber(schema, value, path, errors);
+  else if (Array.isArray(value)) checkArray(schema, value, path, errors);
+  else if (isPlainObject(value)) checkObject(schema, value, path, errors);
+
+  for (const sub of schema.allOf ?? []) validateSchema(sub, value, path, errors);
+
+  if (schema.anyOf && !schema.anyOf.some(sub => passes(sub, value, path))) {
+    errors.push({ field: path, message: `${path} does not match any allowed shape` });
+  }
+  if (schema.oneOf && schema.oneOf.filter(sub => passes(sub, value, path)).length !== 1) {
+    errors.push({ field: path, message: `${path} must match exactly one allowed shape` });
+  }
+}
+
+// ─── Keyword checks ───────────────────────────────────────────────────────────
+
+const FORMATS: Record<string, RegExp> = {
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uri: /^[a-zA-Z][a-zA-Z0-9+.-]*:[^\s]*$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  'date-time': /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/i,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+};
+
+function checkString(schema: JsonSchema, value: string, path: string, errors: ParamError[]): void {
+  const length = [...value].length;
+  if (schema.minLength !== undefined && length < schema.minLength) {
+    errors.push({ field: path, message: `${path} must be at least ${schema.minLength} characters` });
+  }
+  if (schema.maxLength !== undefined && length > schema.maxLength) {
+    errors.push({ field: path, message: `${path} must be at most ${schema.maxLength} characters` });
+  }
+  if (schema.pattern !== undefined && !patternFor(schema.pattern).test(value)) {
+    errors.push({ field: path, message: `${path} must match pattern ${schema.pattern}` });
+  }
+  const format = schema.format && FORMATS[schema.format];
+  if (format && (!format.test(value) || (schema.format!.startsWith('date') && isNaN(Date.parse(value))))) {
+    errors.push({ field: path, message: `${path} must be a valid ${schema.format}` });
+  }
+}
+
+// Patterns come from the site's own capability definitions, so the cache stays small.
+const PATTERNS = new Map<string, RegExp>();
+
+/** The compiled form of a `pattern` keyword; throws SyntaxError if it is not a valid regex. */
+function patternFor(source: string): RegExp {
+  let pattern = PATTERNS.get(source);
+  if (!pattern) {
+    pattern = new RegExp(source, 'u');
+    PATTERNS.set(source, pattern);
+  }
+  return pattern;
+}
+
+function checkNumber(schema: JsonSchema, value: number, path: string, errors: ParamError[]): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ field: path, message: `${path} must be >= ${schema.minimum}` });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push({ field: path, message: `${path} must be <= ${schema.maximum}` });
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    errors.push({ field: path, message: `${path} must be > ${schema.exclusiveMinimum}` });
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    errors.push({ field: path, message: `${path} must be < ${schema.exclusiveMaximum}` });
+  }
+  if (schema.multipleOf !== undefined && !Number.isInteger(value / schema.multipleOf)) {
+    errors.push({ field: path, message: `${path} must be a multiple of ${schema.multipleOf}` });
+  }
+}
+
+function checkArray(schema: JsonSchema, value: unknown[], path: string, errors: ParamError[]): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push({ field: path, message: `${path} must have at least ${schema.minItems} items` });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push({ field: path, message: `${path} must have at most ${schema.maxItems} items` });
+  }
+  if (schema.uniqueItems && new Set(value.map(v => JSON.stringify(v))).size !== value.length) {
+    errors.push({ field: path, message: `${path} must not contain duplicates` });
+  }
+  if (schema.items) {
+    value.forEach((item, i) => validateSchema(schema.items!, item, `${path}[${i}]`, errors));
+  }
+}
+
+function checkObject(schema: JsonSchema, value: Record<string, unknown>, path: string, errors: ParamError[]): void {
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined && schema.properties?.[key]?.default === undefined) {
+      errors.push({ field: `${path}.${key}`, message: `${path}.${key} is required` });
+    }
+  }
+  for (const [key, item] of Object.entries(value)) {
+    const declared = schema.properties?.[key];
+    if (declared) {
+      validateSchema(declared, item, `${path}.${key}`, errors);
+    } else if (schema.additionalProperties === false) {
+      errors.push({ field: `${path}.${key}`, message: `${path}.${key} is not allowed` });
+    } else if (typeof schema.additionalProperties === 'object') {
+      validateSchema(schema.additionalProperties, item, `${path}.${key}`, errors);
+    }
+  }
+}
+
+// ─── Helpers ──────────────────────────────────────────────────────────────────
+
+function passes(schema: JsonSchema, value: unknown, path: string): boolean {
+  const errors: ParamError[] = [];
+  validateSchema(schema, value, path, errors);
+  return errors.length === 0;
+}
+
+function typesOf(schema: JsonSchema): string[] {
+  if (schema.type === undefined) return [];
+  return Array.isArray(schema.type) ? schema.type : [schema.type];
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && Number.isFinite(value);
+    case 'integer': return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'array': return Array.isArray(value);
+    case 'object': return isPlainObject(value);
+    case 'null': return value === null;
+    // Unknown type names (e.g. from an imported OpenAPI spec) are not checked.
+    default: return true;
+  }
+}
+
+/**
+ * Turn a query-string value into the first declared non-string type it can
+ * represent, falling back to the string itself.
+ */
+function coerce(value: string, types: string[]): unknown {
+  for (const type of types) {
+    if (type === 'string') continue;
+    const coerced = coerceTo(value, type);
+    if (coerced !== INVALID) return coerced;
+  }
+  return value; // leave it as a string so the type check reports it
+}
+
+const INVALID = Symbol('invalid');
+
+function coerceTo(value: string, type: string): unknown {
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const n = value.trim() === '' ? NaN : Number(value);
+      return Number.isFinite(n) ? n : INVALID;
+    }
+    case 'boolean':
+      if (value === 'true' || value === '1') return true;
+      if (value === 'false' || value === '0') return false;
+      return INVALID;
+    case 'array':
+      if (value.trimStart().startsWith('[')) return parseJson(value);
+      return value.split(',').map(v => v.trim());
+    case 'object':
+      return parseJson(value);
+    case 'null':
+      return value === 'null' ? null : INVALID;
+    default:
+      return INVALID;
+  }
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return INVALID;
+  }
+}
+
+function applyDefaults(schema: JsonSchema, value: unknown): unknown {
+  if (Array.isArray(value) && schema.items) {
+    return value.map(item => applyDefaults(schema.items!, item));
+  }
+  if (!isPlainObject(value) || !schema.properties) return value;
+  const result: Record<string, unknown> = { ...value };
+  for (const [key, prop] of Object.entries(schema.properties)) {
+    if (result[key] === undefined && prop.default !== undefined) result[key] = prop.default;
+    else if (result[key] !== undefined) result[key] = applyDefaults(prop, result[key]);
+  }
+  return result;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  return typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b);
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function article(type: string): string {
+  return /^[aeiou]/.test(type) ? 'an' : 'a';
+}
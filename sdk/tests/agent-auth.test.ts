@@ -0,0 +1,117 @@
+import { generateKeyPairSync } from 'crypto';
+import { signRequest } from '@agents-protocol/client';
+import { AgentAuthenticator, MemoryAgentRegistry } from '../src/agent-auth';
+import { UnauthorizedError } from '../src/errors';
+import { AgentRequest } from '../src/types';
+
+const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+const PUBLIC_KEY = publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+const NOW = Date.UTC(2026, 0, 1);
+
+const agents = [
+  { keyId: 'shopbot-1', agentId: 'shopbot', name: 'ShopBot', operator: 'bots.example', publicKey: PUBLIC_KEY },
+  { keyId: 'crawler-1', agentId: 'crawler', apiKey: 'hmac-secret' },
+];
+
+/** An AgentRequest as the SDK builds it, signed the way the client signs. */
+function signedRequest(
+  method: string,
+  url: string,
+  body: Record<string, unknown> | undefined,
+  key: Parameters<typeof signRequest>[0],
+  now = NOW,
+): AgentRequest {
+  const parsed = new URL(url);
+  const text = body && JSON.stringify(body);
+  const headers: Record<string, string> = { host: parsed.host };
+  for (const [name, value] of Object.entries(signRequest(key, { method, url, body: text }, now))) {
+    headers[name.toLowerCase()] = value;
+  }
+  return {
+    method,
+    path: parsed.pathname,
+    query: Object.fromEntries(parsed.searchParams),
+    body: body ?? {},
+    params: {},
+    headers,
+    rawQuery: parsed.search,
+    input: {},
+  };
+}
+
+async function rejection(auth: AgentAuthenticator, req: AgentRequest): Promise<UnauthorizedError> {
+  return auth.authenticate(req, NOW).then(() => { throw new Error('expected a rejection'); }, err => err);
+}
+
+describe('AgentAuthenticator', () => {
+  const auth = new AgentAuthenticator({ agents });
+  const ed25519 = { keyId: 'shopbot-1', privateKey };
+
+  it('identifies an Ed25519-signed request', async () => {
+    const req = signedRequest('POST', 'https://shop.test/api/cart/add?ref=x', { product_id: 'p1' }, ed25519);
+    expect(await auth.authenticate(req, NOW)).toEqual({
+      agentId: 'shopbot',
+      name: 'ShopBot',
+      operator: 'bots.example',
+      keyId: 'shopbot-1',
+      algorithm: 'ed25519',
+    });
+  });
+
+  it('identifies an HMAC-signed request, checking the digest against the raw body', async () => {
+    const req = signedRequest('POST', 'https://shop.test/api/session', { ttl: 60 }, { keyId: 'crawler-1', apiKey: 'hmac-secret' });
+    req.rawBody = Buffer.from('{"ttl":60}');
+    expect(await auth.authenticate(req, NOW)).toMatchObject({ agentId: 'crawler', algorithm: 'hmac-sha256' });
+
+    req.rawBody = '{"ttl":600}';
+    expect((await rejection(auth, req)).message).toBe('Invalid agent signature: Content-Digest does not match the body');
+  });
+
+  it('treats unsigned requests as anonymous unless signatures are required', async () => {
+    const req = signedRequest('GET', 'https://shop.test/api/search', undefined, ed25519);
+    delete req.headers['signature'];
+    delete req.headers['signature-input'];
+    expect(await auth.authenticate(req, NOW)).toBeNull();
+
+    const err = await rejection(new AgentAuthenticator({ agents, required: true }), req);
+    expect(err).toMatchObject({ code: 'agent_auth_required', status: 401 });
+  });
+
+  it('refuses signatures that do not verify', async () => {
+    const cases: Array<[AgentRequest, string]> = [];
+
+    const tampered = signedRequest('POST', 'https://shop.test/api/cart/add', { quantity: 1 }, ed25519);
+    tampered.body = { quantity: 100 };
+    cases.push([tampered, 'Content-Digest does not match the body']);
+
+    const moved = signedRequest('GET', 'https://shop.test/api/search', undefined, ed25519);
+    moved.path = '/api/browse';
+    cases.push([moved, 'signature does not verify']);
+
+    const query = signedRequest('GET', 'https://shop.test/api/search', undefined, ed25519);
+    query.rawQuery = '?q=mug';
+    cases.push([query, 'the signature must cover @query']);
+
+    cases.push([signedRequest('GET', 'https://shop.test/api/search', undefined, ed25519, NOW - 301_000), 'signature is older than 300 seconds']);
+    cases.push([signedRequest('GET', 'https://shop.test/api/search', undefined, { keyId: 'nobody', apiKey: 'x' }), 'unknown key ID nobody']);
+
+    const wrongKey = signedRequest('GET', 'https://shop.test/api/search', undefined, { keyId: 'crawler-1', apiKey: 'guess' });
+    cases.push([wrongKey, 'signature does not verify']);
+
+    const wrongAlg = signedRequest('GET', 'https://shop.test/api/search', undefined, { keyId: 'shopbot-1', apiKey: 'x' });
+    cases.push([wrongAlg, 'key shopbot-1 signs with ed25519, not hmac-sha256']);
+
+    for (const [req, reason] of cases) {
+      const err = await rejection(auth, req);
+      expect(err).toMatchObject({ code: 'agent_signature_invalid', status: 401 });
+      expect(err.message).toBe(`Invalid agent signature: ${reason}`);
+    }
+  });
+});
+
+describe('MemoryAgentRegistry', () => {
+  it('needs exactly one key per agent and unique key IDs', () => {
+    expect(() => new MemoryAgentRegistry([{ keyId: 'k', agentId: 'a' }])).toThrow('exactly one of publicKey or apiKey');
+    expect(() => new MemoryAgentRegistry([agents[1], agents[1]])).toThrow('Duplicate agent key ID crawler-1');
+  });
+});
@@ -1,5 +1,7 @@
 import { generateAgentsJson } from '../src/agents-json';
+import { detail } from '../src/capabilities';
 import { AgentDoorConfig, CapabilityDefinition } from '../src/types';
+import { validateManifest } from '@agents-protocol/client';
 
 function makeConfig(overrides?: Partial<AgentDoorConfig>): AgentDoorConfig {
   return {
@@ -17,6 +19,19 @@ describe('generateAgentsJson', () => {
     expect(json.schema_version).toBe('1.0');
   });
 
+  it('declares the spec protocol version', () => {
+    const json = generateAgentsJson(makeConfig()) as any;
+    expect(json.protocol_version).toBe('0.1.0');
+  });
+
+  it('publishes the docs URL at the top level', () => {
+    const json = generateAgentsJson(makeConfig({
+      site: { name: 'Test Store', url: 'https://test.com', docs: 'https://test.com/docs/agents' },
+    })) as any;
+    expect(json.docs_url).toBe('https://test.com/docs/agents');
+    expect(json.site.docs).toBeUndefined();
+  });
+
   it('includes site metadata', () => {
     const json = generateAgentsJson(makeConfig()) as any;
     expect(json.site.name).toBe('Test Store');
@@ -58,11 +73,29 @@ describe('generateAgentsJson', () => {
     expect(json.capabilities[0].human_handoff).toBe(true);
   });
 
+  it('marks approval capabilities, which always require a session', () => {
+    const caps: CapabilityDefinition[] = [
+      { name: 'refund', description: 'Refund', method: 'POST', requiresApproval: true, handler: async () => {} },
+    ];
+    const json = generateAgentsJson(makeConfig({ capabilities: caps })) as any;
+    expect(json.capabilities[0]).toMatchObject({ requires_approval: true, requires_session: true });
+    expect(validateManifest(json).valid).toBe(true);
+  });
+
   it('includes session endpoint', () => {
     const json = generateAgentsJson(makeConfig()) as any;
     expect(json.session.create).toBe('/.well-known/agents/api/session');
   });
 
+  it('publishes session limits in the session block', () => {
+    const json = generateAgentsJson(makeConfig({
+      audit: true,
+      limits: { maxToolCalls: 50, maxCallsPerCapability: { search: 10 }, maxSpendUsd: 200 },
+    })) as any;
+    expect(json.session.limits).toEqual({ max_tool_calls: 50, max_calls_per_capability: { search: 10 }, max_spend_usd: 200 });
+    expect(generateAgentsJson(makeConfig()) as any).not.toHaveProperty('session.limits');
+  });
+
   it('includes rate limit when configured', () => {
     const json = generateAgentsJson(makeConfig({ rateLimit: 100 })) as any;
     expect(json.rate_limit.requests_per_minute).toBe(100);
@@ -73,14 +106,82 @@ describe('generateAgentsJson', () => {
     expect(json.rate_limit).toBeUndefined();
   });
 
-  it('maps detail capability to :id route', () => {
+  it('publishes per-capability rate limits', () => {
+    const caps: CapabilityDefinition[] = [
+      { name: 'search', description: 'Search', method: 'GET', handler: async () => [] },
+      { name: 'checkout', description: 'Checkout', method: 'POST', rateLimit: { requestsPerMinute: 5, burst: 2 }, handler: async () => {} },
+    ];
+    const json = generateAgentsJson(makeConfig({ capabilities: caps })) as any;
+    expect(json.capabilities[0].rate_limit).toBeUndefined();
+    expect(json.capabilities[1].rate_limit).toEqual({ requests_per_minute: 5, burst: 2 });
+  });
+
+  it('includes JSON Schema keywords and output_schema for capabilities', () => {
+    const caps: CapabilityDefinition[] = [
+      {
+        name: 'order',
+        description: 'Place an order',
+        method: 'POST',
+        params: {
+          items: { type: 'array', required: true, items: { type: 'object', properties: { sku: { type: 'string' } } } },
+        },
+        outputSchema: { type: 'object', properties: { order_id: { type: 'string' } } },
+        handler: async () => {},
+      },
+    ];
+    const json = generateAgentsJson(makeConfig({ capabilities: caps })) as any;
+    expect(json.capabilities[0].params.items.items.properties.sku).toEqual({ type: 'string' });
+    expect(json.capabilities[0].output_schema).toEqual({ type: 'object', properties: { order_id: { type: 'string' } } });
+  });
+
+  it('does not publish audit redaction rules', () => {
     const caps: CapabilityDefinition[] = [
-      { name: 'detail', description: 'Get detail', method: 'GET', params: { id: { type: 'string', required: true } }, handler: async () => {} },
+      { name: 'contact', description: 'Contact', method: 'POST', params: { email: { type: 'string', format: 'email', redact: 'hash' } }, handler: async () => {} },
     ];
     const json = generateAgentsJson(makeConfig({ capabilities: caps })) as any;
+    expect(json.capabilities[0].params.email).toEqual({ type: 'string', format: 'email' });
+  });
+
+  it('maps detail capability to :id route', () => {
+    const json = generateAgentsJson(makeConfig({ capabilities: [detail({ handler: async () => null })] })) as any;
     expect(json.capabilities[0].endpoint).toBe('/.well-known/agents/api/detail/:id');
   });
 
+  it('publishes a capability path template as its endpoint', () => {
+    const caps: CapabilityDefinition[] = [
+      {
+        name: 'order.items',
+        description: 'Items of an order',
+        method: 'GET',
+        path: '/orders/:order_id/items',
+        params: { order_id: { type: 'integer', required: true } },
+        handler: async () => [],
+      },
+    ];
+    const json = generateAgentsJson(makeConfig({ capabilities: caps })) as any;
+    expect(json.capabilities[0].endpoint).toBe('/.well-known/agents/api/orders/:order_id/items');
+    expect(validateManifest(json).errors).toEqual([]);
+  });
+
+  it('reports path params missing from params, or not required', () => {
+    const caps: CapabilityDefinition[] = [
+      { name: 'order', description: 'Order', method: 'GET', path: '/orders/:order_id', handler: async () => ({}) },
+      {
+        name: 'invoice',
+        description: 'Invoice',
+        method: 'GET',
+        path: '/invoices/:invoice_id',
+        params: { invoice_id: { type: 'string' } },
+        handler: async () => ({}),
+      },
+    ];
+    const { errors } = validateManifest(generateAgentsJson(makeConfig({ capabilities: caps })));
+    expect(errors).toEqual([
+      { pointer: '/capabilities/0/endpoint', message: 'has path parameter ":order_id", which is not declared in params' },
+      { pointer: '/capabilities/1/params/invoice_id/required', message: 'must be true for a path parameter' },
+    ]);
+  });
+
   it('includes flows when configured', () => {
     const json = generateAgentsJson(makeConfig({
       flows: [
@@ -109,3 +210,52 @@ describe('generateAgentsJson', () => {
     expect(json.session.delete).toBe('/.well-known/agents/api/session');
   });
 });
+
+describe('generateAgentsJson conformance', () => {
+  it('validates with an audit signing key', () => {
+    const json = generateAgentsJson(makeConfig({ audit: true }), {
+      algorithm: 'Ed25519',
+      publicKey: 'MCowBQYDK2VwAyEABkii3p4rtgXxez3sB2DfGel553kx4EAKWBLMFCYV6YM=',
+      keyId: 'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs',
+    }) as any;
+    expect(json.audit).toMatchObject({
+      public_key: 'MCowBQYDK2VwAyEABkii3p4rtgXxez3sB2DfGel553kx4EAKWBLMFCYV6YM=',
+      algorithm: 'Ed25519',
+      key_id: 'NzbLsXh8uDCcd-6MNwXF4W_7noWXFZAfHkxZsRGC9Xs',
+      keys_endpoint: '/.well-known/agents/api/audit/keys',
+      live_endpoint: '/.well-known/agents/api/audit/live',
+    });
+    expect(validateManifest(json).errors).toEqual([]);
+  });
+
+  it('validates against the spec schema with every option set', () => {
+    const json = generateAgentsJson(makeConfig({
+      site: { name: 'Test Store', url: 'https://test.com', contact: 'hi@test.com', docs: 'https://test.com/docs' },
+      capabilities: [
+        { name: 'search', description: 'Search', method: 'GET', params: { q: { type: 'string', required: true } }, handler: async () => [] },
+        {
+          name: 'cart.add',
+          description: 'Add',
+          method: 'POST',
+          requiresSession: true,
+          rateLimit: { requestsPerMinute: 5, burst: 2 },
+          outputSchema: { type: 'object' },
+          handler: async () => ({}),
+        },
+      ],
+      flows: [{ name: 'buy', description: 'Buy', steps: ['search', 'cart.add'] }],
+      rateLimit: 60,
+      sessionTtl: 900,
+      audit: true,
+      limits: { maxToolCalls: 50, maxCallsPerCapability: { 'cart.add': 10 }, maxSpendUsd: 200 },
+      agentAuth: { agents: [], required: true, maxSignatureAge: 120 },
+    }));
+    expect(validateManifest(json)).toEqual({ valid: true, errors: [], warnings: [] });
+    expect((json as any).agent_auth).toEqual({
+      required: true,
+      scheme: 'http-message-signatures',
+      algorithms: ['ed25519', 'hmac-sha256'],
+      max_age_seconds: 120,
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { generateAgentsTxt } from '../src/agents-txt';
+import { AgentDoorConfig } from '../src/types';
+// The client's parser implements the algorithm in spec/agents-txt.md.
+import { parseAgentsTxt } from '../../client/src/agents-txt';
+
+const FULL: AgentDoorConfig = {
+  site: {
+    name: 'Acme Ceramics',
+    url: 'https://acmeceramics.example.com',
+    description: 'Handmade ceramic mugs, bowls, and vases',
+    contact: 'support@acmeceramics.example.com',
+    docs: 'https://acmeceramics.example.com/docs/agents',
+  },
+  capabilities: [
+    { name: 'search', description: 'Search', method: 'GET', handler: async () => [] },
+    [
+      { name: 'cart.add', description: 'Add', method: 'POST', requiresSession: true, handler: async () => ({}) },
+      { name: 'cart.view', description: 'View', method: 'GET', requiresSession: true, handler: async () => ({}) },
+    ],
+    {
+      name: 'checkout',
+      description: 'Checkout',
+      method: 'POST',
+      requiresSession: true,
+      rateLimit: { requestsPerMinute: 5, burst: 2 },
+      handler: async () => ({}),
+    },
+  ],
+  flows: [{ name: 'purchase', description: 'Find and buy', steps: ['search', 'cart.add', 'checkout'] }],
+  rateLimit: 60,
+  sessionTtl: 3600,
+  audit: true,
+};
+
+const MINIMAL: AgentDoorConfig = {
+  site: { name: 'Minimal', url: 'https://min.example' },
+  capabilities: [{ name: 'search', description: 'Search', method: 'GET', handler: async () => [] }],
+};
+
+describe.each([
+  ['full config', FULL],
+  ['minimal config', MINIMAL],
+  ['custom basePath', { ...MINIMAL, basePath: '/agents-root' }],
+])('generateAgentsTxt conforms to the spec (%s)', (_label, config) => {
+  it('parses without errors or warnings', () => {
+    const { diagnostics, valid } = parseAgentsTxt(generateAgentsTxt(config));
+    expect(diagnostics).toEqual([]);
+    expect(valid).toBe(true);
+  });
+
+  it('round-trips the configured values', () => {
+    const { agentsTxt } = parseAgentsTxt(generateAgentsTxt(config));
+    const basePath = config.basePath ?? '/.well-known';
+    const api = `${config.site.url}${basePath}/agents/api`;
+
+    expect(agentsTxt.name).toBe(config.site.name);
+    expect(agentsTxt.url).toBe(config.site.url);
+    expect(agentsTxt.description).toBe(config.site.description);
+    expect(agentsTxt.contact).toBe(config.site.contact);
+    expect(agentsTxt.docs).toBe(config.site.docs);
+    expect(agentsTxt.capabilities).toEqual(config.capabilities.flat().map(c => c.name));
+    expect(agentsTxt.capabilitiesUrl).toBe(`${config.site.url}${basePath}/agents.json`);
+    expect(agentsTxt.agentApi).toBe(api);
+    expect(agentsTxt.sessionEndpoint).toBe(`${api}/session`);
+    expect(agentsTxt.rateLimit).toBe(config.rateLimit);
+    expect(agentsTxt.sessionTtl).toBe(config.sessionTtl);
+    expect(agentsTxt.audit).toBe(!!config.audit);
+    expect(agentsTxt.auditEndpoint).toBe(config.audit ? `${api}/audit` : undefined);
+  });
+});
+
+describe('generateAgentsTxt conformance extras', () => {
+  it('round-trips flows and per-capability rate limits', () => {
+    const { agentsTxt } = parseAgentsTxt(generateAgentsTxt(FULL));
+    expect(agentsTxt.flows).toEqual([
+      { name: 'purchase', description: 'Find and buy', steps: ['search', 'cart.add', 'checkout'] },
+    ]);
+    expect(agentsTxt.capabilityRateLimits).toEqual({ checkout: { requests_per_minute: 5, burst: 2 } });
+  });
+
+  it('stays spec-valid in legacy mode', () => {
+    const { agentsTxt, diagnostics } = parseAgentsTxt(generateAgentsTxt({ ...FULL, agentsTxtVersion: 'legacy' }));
+    expect(diagnostics).toEqual([]);
+    expect(agentsTxt.name).toBe('Acme Ceramics');
+    expect(agentsTxt.capabilities).toEqual(['search', 'cart.add', 'cart.view', 'checkout']);
+  });
+});
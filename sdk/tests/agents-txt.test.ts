@@ -15,7 +15,7 @@ function makeConfig(overrides?: Partial<AgentDoorConfig>): AgentDoorConfig {
 describe('generateAgentsTxt', () => {
   it('includes site name and URL', () => {
     const txt = generateAgentsTxt(makeConfig());
-    expect(txt).toContain('Site: Test Store');
+    expect(txt).toContain('Name: Test Store');
     expect(txt).toContain('URL: https://test.com');
   });
 
@@ -33,30 +33,101 @@ describe('generateAgentsTxt', () => {
     expect(txt).not.toContain('Contact:');
   });
 
-  it('lists all capabilities as Allow directives', () => {
+  it('lists all capabilities on one Capabilities line', () => {
     const txt = generateAgentsTxt(makeConfig());
-    expect(txt).toContain('Allow: search');
-    expect(txt).toContain('Allow: browse');
+    expect(txt).toContain('Capabilities: search, browse');
+    expect(txt).not.toContain('Allow:');
   });
 
   it('includes rate limit when configured', () => {
     const txt = generateAgentsTxt(makeConfig({ rateLimit: 120 }));
-    expect(txt).toContain('Rate-Limit: 120/minute');
+    expect(txt).toContain('Rate-Limit: 120\n');
+  });
+
+  it('lists per-capability rate limits', () => {
+    const txt = generateAgentsTxt(makeConfig({
+      capabilities: [
+        { name: 'search', description: 'Search', method: 'GET', rateLimit: { requestsPerMinute: 30 }, handler: async () => [] },
+        { name: 'checkout', description: 'Checkout', method: 'POST', rateLimit: { requestsPerMinute: 5, burst: 2 }, handler: async () => {} },
+      ],
+    }));
+    expect(txt).toContain('Capability-Rate-Limit: search 30/minute');
+    expect(txt).toContain('Capability-Rate-Limit: checkout 5/minute, burst 2');
   });
 
   it('includes session TTL when configured', () => {
     const txt = generateAgentsTxt(makeConfig({ sessionTtl: 900 }));
-    expect(txt).toContain('Session-TTL: 900s');
+    expect(txt).toContain('Session-TTL: 900\n');
   });
 
-  it('links to agents.json with site URL and base path', () => {
+  it('links to agents.json and the API with site URL and base path', () => {
     const txt = generateAgentsTxt(makeConfig());
-    expect(txt).toContain('Agents-JSON: https://test.com/.well-known/agents.json');
+    expect(txt).toContain('Capabilities-URL: https://test.com/.well-known/agents.json');
+    expect(txt).toContain('Agent-API: https://test.com/.well-known/agents/api');
+    expect(txt).toContain('Session-Endpoint: https://test.com/.well-known/agents/api/session');
   });
 
   it('respects custom basePath', () => {
     const txt = generateAgentsTxt(makeConfig({ basePath: '/api' }));
-    expect(txt).toContain('Agents-JSON: https://test.com/api/agents.json');
+    expect(txt).toContain('Capabilities-URL: https://test.com/api/agents.json');
+    expect(txt).toContain('Agent-API: https://test.com/api/agents/api');
+  });
+
+  it('includes the docs URL when configured', () => {
+    const txt = generateAgentsTxt(makeConfig({
+      site: { name: 'Test Store', url: 'https://test.com', docs: 'https://test.com/docs/agents' },
+    }));
+    expect(txt).toContain('Docs: https://test.com/docs/agents');
+  });
+
+  it('points Audit-Endpoint at the audit base URL', () => {
+    const txt = generateAgentsTxt(makeConfig({ audit: true }));
+    expect(txt).toContain('Audit: true');
+    expect(txt).toContain('Audit-Endpoint: https://test.com/.well-known/agents/api/audit\n');
+  });
+
+  it('adds the legacy keys in legacy mode', () => {
+    const txt = generateAgentsTxt(makeConfig({ agentsTxtVersion: 'legacy' }));
+    expect(txt).toContain('Name: Test Store');
+    expect(txt).toContain('Site: Test Store');
+    expect(txt).toContain('Capabilities: search, browse');
+    expect(txt).toContain('Allow: search');
+    expect(txt).toContain('Allow: browse');
+    expect(txt).toContain('Agents-JSON: https://test.com/.well-known/agents.json');
+  });
+
+  it('keeps every line the pre-0.1 SDK emitted in legacy mode', () => {
+    // Output of generateAgentsTxt before the spec format, for the config below.
+    const baseline = [
+      'Site: Test Store',
+      'URL: https://test.com',
+      'Description: A test store',
+      'Contact: hi@test.com',
+      'Agents-JSON: https://test.com/.well-known/agents.json',
+      'Allow: search',
+      'Allow: checkout',
+      'Flow: buy → search, checkout',
+      'Flow-Description: Find and buy',
+      'Rate-Limit: 60/minute',
+      'Capability-Rate-Limit: checkout 5/minute, burst 2',
+      'Session-TTL: 3600s',
+      'Audit: true',
+      'Audit-Endpoint: https://test.com/.well-known/agents/api/audit/:session_id',
+    ];
+    const txt = generateAgentsTxt(makeConfig({
+      agentsTxtVersion: 'legacy',
+      capabilities: [
+        { name: 'search', description: 'Search', method: 'GET', handler: async () => [] },
+        { name: 'checkout', description: 'Checkout', method: 'POST', rateLimit: { requestsPerMinute: 5, burst: 2 }, handler: async () => ({}) },
+      ],
+      flows: [{ name: 'buy', description: 'Find and buy', steps: ['search', 'checkout'] }],
+      rateLimit: 60,
+      sessionTtl: 3600,
+      audit: true,
+    }));
+    const lines = txt.split('\n');
+
+    for (const line of baseline) expect(lines).toContain(line);
   });
 
   it('flattens nested capability arrays (from cart())', () => {
@@ -65,7 +136,6 @@ describe('generateAgentsTxt', () => {
       { name: 'cart.view', description: 'View', method: 'GET' as const, requiresSession: true, handler: async () => {} },
     ];
     const txt = generateAgentsTxt(makeConfig({ capabilities: [cartCaps] as any }));
-    expect(txt).toContain('Allow: cart.add');
-    expect(txt).toContain('Allow: cart.view');
+    expect(txt).toContain('Capabilities: cart.add, cart.view');
   });
 });
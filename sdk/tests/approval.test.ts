@@ -0,0 +1,123 @@
+import { ApprovalManager } from '../src/approval';
+import { MemoryApprovalStore } from '../src/approval-store';
+import { AgentError } from '../src/errors';
+import { ApprovalRecord } from '../src/types';
+
+const inAnHour = () => new Date(Date.now() + 3_600_000);
+
+async function codeOf(promise: Promise<unknown>): Promise<string | undefined> {
+  const err = await promise.then(() => undefined, e => e);
+  return err instanceof AgentError ? err.code : undefined;
+}
+
+describe('ApprovalManager', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('holds a call as pending and tells onRequest the decision token', async () => {
+    const onRequest = jest.fn();
+    const manager = new ApprovalManager({ onRequest });
+    const approval = await manager.request('ses-1', 'refund', { amount: 20 }, inAnHour());
+
+    expect(approval).toMatchObject({ capability: 'refund', sessionId: 'ses-1', status: 'pending' });
+    expect(onRequest).toHaveBeenCalledWith(expect.objectContaining({ id: approval.id, decisionToken: approval.decisionToken }));
+    expect(manager.describe(approval, '/approvals/x', 'https://test.com')).not.toHaveProperty('decisionToken');
+  });
+
+  it('lets the operator or the decision token holder decide, and nobody else', async () => {
+    const manager = new ApprovalManager({ operatorToken: 'admin-secret' });
+    const approval = await manager.request('ses-1', 'refund', {}, inAnHour());
+    expect(manager.decider(approval, 'admin-secret')).toBe('operator');
+    expect(manager.decider(approval, approval.decisionToken)).toBe('user');
+    expect(manager.decider(approval, 'session-token')).toBeNull();
+    expect(manager.decider(approval, null)).toBeNull();
+  });
+
+  it('decides once and spends an approval on exactly the approved call', async () => {
+    const manager = new ApprovalManager();
+    const approval = await manager.request('ses-1', 'refund', { amount: 20 }, inAnHour());
+
+    expect(await codeOf(manager.consume(approval.id, 'ses-1', 'refund', { amount: 20 }))).toBe('approval_pending');
+    await manager.decide(approval.id, 'approve', 'user', 'ok');
+    expect(await codeOf(manager.decide(approval.id, 'deny', 'operator'))).toBe('conflict');
+
+    expect(await codeOf(manager.consume(approval.id, 'ses-2', 'refund', { amount: 20 }))).toBe('not_found');
+    expect(await codeOf(manager.consume(approval.id, 'ses-1', 'refund', { amount: 2000 }))).toBe('approval_mismatch');
+    await manager.consume(approval.id, 'ses-1', 'refund', { amount: 20 });
+    expect(await codeOf(manager.consume(approval.id, 'ses-1', 'refund', { amount: 20 }))).toBe('approval_used');
+    expect((await manager.get(approval.id))!.status).toBe('used');
+  });
+
+  it('spends an approval on only one of several concurrent calls', async () => {
+    const manager = new ApprovalManager();
+    const approval = await manager.request('ses-1', 'refund', { amount: 20 }, inAnHour());
+    await manager.decide(approval.id, 'approve', 'user');
+
+    const codes = await Promise.all([1, 2, 3].map(() => codeOf(manager.consume(approval.id, 'ses-1', 'refund', { amount: 20 }))));
+    expect(codes.sort()).toEqual(['approval_used', 'approval_used', undefined]);
+  });
+
+  it('settles concurrent decisions once and records only the winner', async () => {
+    const manager = new ApprovalManager();
+    const approval = await manager.request('ses-1', 'refund', {}, inAnHour());
+    const record = jest.fn(async (_a: ApprovalRecord) => {});
+
+    const outcomes = await Promise.all([
+      manager.decide(approval.id, 'approve', 'user', undefined, record).then(a => a.status, e => e.code),
+      manager.decide(approval.id, 'deny', 'operator', undefined, record).then(a => a.status, e => e.code),
+    ]);
+    expect(outcomes.filter(o => o === 'conflict')).toHaveLength(1);
+    expect(record).toHaveBeenCalledTimes(1);
+    expect((await manager.get(approval.id))!.status).toBe(record.mock.calls[0][0].status);
+  });
+
+  it('does not let a late decision overwrite a spent approval', async () => {
+    const manager = new ApprovalManager();
+    const approval = await manager.request('ses-1', 'refund', {}, inAnHour());
+    await manager.decide(approval.id, 'approve', 'user');
+    await manager.consume(approval.id, 'ses-1', 'refund', {});
+    expect(await codeOf(manager.decide(approval.id, 'deny', 'operator'))).toBe('conflict');
+    expect((await manager.get(approval.id))!.status).toBe('used');
+  });
+
+  it('reports a denial with its reason', async () => {
+    const manager = new ApprovalManager();
+    const approval = await manager.request('ses-1', 'refund', {}, inAnHour());
+    await manager.decide(approval.id, 'deny', 'operator', 'Too large');
+    const err = await manager.consume(approval.id, 'ses-1', 'refund', {}).catch(e => e) as AgentError;
+    expect(err.code).toBe('approval_denied');
+    expect(err.details).toEqual({ reason: 'Too large' });
+  });
+
+  it('does not save a decision that could not be recorded', async () => {
+    const manager = new ApprovalManager();
+    const approval = await manager.request('ses-1', 'refund', {}, inAnHour());
+    const record = async (_a: ApprovalRecord) => { throw new Error('session ended'); };
+    await expect(manager.decide(approval.id, 'approve', 'user', undefined, record)).rejects.toThrow('session ended');
+    expect((await manager.get(approval.id))!.status).toBe('pending');
+  });
+
+  it('expires requests with their session at the latest', async () => {
+    jest.useFakeTimers({ now: new Date('2026-06-01T00:00:00.000Z') });
+    const manager = new ApprovalManager({ ttl: 900 });
+    const sessionEnds = new Date('2026-06-01T00:05:00.000Z');
+    const approval = await manager.request('ses-1', 'refund', {}, sessionEnds);
+    expect(approval.expiresAt).toEqual(sessionEnds);
+
+    jest.setSystemTime(sessionEnds);
+    expect((await manager.get(approval.id))!.status).toBe('expired');
+    expect(await codeOf(manager.decide(approval.id, 'approve', 'user'))).toBe('conflict');
+  });
+
+  it('sweeps requests an hour after they expire', async () => {
+    jest.useFakeTimers({ now: new Date('2026-06-01T00:00:00.000Z') });
+    const store = new MemoryApprovalStore();
+    const manager = new ApprovalManager({ store, ttl: 60 });
+    const old = await manager.request('ses-1', 'refund', {}, inAnHour());
+
+    jest.setSystemTime(new Date('2026-06-01T02:00:00.000Z'));
+    await manager.request('ses-1', 'refund', {}, inAnHour());
+    expect(await store.get(old.id)).toBeNull();
+  });
+});
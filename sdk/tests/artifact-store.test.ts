@@ -0,0 +1,86 @@
+import { mkdtempSync, rmSync, readdirSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { MemoryArtifactStore, FileArtifactStore } from '../src/artifact-store';
+import { ArtifactStore } from '../src/types';
+
+const ARTIFACT = { run_id: 'run-1', events: [{ seq: 0 }], runtime_signature: 'c2ln' };
+
+function inOneMinute(): Date {
+  return new Date(Date.now() + 60_000);
+}
+
+function describeStore(name: string, create: () => ArtifactStore, teardown: () => void = () => {}) {
+  describe(name, () => {
+    let store: ArtifactStore;
+
+    beforeEach(() => {
+      store = create();
+    });
+
+    afterEach(teardown);
+
+    it('round-trips an artifact', async () => {
+      await store.set('sess-1', ARTIFACT, inOneMinute());
+      expect(await store.get('sess-1')).toEqual(ARTIFACT);
+    });
+
+    it('returns null for unknown sessions', async () => {
+      expect(await store.get('missing')).toBeNull();
+    });
+
+    it('deletes artifacts', async () => {
+      await store.set('sess-1', ARTIFACT, inOneMinute());
+      await store.delete('sess-1');
+      expect(await store.get('sess-1')).toBeNull();
+      expect(await store.scanExpired(new Date(Date.now() + 120_000))).toEqual([]);
+    });
+
+    it('scanExpired lists only artifacts past their retention', async () => {
+      await store.set('live', ARTIFACT, inOneMinute());
+      await store.set('dead', ARTIFACT, new Date(Date.now() - 1_000));
+      expect(await store.scanExpired(new Date())).toEqual(['dead']);
+    });
+  });
+}
+
+describeStore('MemoryArtifactStore', () => new MemoryArtifactStore());
+
+let dir = '';
+describeStore(
+  'FileArtifactStore',
+  () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'agents-artifacts-'));
+    return new FileArtifactStore(dir);
+  },
+  () => rmSync(dir, { recursive: true, force: true }),
+);
+
+describe('FileArtifactStore on disk', () => {
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'agents-artifacts-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('writes one hashed file per session plus an index', async () => {
+    const store = new FileArtifactStore(dir);
+    await Promise.all([
+      store.set('../../secret-token', ARTIFACT, inOneMinute()),
+      store.set('other', ARTIFACT, inOneMinute()),
+    ]);
+    const files = readdirSync(dir).sort();
+    expect(files).toHaveLength(3);
+    expect(files).toContain('index.json');
+    expect(files.join()).not.toContain('secret-token');
+    // Concurrent writes must not drop each other's index entries.
+    expect((await store.scanExpired(new Date(Date.now() + 120_000))).sort()).toEqual(['../../secret-token', 'other']);
+  });
+
+  it('survives a new store instance over the same directory', async () => {
+    await new FileArtifactStore(dir).set('sess-1', ARTIFACT, inOneMinute());
+    expect(await new FileArtifactStore(dir).get('sess-1')).toEqual(ARTIFACT);
+  });
+});
@@ -0,0 +1,70 @@
+import { AuditAccessControl } from '../src/audit-access';
+
+function linkParams(query: string): { expires: string; signature: string } {
+  const params = new URLSearchParams(query);
+  return { expires: params.get('expires')!, signature: params.get('signature')! };
+}
+
+describe('AuditAccessControl', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('lets anyone in by default', () => {
+    const access = new AuditAccessControl();
+    expect(access.authorize('ses-1', {})).toBe('public');
+    expect(access.issuesProofTokens).toBe(false);
+  });
+
+  it('admits the holder with its live session or the proof token for that session only', () => {
+    const access = new AuditAccessControl({ access: 'holder' });
+    const proof = access.issueProof('ses-1');
+
+    expect(access.authorize('ses-1', {})).toBeNull();
+    expect(access.authorize('ses-1', { credential: proof })).toBe('holder');
+    expect(access.authorize('ses-2', { credential: proof })).toBeNull();
+    expect(access.authorize('ses-1', { credential: 'live-token', liveSessionId: 'ses-1' })).toBe('holder');
+    expect(access.authorize('ses-1', { credential: 'live-token', liveSessionId: 'ses-2' })).toBeNull();
+  });
+
+  it('admits the operator credential for every session', () => {
+    const access = new AuditAccessControl({ access: ['holder', 'operator'], operatorToken: 'admin-secret' });
+    expect(access.authorize('ses-1', { credential: 'admin-secret' })).toBe('operator');
+    expect(access.authorize('ses-2', { credential: 'admin-secret' })).toBe('operator');
+    expect(access.authorize('ses-1', { credential: 'admin-secre' })).toBeNull();
+  });
+
+  it('requires an operator credential when the operator policy is configured', () => {
+    expect(() => new AuditAccessControl({ access: 'operator' })).toThrow('no audit.operatorToken');
+  });
+
+  it('honours a signed link until it expires, whatever the policy', () => {
+    jest.useFakeTimers({ now: new Date('2026-06-01T00:00:00.000Z') });
+    const access = new AuditAccessControl({ access: 'operator', operatorToken: 'admin-secret' });
+    const { query, expiresAt } = access.signLink('ses-1', 600);
+    expect(expiresAt.toISOString()).toBe('2026-06-01T00:10:00.000Z');
+
+    const link = linkParams(query);
+    expect(access.authorize('ses-1', link)).toBe('link');
+    expect(access.authorize('ses-2', link)).toBeNull();
+    expect(access.authorize('ses-1', { ...link, expires: String(Number(link.expires) + 60) })).toBeNull();
+
+    jest.setSystemTime(expiresAt);
+    expect(access.authorize('ses-1', link)).toBeNull();
+  });
+
+  it('caps link lifetimes at downloadLinkTtl', () => {
+    const access = new AuditAccessControl({ downloadLinkTtl: 60 });
+    const { expiresAt } = access.signLink('ses-1', 86_400);
+    expect(expiresAt.getTime() - Date.now()).toBeLessThanOrEqual(60_000);
+  });
+
+  it('keeps proofs and links valid across instances that share a secret', () => {
+    const options = { access: 'holder' as const, accessSecret: 'shared-secret' };
+    const a = new AuditAccessControl(options);
+    const b = new AuditAccessControl(options);
+    expect(b.authorize('ses-1', { credential: a.issueProof('ses-1') })).toBe('holder');
+    expect(b.authorize('ses-1', linkParams(a.signLink('ses-1').query))).toBe('link');
+    expect(new AuditAccessControl({ access: 'holder' }).authorize('ses-1', { credential: a.issueProof('ses-1') })).toBeNull();
+  });
+});
@@ -1,4 +1,12 @@
-import { AuditManager } from '../src/audit';
+import { generateKeyPairSync } from 'crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { verifyArtifact, verifyArtifactWithKeys } from '@agents-protocol/client';
+import { main as agentsVerify } from '../../client/src/verify-cli';
+import { AuditManager, hashSessionToken } from '../src/audit';
+import { FileArtifactStore, MemoryArtifactStore } from '../src/artifact-store';
+import { ManualClock, withoutTimers } from '../src/clock';
 
 describe('AuditManager', () => {
   let audit: AuditManager;
@@ -17,18 +25,31 @@ describe('AuditManager', () => {
     expect(audit.getPublicKeyRaw().length).toBe(32);
   });
 
+  it('describes the public key as an Ed25519 JWK with a thumbprint kid', () => {
+    audit = new AuditManager();
+    const jwk = audit.getPublicKeyJwk();
+    expect(jwk).toMatchObject({ kty: 'OKP', crv: 'Ed25519', alg: 'EdDSA', use: 'sig' });
+    expect(Buffer.from(jwk.x, 'base64url')).toEqual(Buffer.from(audit.getPublicKeyRaw()));
+    expect(jwk.kid).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(audit.getPublicKeyInfo()).toEqual({
+      algorithm: 'Ed25519',
+      publicKey: audit.getPublicKeyDER().toString('base64'),
+      keyId: jwk.kid,
+    });
+  });
+
   it('starts a session and creates a runtime', () => {
     audit = new AuditManager(3600);
     // Should not throw
-    audit.startSession('token-1', 'https://test.com', ['search', 'browse']);
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['search', 'browse']);
   });
 
   it('logs capability calls through the runtime', async () => {
     audit = new AuditManager(3600);
-    audit.startSession('token-1', 'https://test.com', ['search']);
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['search']);
 
     const result = await audit.callCapability(
-      'token-1',
+      'ses-1',
       'search',
       { q: 'mugs' },
       async () => [{ id: '1', name: 'Blue Mug' }],
@@ -39,16 +60,16 @@ describe('AuditManager', () => {
 
   it('produces a signed artifact when session ends', async () => {
     audit = new AuditManager(3600);
-    audit.startSession('token-1', 'https://test.com', ['search']);
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['search']);
 
     await audit.callCapability(
-      'token-1',
+      'ses-1',
       'search',
       { q: 'test' },
       async () => [{ id: '1' }],
     );
 
-    const artifact = audit.endSession('token-1');
+    const artifact = await audit.endSession('ses-1');
     expect(artifact).not.toBeNull();
     expect(artifact!.run_id).toBeDefined();
     expect(artifact!.envelope).toBeDefined();
@@ -56,23 +77,175 @@ describe('AuditManager', () => {
     expect(artifact!.events.length).toBeGreaterThan(0);
     expect(artifact!.runtime_signature).toBeDefined();
     expect(artifact!.runtime_signature.length).toBeGreaterThan(0);
+    expect(artifact!.envelope.principal.id).toBe(hashSessionToken('token-1'));
+    expect(JSON.stringify(artifact)).not.toContain('token-1');
+  });
+
+  it('names a registered agent as the principal', async () => {
+    audit = new AuditManager(3600);
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['search'], {
+      agent: { agentId: 'shopbot', name: 'ShopBot', keyId: 'shopbot-1', algorithm: 'ed25519' },
+    });
+
+    const artifact = await audit.endSession('ses-1');
+    expect(artifact!.envelope.principal).toEqual({ type: 'agent', id: 'shopbot' });
+    expect(artifact!.envelope.context).toMatchObject({
+      session_token_sha256: hashSessionToken('token-1'),
+      agent: { key_id: 'shopbot-1', algorithm: 'ed25519', name: 'ShopBot' },
+    });
   });
 
   it('stores artifact for retrieval after session ends', async () => {
     audit = new AuditManager(3600);
-    audit.startSession('token-1', 'https://test.com', ['search']);
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['search']);
 
-    await audit.callCapability('token-1', 'search', { q: 'x' }, async () => []);
-    audit.endSession('token-1');
+    await audit.callCapability('ses-1', 'search', { q: 'x' }, async () => []);
+    await audit.endSession('ses-1');
 
-    const artifact = audit.getArtifact('token-1');
+    const artifact = await audit.getArtifact('ses-1');
     expect(artifact).not.toBeNull();
     expect(artifact!.events.length).toBeGreaterThan(0);
   });
 
-  it('returns null for unknown session artifacts', () => {
+  it('returns null for unknown session artifacts', async () => {
     audit = new AuditManager();
-    expect(audit.getArtifact('nonexistent')).toBeNull();
+    expect(await audit.getArtifact('nonexistent')).toBeNull();
+  });
+
+  it('seals open sessions into the store on destroy', async () => {
+    audit = new AuditManager(3600);
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['search']);
+    await audit.destroy();
+    expect(await audit.getArtifact('ses-1')).not.toBeNull();
+  });
+
+  it('keeps artifacts in the configured store for the retention period', async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'agents-artifacts-'));
+    try {
+      const artifactStore = new FileArtifactStore(dir);
+      audit = new AuditManager(3600, { artifactStore, artifactRetention: 60 });
+      audit.startSession('ses-1', 'token-1', 'https://test.com', ['search']);
+      const before = Date.now();
+      await audit.endSession('ses-1');
+      await audit.destroy();
+
+      // A fresh manager over the same directory still serves the artifact.
+      audit = new AuditManager(3600, { artifactStore: new FileArtifactStore(dir) });
+      expect(await audit.getArtifact('ses-1')).not.toBeNull();
+      expect(await artifactStore.scanExpired(new Date(before + 59_000))).toEqual([]);
+      expect(await artifactStore.scanExpired(new Date(before + 61_000))).toEqual(['ses-1']);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps an artifact the store refused, serves it and stores it on the next sweep', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const artifactStore = new MemoryArtifactStore();
+    const set = jest.spyOn(artifactStore, 'set').mockRejectedValueOnce(new Error('EACCES'));
+    audit = new AuditManager(3600, { artifactStore }, withoutTimers(new ManualClock(Date.now())));
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['search']);
+
+    const artifact = await audit.endSession('ses-1');
+    expect(artifact).not.toBeNull();
+    expect(await artifactStore.get('ses-1')).toBeNull();
+    expect(await audit.getArtifact('ses-1')).toBe(artifact);
+
+    await audit.sweep();
+    expect(set).toHaveBeenCalledTimes(2);
+    expect(await artifactStore.get('ses-1')).toEqual(artifact);
+    error.mockRestore();
+  });
+
+  it('rejects destroy when an artifact could not be stored', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const artifactStore = new MemoryArtifactStore();
+    jest.spyOn(artifactStore, 'set').mockRejectedValue(new Error('EACCES'));
+    const manager = new AuditManager(3600, { artifactStore });
+    manager.startSession('ses-1', 'token-1', 'https://test.com', ['search']);
+    await expect(manager.destroy()).rejects.toThrow('ses-1');
+    error.mockRestore();
+  });
+
+  it('serves the live log until the session is sealed', async () => {
+    audit = new AuditManager(3600);
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['search']);
+    await audit.callCapability('ses-1', 'search', { q: 'x' }, async () => []);
+
+    expect(audit.isActive('ses-1')).toBe(true);
+    const log = audit.getLiveLog('ses-1')!;
+    expect(log.event_count).toBe(log.events.length);
+    expect(log.event_count).toBeGreaterThan(0);
+    expect(log).not.toHaveProperty('runtime_signature');
+
+    await audit.endSession('ses-1');
+    expect(audit.isActive('ses-1')).toBe(false);
+    expect(audit.getLiveLog('ses-1')).toBeNull();
+  });
+
+  it('signs the session deadline as the envelope expiry and follows extensions up to it', async () => {
+    audit = new AuditManager(600);
+    const now = Date.now();
+    const deadline = new Date(now + 1_800_000);
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['search'], {
+      expiresAt: new Date(now + 600_000),
+      maxExpiresAt: deadline,
+    });
+
+    audit.extendSession('ses-1', new Date(now + 1_200_000));
+    expect(audit.getLiveLog('ses-1')!.expires_at).toBe(new Date(now + 1_200_000).toISOString());
+    audit.extendSession('ses-1', new Date(now + 7_200_000));
+    expect(audit.getLiveLog('ses-1')!.expires_at).toBe(deadline.toISOString());
+
+    const { envelope } = (await audit.endSession('ses-1'))!;
+    expect(envelope.expires_at).toBe(deadline.toISOString());
+  });
+
+  it('seals an expired session when it is next touched, without timers', async () => {
+    const clock = new ManualClock(Date.now());
+    audit = new AuditManager(600, {}, withoutTimers(clock));
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['search']);
+    audit.startSession('ses-2', 'token-2', 'https://test.com', ['search']);
+
+    clock.advance(600_000);
+    expect(audit.getUsage('ses-1')).toBeNull();
+    const handler = jest.fn(async () => []);
+    await audit.callCapability('ses-1', 'search', { q: 'x' }, handler);
+    expect(handler).toHaveBeenCalled();
+    // The artifact endpoint seals and stores before it answers.
+    expect(await audit.getArtifact('ses-2')).toMatchObject({ envelope: { context: { session_id: 'ses-2' } } });
+  });
+
+  it('rotates a due signing key when the next session starts', () => {
+    const clock = new ManualClock(Date.now());
+    audit = new AuditManager(600, { rotateEvery: 3600 }, withoutTimers(clock));
+    const first = audit.getPublicKeyJwk().kid;
+
+    clock.advance(3_600_000);
+    expect(audit.getPublicKeyJwk().kid).toBe(first);
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['search']);
+    expect(audit.getPublicKeyJwk().kid).not.toBe(first);
+  });
+
+  it('records redacted input and output but returns the real output', async () => {
+    audit = new AuditManager(3600, {
+      redact: (data, { phase }) => (phase === 'output' ? { ...(data as object), ticket: 'redacted-ticket' } : data),
+    });
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['contact']);
+
+    const result = await audit.callCapability(
+      'ses-1',
+      'contact',
+      { email: 'ada@example.com', note: 'call me on 555-0100', topic: 'order' },
+      async () => ({ ticket: 'T-98765' }),
+      { email: { type: 'string', redact: 'hash' }, note: { type: 'string', redact: 'drop' } },
+    );
+    expect(result).toEqual({ ticket: 'T-98765' });
+
+    const recorded = JSON.stringify((await audit.endSession('ses-1'))!.events);
+    expect(recorded).not.toContain('ada@example.com');
+    expect(recorded).not.toContain('555-0100');
+    expect(recorded).not.toContain('T-98765');
   });
 
   it('falls through to handler when no runtime exists', async () => {
@@ -89,13 +262,13 @@ describe('AuditManager', () => {
 
   it('logs multiple capability calls in sequence', async () => {
     audit = new AuditManager(3600);
-    audit.startSession('token-1', 'https://test.com', ['search', 'browse']);
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['search', 'browse']);
 
-    await audit.callCapability('token-1', 'search', { q: 'a' }, async () => [1]);
-    await audit.callCapability('token-1', 'browse', {}, async () => ({ items: [2], total: 1 }));
-    await audit.callCapability('token-1', 'search', { q: 'b' }, async () => [3]);
+    await audit.callCapability('ses-1', 'search', { q: 'a' }, async () => [1]);
+    await audit.callCapability('ses-1', 'browse', {}, async () => ({ items: [2], total: 1 }));
+    await audit.callCapability('ses-1', 'search', { q: 'b' }, async () => [3]);
 
-    const artifact = audit.endSession('token-1');
+    const artifact = await audit.endSession('ses-1');
     expect(artifact).not.toBeNull();
 
     // RunStarted + 3x (PolicyEvaluated + ToolCalled + ToolReturned) + RunEnded
@@ -106,11 +279,11 @@ describe('AuditManager', () => {
   it('propagates PolicyDeniedError and does not run the handler', async () => {
     audit = new AuditManager(3600);
     // Start session with no capabilities allowed so any callTool triggers a denial
-    audit.startSession('token-deny', 'https://test.com', []);
+    audit.startSession('ses-deny', 'token-deny', 'https://test.com', []);
 
     let handlerRan = false;
     await expect(
-      audit.callCapability('token-deny', 'blocked-tool', {}, async () => {
+      audit.callCapability('ses-deny', 'blocked-tool', {}, async () => {
         handlerRan = true;
         return 'should-not-reach';
       }),
@@ -119,12 +292,36 @@ describe('AuditManager', () => {
     expect(handlerRan).toBe(false);
   });
 
+  it('writes session limits into the envelope and denies calls past them', async () => {
+    audit = new AuditManager(3600);
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['search', 'checkout'], {
+      limits: { maxToolCalls: 3, maxCallsPerCapability: { checkout: 1 }, maxSpendUsd: 100 },
+    });
+
+    await audit.callCapability('ses-1', 'checkout', {}, async () => ({}));
+    await expect(audit.callCapability('ses-1', 'checkout', {}, async () => ({}))).rejects.toThrow('limit of calls to checkout');
+    await audit.callCapability('ses-1', 'search', {}, async () => []);
+    await audit.callCapability('ses-1', 'search', {}, async () => []);
+    let handlerRan = false;
+    await expect(audit.callCapability('ses-1', 'search', {}, async () => { handlerRan = true; })).rejects.toThrow('tool call limit (3)');
+    expect(handlerRan).toBe(false);
+
+    expect(() => audit.checkSpend('ses-1', 100)).not.toThrow();
+    expect(() => audit.checkSpend('ses-1', 100.01)).toThrow('cap of 100 USD');
+    expect(audit.getUsage('ses-1')).toMatchObject({ toolCalls: 3, callsByTool: { checkout: 1, search: 2 } });
+
+    const { permissions, context } = (await audit.endSession('ses-1'))!.envelope;
+    expect(permissions.spend_caps.max_usd).toBe(100);
+    expect(permissions.rate_limits.max_tool_calls).toBe(3);
+    expect(context.max_calls_per_tool).toEqual({ checkout: 1 });
+  });
+
   it('artifact events form a valid hash chain', async () => {
     audit = new AuditManager(3600);
-    audit.startSession('token-1', 'https://test.com', ['search']);
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['search']);
 
-    await audit.callCapability('token-1', 'search', { q: 'test' }, async () => []);
-    const artifact = audit.endSession('token-1');
+    await audit.callCapability('ses-1', 'search', { q: 'test' }, async () => []);
+    const artifact = await audit.endSession('ses-1');
 
     // Verify hash chain: each event's parent_event_hash points to previous event's event_hash
     const events = artifact!.events;
@@ -134,3 +331,154 @@ describe('AuditManager', () => {
     }
   });
 });
+
+describe('AuditManager artifacts, verified offline', () => {
+  let audit: AuditManager;
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'audit-verify-'));
+  });
+
+  afterEach(() => {
+    audit?.destroy();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function sealedArtifact() {
+    audit = new AuditManager(3600, {}, withoutTimers(new ManualClock(Date.parse('2026-03-01T12:00:00Z'))));
+    audit.startSession('ses-1', 'token-1', 'https://test.com', ['search', 'cart.add'], {
+      approvalTools: ['cart.add'],
+      limits: { maxToolCalls: 5 },
+    });
+    await audit.callCapability('ses-1', 'search', { q: 'mugs' }, async () => [{ id: '1' }]);
+    await audit.recordApproval('ses-1', { approval_id: 'apr_1', capability: 'cart.add', decision: 'approved', decided_by: 'user' });
+    await audit.callCapability('ses-1', 'cart.add', { item_id: '1', quantity: 2 }, async () => ({ items: 1 }));
+    return (await audit.endSession('ses-1'))!;
+  }
+
+  /** Run agents-verify on `artifact` as a site would serve it; returns its exit code and output. */
+  function runCli(artifact: unknown, keyArgs: string[]): { status: number; output: string } {
+    const file = path.join(dir, 'artifact.json');
+    writeFileSync(file, JSON.stringify({ ok: true, data: artifact }));
+    const lines: string[] = [];
+    const status = agentsVerify([file, ...keyArgs], line => lines.push(line));
+    return { status, output: lines.join('\n') };
+  }
+
+  it('passes the client verifier with the published key and key set', async () => {
+    const artifact = await sealedArtifact();
+
+    const report = verifyArtifact(artifact, audit.getPublicKeyInfo().publicKey);
+    expect(report).toMatchObject({ valid: true, keyId: audit.getPublicKeyInfo().keyId });
+    expect(verifyArtifactWithKeys(artifact, audit.getPublishedKeys()).valid).toBe(true);
+  });
+
+  it('passes the agents-verify command and fails it once tampered with', async () => {
+    const artifact = await sealedArtifact();
+    const keysFile = path.join(dir, 'keys.json');
+    writeFileSync(keysFile, JSON.stringify({ keys: audit.getPublishedKeys() }));
+
+    const byKey = runCli(artifact, ['--key', audit.getPublicKeyInfo().publicKey]);
+    expect(byKey.status).toBe(0);
+    expect(byKey.output).toMatch(/^VALID/);
+    expect(runCli(artifact, ['--keys', keysFile]).status).toBe(0);
+
+    const tampered = JSON.parse(JSON.stringify(artifact));
+    tampered.events[1].payload = { ...tampered.events[1].payload, forged: true };
+    const forged = runCli(tampered, ['--keys', keysFile]);
+    expect(forged.status).toBe(1);
+    expect(forged.output).toContain('FAIL hash chain: event 1 does not match its event_hash');
+  });
+});
+
+describe('AuditManager signing keys', () => {
+  let audit: AuditManager;
+  let dir: string;
+
+  function ed25519Pem(): string {
+    return generateKeyPairSync('ed25519').privateKey.export({ format: 'pem', type: 'pkcs8' }).toString();
+  }
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'agents-audit-keys-'));
+  });
+
+  afterEach(() => {
+    audit?.destroy();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads the same key from a PEM file on every start', () => {
+    const file = path.join(dir, 'audit.pem');
+    writeFileSync(file, ed25519Pem());
+
+    audit = new AuditManager(3600, { signingKey: file });
+    const first = audit.getPublicKeyJwk().kid;
+    audit.destroy();
+    audit = new AuditManager(3600, { signingKey: file });
+    expect(audit.getPublicKeyJwk().kid).toBe(first);
+  });
+
+  it('loads a DER key from a provider', () => {
+    const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+    audit = new AuditManager(3600, { signingKey: () => privateKey.export({ format: 'der', type: 'pkcs8' }) });
+    expect(audit.getPublicKeyDER()).toEqual(publicKey.export({ format: 'der', type: 'spki' }));
+  });
+
+  it('rejects keys that are not Ed25519', () => {
+    const rsa = generateKeyPairSync('rsa', { modulusLength: 1024 }).privateKey.export({ format: 'pem', type: 'pkcs8' });
+    expect(() => new AuditManager(3600, { signingKey: () => rsa.toString() })).toThrow('must be Ed25519, got rsa');
+  });
+
+  it('keeps retired keys published with their validity windows', () => {
+    audit = new AuditManager(3600);
+    const retired = audit.getPublicKeyJwk();
+    audit.rotateKey(new Date('2026-01-01T00:00:00Z'));
+
+    const keys = audit.getPublishedKeys();
+    expect(keys).toHaveLength(2);
+    expect(keys[0].kid).toBe(audit.getPublicKeyJwk().kid);
+    expect(keys[0]).toMatchObject({ not_before: '2026-01-01T00:00:00.000Z' });
+    expect(keys[0].not_after).toBeUndefined();
+    expect(keys[1]).toMatchObject({ kid: retired.kid, x: retired.x, not_after: '2026-01-01T00:00:00.000Z' });
+  });
+
+  it('rotates to the next provider key, and not at all while the provider repeats itself', () => {
+    const pems = [ed25519Pem(), ed25519Pem()];
+    let current = pems[0];
+    audit = new AuditManager(3600, { signingKey: () => current });
+    const first = audit.getPublicKeyJwk().kid;
+
+    audit.rotateKey();
+    expect(audit.getPublicKeyJwk().kid).toBe(first);
+
+    current = pems[1];
+    audit.rotateKey();
+    expect(audit.getPublicKeyJwk().kid).not.toBe(first);
+    expect(audit.getPublishedKeys().map(k => k.kid)).toContain(first);
+  });
+
+  it('remembers retired keys across restarts through the history file', () => {
+    const keyHistoryFile = path.join(dir, 'keys.json');
+    audit = new AuditManager(3600, { keyHistoryFile });
+    const beforeRestart = audit.getPublicKeyJwk().kid;
+    audit.destroy();
+
+    audit = new AuditManager(3600, { keyHistoryFile });
+    const published = audit.getPublishedKeys();
+    expect(published.map(k => k.kid)).toEqual([audit.getPublicKeyJwk().kid, beforeRestart]);
+    expect(published[1].not_after).toBeDefined();
+  });
+
+  it('refuses to sign again with a retired key', () => {
+    const keyHistoryFile = path.join(dir, 'keys.json');
+    const pem = ed25519Pem();
+    audit = new AuditManager(3600, { signingKey: () => pem, keyHistoryFile });
+    audit.destroy();
+    audit = new AuditManager(3600, { keyHistoryFile });
+    audit.destroy();
+
+    expect(() => new AuditManager(3600, { signingKey: () => pem, keyHistoryFile })).toThrow(/was retired at/);
+  });
+});
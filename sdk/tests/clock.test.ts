@@ -0,0 +1,32 @@
+import { ManualClock, withoutTimers } from '../src/clock';
+
+describe('ManualClock', () => {
+  it('runs scheduled tasks as time passes, in order, until stopped', () => {
+    const clock = new ManualClock(new Date(1_000));
+    const runs: string[] = [];
+    const stopFast = clock.every(100, () => runs.push(`fast@${clock.now()}`));
+    clock.every(250, () => runs.push(`slow@${clock.now()}`));
+
+    clock.advance(300);
+    expect(runs).toEqual(['fast@1100', 'fast@1200', 'slow@1250', 'fast@1300']);
+    expect(clock.now()).toBe(1_300);
+
+    stopFast();
+    runs.length = 0;
+    clock.advance(200);
+    expect(runs).toEqual(['slow@1500']);
+  });
+});
+
+describe('withoutTimers', () => {
+  it('keeps the time and never schedules', () => {
+    const clock = new ManualClock(5_000);
+    const timerless = withoutTimers(clock);
+    const task = jest.fn();
+    timerless.every(10, task)();
+
+    clock.advance(1_000);
+    expect(timerless.now()).toBe(6_000);
+    expect(task).not.toHaveBeenCalled();
+  });
+});
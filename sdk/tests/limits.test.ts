@@ -0,0 +1,57 @@
+import { publishLimits, remainingQuota, resolveSessionLimits } from '../src/limits';
+
+describe('resolveSessionLimits', () => {
+  const names = ['search', 'checkout'];
+
+  it('keeps the site limits when the agent asks for none', () => {
+    const site = { maxToolCalls: 10 };
+    expect(resolveSessionLimits(site, undefined, names)).toBe(site);
+  });
+
+  it('takes the lower of each limit', () => {
+    const limits = resolveSessionLimits(
+      { maxToolCalls: 10, maxCallsPerCapability: { search: 5 } },
+      { max_tool_calls: 50, max_calls_per_capability: { search: 2, checkout: 1 }, max_spend_usd: 75 },
+      names,
+    );
+    expect(publishLimits(limits)).toEqual({
+      max_tool_calls: 10,
+      max_calls_per_capability: { search: 2, checkout: 1 },
+      max_spend_usd: 75,
+    });
+  });
+
+  it('lists every problem with the request', () => {
+    expect(() => resolveSessionLimits({}, {
+      max_tool_calls: 1.5,
+      max_calls_per_capability: { teleport: 1 },
+      max_spend_usd: -5,
+      max_minutes: 3,
+    }, names)).toThrow(
+      'Invalid limits: limits.max_minutes is not a known limit; limits.max_tool_calls must be a non-negative integer; '
+      + 'limits.max_spend_usd must be a non-negative number; limits.max_calls_per_capability: unknown capability teleport',
+    );
+  });
+});
+
+describe('remainingQuota', () => {
+  it('subtracts usage from each limit, never below zero', () => {
+    expect(remainingQuota({
+      limits: { maxToolCalls: 10, maxCallsPerCapability: { search: 2, checkout: 1 }, maxSpendUsd: 50 },
+      toolCalls: 4,
+      callsByTool: { search: 3 },
+      spentUsd: 15,
+    }, 20.1)).toEqual({ tool_calls: 6, calls_per_capability: { search: 0, checkout: 1 }, spend_usd: 14.9 });
+  });
+
+  it('returns null when nothing is limited', () => {
+    expect(remainingQuota({ limits: {}, toolCalls: 3, callsByTool: {}, spentUsd: 0 }, 0)).toBeNull();
+  });
+});
+
+describe('publishLimits', () => {
+  it('returns null when nothing is limited', () => {
+    expect(publishLimits({})).toBeNull();
+    expect(publishLimits({ maxCallsPerCapability: {} })).toBeNull();
+  });
+});
@@ -1,4 +1,7 @@
 import { RateLimiter } from '../src/rate-limiter';
+import { MemoryRateLimitStore } from '../src/rate-limit-store';
+import { ManualClock } from '../src/clock';
+import { RateLimitStore } from '../src/types';
 
 describe('RateLimiter', () => {
   let limiter: RateLimiter;
@@ -7,47 +10,177 @@ describe('RateLimiter', () => {
     limiter?.destroy();
   });
 
-  it('allows requests under the limit', () => {
+  it('allows requests under the limit', async () => {
     limiter = new RateLimiter();
-    const result = limiter.checkRateLimit('user1', 10);
+    const result = await limiter.checkRateLimit('user1', 10);
     expect(result.allowed).toBe(true);
     expect(result.remaining).toBe(9);
   });
 
-  it('blocks requests over the limit', () => {
+  it('blocks requests over the limit', async () => {
     limiter = new RateLimiter();
     for (let i = 0; i < 5; i++) {
-      limiter.checkRateLimit('user1', 5);
+      await limiter.checkRateLimit('user1', 5);
     }
-    const result = limiter.checkRateLimit('user1', 5);
+    const result = await limiter.checkRateLimit('user1', 5);
     expect(result.allowed).toBe(false);
     expect(result.remaining).toBe(0);
   });
 
-  it('tracks different keys independently', () => {
+  it('tracks different keys independently', async () => {
     limiter = new RateLimiter();
     for (let i = 0; i < 3; i++) {
-      limiter.checkRateLimit('user1', 3);
+      await limiter.checkRateLimit('user1', 3);
     }
     // user1 is at limit
-    expect(limiter.checkRateLimit('user1', 3).allowed).toBe(false);
+    expect((await limiter.checkRateLimit('user1', 3)).allowed).toBe(false);
     // user2 is fresh
-    expect(limiter.checkRateLimit('user2', 3).allowed).toBe(true);
+    expect((await limiter.checkRateLimit('user2', 3)).allowed).toBe(true);
   });
 
-  it('decrements remaining count correctly', () => {
+  it('decrements remaining count correctly', async () => {
     limiter = new RateLimiter();
-    expect(limiter.checkRateLimit('x', 5).remaining).toBe(4);
-    expect(limiter.checkRateLimit('x', 5).remaining).toBe(3);
-    expect(limiter.checkRateLimit('x', 5).remaining).toBe(2);
-    expect(limiter.checkRateLimit('x', 5).remaining).toBe(1);
-    expect(limiter.checkRateLimit('x', 5).remaining).toBe(0);
-    expect(limiter.checkRateLimit('x', 5).allowed).toBe(false);
+    expect((await limiter.checkRateLimit('x', 5)).remaining).toBe(4);
+    expect((await limiter.checkRateLimit('x', 5)).remaining).toBe(3);
+    expect((await limiter.checkRateLimit('x', 5)).remaining).toBe(2);
+    expect((await limiter.checkRateLimit('x', 5)).remaining).toBe(1);
+    expect((await limiter.checkRateLimit('x', 5)).remaining).toBe(0);
+    expect((await limiter.checkRateLimit('x', 5)).allowed).toBe(false);
   });
 
-  it('returns a resetAt timestamp in the future', () => {
+  it('returns a resetAt timestamp in the future', async () => {
     limiter = new RateLimiter();
-    const result = limiter.checkRateLimit('user1', 10);
+    const result = await limiter.checkRateLimit('user1', 10);
     expect(result.resetAt).toBeGreaterThan(Date.now());
   });
+
+  it('reports the limit it enforced', async () => {
+    limiter = new RateLimiter();
+    expect((await limiter.checkRateLimit('user1', 7)).limit).toBe(7);
+  });
+});
+
+describe.each(['sliding-window', 'fixed-window', 'token-bucket'] as const)('RateLimiter (%s)', (algorithm) => {
+  let limiter: RateLimiter;
+
+  afterEach(() => {
+    limiter?.destroy();
+  });
+
+  it('allows exactly `limit` requests, then denies', async () => {
+    limiter = new RateLimiter({ algorithm });
+    for (let i = 0; i < 4; i++) {
+      expect((await limiter.checkRateLimit('k', 4)).allowed).toBe(true);
+    }
+    const denied = await limiter.checkRateLimit('k', 4);
+    expect(denied.allowed).toBe(false);
+    expect(denied.remaining).toBe(0);
+    expect(denied.resetAt).toBeGreaterThan(Date.now());
+  });
+
+  it('recovers once the window has passed', async () => {
+    const clock = new ManualClock(1_000_000);
+    limiter = new RateLimiter({ algorithm, windowMs: 1000, clock });
+    await limiter.checkRateLimit('k', 1);
+    expect((await limiter.checkRateLimit('k', 1)).allowed).toBe(false);
+    clock.advance(1000);
+    expect((await limiter.checkRateLimit('k', 1)).allowed).toBe(true);
+  });
+});
+
+describe('sliding-window', () => {
+  it('keeps a bounded window however high the limit, never allowing more than it', async () => {
+    const clock = new ManualClock(0);
+    const store = new MemoryRateLimitStore(clock);
+    const limiter = new RateLimiter({ store, windowMs: 60_000, clock });
+    for (let i = 0; i < 1000; i++) {
+      expect((await limiter.checkRateLimit('ip', 1000)).allowed).toBe(true);
+      clock.advance(10);
+    }
+    expect((await limiter.checkRateLimit('ip', 1000)).allowed).toBe(false);
+    expect((store['entries'].get('sliding-window:ip')!.state as { timestamps: number[] }).timestamps).toHaveLength(100);
+    limiter.destroy();
+    store.destroy();
+  });
+});
+
+describe('token-bucket', () => {
+  it('refills gradually rather than all at once', async () => {
+    const clock = new ManualClock(1_000_000);
+    const limiter = new RateLimiter({ algorithm: 'token-bucket', windowMs: 10_000, clock });
+    try {
+      for (let i = 0; i < 10; i++) await limiter.checkRateLimit('k', 10);
+      expect((await limiter.checkRateLimit('k', 10)).allowed).toBe(false);
+
+      // One token per second at 10 per 10s.
+      clock.advance(1000);
+      expect((await limiter.checkRateLimit('k', 10)).allowed).toBe(true);
+      expect((await limiter.checkRateLimit('k', 10)).allowed).toBe(false);
+    } finally {
+      limiter.destroy();
+    }
+  });
+
+  it('keeps constant-size state per key', async () => {
+    const store = new MemoryRateLimitStore();
+    const seen: unknown[] = [];
+    const spy: RateLimitStore = {
+      update: (key, ttl, apply) => store.update(key, ttl, (current) => {
+        const next = apply(current);
+        seen.push(next.state);
+        return next;
+      }),
+    };
+    const limiter = new RateLimiter({ algorithm: 'token-bucket', store: spy });
+    for (let i = 0; i < 5; i++) await limiter.checkRateLimit('k', 100);
+    expect(Object.keys(seen[4] as object).sort()).toEqual(['tokens', 'updatedAt']);
+    limiter.destroy();
+    store.destroy();
+  });
+});
+
+describe('MemoryRateLimitStore', () => {
+  it('is shared by limiters built on the same store', async () => {
+    const store = new MemoryRateLimitStore();
+    const a = new RateLimiter({ store });
+    const b = new RateLimiter({ store });
+    await a.checkRateLimit('ip', 2);
+    await b.checkRateLimit('ip', 2);
+    expect((await a.checkRateLimit('ip', 2)).allowed).toBe(false);
+    a.destroy();
+    // Destroying a limiter leaves a store it did not create intact.
+    expect((await b.checkRateLimit('ip', 2)).allowed).toBe(false);
+    b.destroy();
+    store.destroy();
+  });
+
+  it('drops expired counters on the clock\'s schedule', async () => {
+    const clock = new ManualClock(0);
+    const limiter = new RateLimiter({ windowMs: 1000, clock });
+    await limiter.checkRateLimit('ip', 5);
+    const entries = () => limiter['ownedStore']!['entries'].size;
+
+    clock.advance(29_999);
+    expect(entries()).toBe(1);
+    clock.advance(1);
+    expect(entries()).toBe(0);
+    limiter.destroy();
+  });
+
+  it('evicts the least recently updated key rather than refusing new ones when full', async () => {
+    const clock = new ManualClock(0);
+    const store = new MemoryRateLimitStore(clock, { maxEntries: 3 });
+    const limiter = new RateLimiter({ store, windowMs: 60_000, clock });
+    for (const ip of ['ip-0', 'ip-1', 'ip-2']) await limiter.checkRateLimit(ip, 1);
+    clock.advance(1000);
+    // ip-0 is used again, so ip-1 is now the key that resets soonest.
+    await limiter.checkRateLimit('ip-0', 1);
+
+    expect((await limiter.checkRateLimit('newcomer', 1)).allowed).toBe(true);
+    expect((await limiter.checkRateLimit('ip-0', 1)).allowed).toBe(false);
+    expect((await limiter.checkRateLimit('ip-2', 1)).allowed).toBe(false);
+    expect(store['entries'].has('sliding-window:ip-1')).toBe(false);
+    limiter.destroy();
+    store.destroy();
+  });
 });
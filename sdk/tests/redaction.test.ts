@@ -0,0 +1,55 @@
+import { createHash } from 'crypto';
+import { redactValue, redactParams, RedactedValue } from '../src/redaction';
+
+function confirm(redacted: RedactedValue, text: string): boolean {
+  const hash = createHash('sha256').update(Buffer.from(redacted.salt, 'base64')).update(text).digest('hex');
+  return hash === redacted.hash;
+}
+
+describe('redactValue', () => {
+  it('hashes with a fresh salt that someone holding the value can check', () => {
+    const first = redactValue('ada@example.com', 'hash') as RedactedValue;
+    const second = redactValue('ada@example.com', 'hash') as RedactedValue;
+    expect(first.$redacted).toBe('sha256');
+    expect(confirm(first, 'ada@example.com')).toBe(true);
+    expect(confirm(first, 'bob@example.com')).toBe(false);
+    expect(second.hash).not.toBe(first.hash);
+  });
+
+  it('hashes non-strings as canonical JSON', () => {
+    const redacted = redactValue({ b: 1, a: [true] }, 'hash') as RedactedValue;
+    expect(confirm(redacted, '{"a":[true],"b":1}')).toBe(true);
+  });
+
+  it('masks all but the last four characters of long strings', () => {
+    expect(redactValue('4242424242424242', 'mask')).toBe('****4242');
+    expect(redactValue('1234567', 'mask')).toBe('****');
+    expect(redactValue(12345678, 'mask')).toBe('****');
+  });
+
+  it('drops values', () => {
+    expect(redactValue('secret', 'drop')).toBeUndefined();
+  });
+});
+
+describe('redactParams', () => {
+  it('applies each param rule and leaves other fields alone', () => {
+    const data = { email: 'ada@example.com', card: '4242424242424242', note: 'hi', q: 'mugs' };
+    const result = redactParams({
+      email: { type: 'string', redact: true },
+      card: { type: 'string', redact: 'mask' },
+      note: { type: 'string', redact: 'drop' },
+      q: { type: 'string' },
+    }, data);
+
+    expect(confirm(result.email as RedactedValue, 'ada@example.com')).toBe(true);
+    expect(result.card).toBe('****4242');
+    expect(result).not.toHaveProperty('note');
+    expect(result.q).toBe('mugs');
+    expect(data.email).toBe('ada@example.com');
+  });
+
+  it('skips params the call did not send', () => {
+    expect(redactParams({ email: { type: 'string', redact: 'hash' } }, { q: 'x' })).toEqual({ q: 'x' });
+  });
+});
@@ -1,5 +1,9 @@
+import { createHash } from 'crypto';
+import { signingFetch } from '@agents-protocol/client';
 import { AgentDoor } from '../src/server';
 import { search, cart, checkout } from '../src/capabilities';
+import { MemorySessionStore } from '../src/session-store';
+import { AuditOptions } from '../src/types';
 
 function mockReq(method: string, path: string, opts?: { body?: any; query?: Record<string, string>; headers?: Record<string, string>; ip?: string }): any {
   return {
@@ -38,7 +42,7 @@ describe('AgentDoor with audit: true', () => {
     door?.destroy();
   });
 
-  function createDoor() {
+  function createDoor(audit: true | AuditOptions = true) {
     door = new AgentDoor({
       site: { name: 'Test', url: 'https://test.com' },
       capabilities: [
@@ -48,7 +52,7 @@ describe('AgentDoor with audit: true', () => {
       ],
       rateLimit: 100,
       sessionTtl: 3600,
-      audit: true,
+      audit,
     });
     return door.middleware();
   }
@@ -88,9 +92,10 @@ describe('AgentDoor with audit: true', () => {
     const endRes = mockRes();
     await mw(endReq, endRes, jest.fn());
     expect(endRes._body.ok).toBe(true);
+    expect(endRes._body.data.audit_artifact_url).toBe(sessionRes._body.data.audit_artifact_url);
 
     // Retrieve audit artifact
-    const auditReq = mockReq('GET', `/.well-known/agents/api/audit/${token}`);
+    const auditReq = mockReq('GET', endRes._body.data.audit_artifact_url);
     const auditRes = mockRes();
     await mw(auditReq, auditRes, jest.fn());
 
@@ -101,6 +106,96 @@ describe('AgentDoor with audit: true', () => {
     expect(auditRes._body.data.envelope).toBeDefined();
   });
 
+  it('keys artifacts by the public session ID and never records the token', async () => {
+    const mw = createDoor();
+    const sessionRes = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session'), sessionRes, jest.fn());
+    const { session_id: sessionId, session_token: token } = sessionRes._body.data;
+    expect(sessionId).toMatch(/^ses_/);
+    expect(sessionRes._body.data.audit_artifact_url).toBe(`/.well-known/agents/api/audit/${sessionId}`);
+
+    const auth = { headers: { authorization: `Bearer ${token}` } };
+    await mw(mockReq('GET', '/.well-known/agents/api/search', { query: { q: 'mugs' }, ...auth }), mockRes(), jest.fn());
+    await mw(mockReq('DELETE', '/.well-known/agents/api/session', auth), mockRes(), jest.fn());
+
+    const byToken = mockRes();
+    await mw(mockReq('GET', `/.well-known/agents/api/audit/${token}`), byToken, jest.fn());
+    expect(byToken._status).toBe(404);
+
+    const auditRes = mockRes();
+    await mw(mockReq('GET', `/.well-known/agents/api/audit/${sessionId}`), auditRes, jest.fn());
+    const artifact = auditRes._body.data;
+    expect(JSON.stringify(artifact)).not.toContain(token);
+    expect(artifact.envelope.principal.id).toBe(createHash('sha256').update(token).digest('hex'));
+    expect(artifact.envelope.context.session_id).toBe(sessionId);
+  });
+
+  it('publishes the live signing key in agents.json and at the key endpoint', async () => {
+    const mw = createDoor();
+    const jsonRes = mockRes();
+    await mw(mockReq('GET', '/.well-known/agents.json'), jsonRes, jest.fn());
+    const keysRes = mockRes();
+    await mw(mockReq('GET', '/.well-known/agents/api/audit/keys'), keysRes, jest.fn());
+
+    const auditManager = door['auditManager']!;
+    expect(jsonRes._body.audit).toMatchObject({
+      public_key: auditManager.getPublicKeyDER().toString('base64'),
+      algorithm: 'Ed25519',
+      key_id: auditManager.getPublicKeyJwk().kid,
+      keys_endpoint: '/.well-known/agents/api/audit/keys',
+    });
+    expect(keysRes._status).toBe(200);
+    expect(keysRes._body).toEqual({ keys: auditManager.getPublishedKeys() });
+    expect(keysRes._body.keys[0].kid).toBe(jsonRes._body.audit.key_id);
+  });
+
+  it('republishes agents.json after the signing key rotates', async () => {
+    const mw = createDoor();
+    const before = mockRes();
+    await mw(mockReq('GET', '/.well-known/agents.json'), before, jest.fn());
+    const retiredKeyId = before._body.audit.key_id;
+
+    door['auditManager']!.rotateKey();
+    const after = mockRes();
+    await mw(mockReq('GET', '/.well-known/agents.json'), after, jest.fn());
+    const keysRes = mockRes();
+    await mw(mockReq('GET', '/.well-known/agents/api/audit/keys'), keysRes, jest.fn());
+
+    expect(after._body.audit.key_id).not.toBe(retiredKeyId);
+    expect(keysRes._body.keys.map((k: any) => k.kid)).toEqual([after._body.audit.key_id, retiredKeyId]);
+  });
+
+  it('audit endpoint returns 425 while the session is active, with a live log for its owner', async () => {
+    const mw = createDoor();
+    const sessionRes = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session'), sessionRes, jest.fn());
+    const { session_id: sessionId, session_token: token } = sessionRes._body.data;
+
+    const early = mockRes();
+    await mw(mockReq('GET', `/.well-known/agents/api/audit/${sessionId}`), early, jest.fn());
+    expect(early._status).toBe(425);
+    expect(early._body).toMatchObject({
+      code: 'session_active',
+      retryable: false,
+      details: { live_endpoint: '/.well-known/agents/api/audit/live' },
+    });
+
+    const anonymous = mockRes();
+    await mw(mockReq('GET', '/.well-known/agents/api/audit/live'), anonymous, jest.fn());
+    expect(anonymous._status).toBe(401);
+
+    const live = mockRes();
+    const auth = { headers: { authorization: `Bearer ${token}` } };
+    await mw(mockReq('GET', '/.well-known/agents/api/audit/live', auth), live, jest.fn());
+    expect(live._status).toBe(200);
+    expect(live._body.data.event_count).toBe(live._body.data.events.length);
+
+    await mw(mockReq('DELETE', '/.well-known/agents/api/session', auth), mockRes(), jest.fn());
+    const sealed = mockRes();
+    await mw(mockReq('GET', `/.well-known/agents/api/audit/${sessionId}`), sealed, jest.fn());
+    expect(sealed._status).toBe(200);
+  });
+
   it('audit endpoint returns 404 for unknown session', async () => {
     const mw = createDoor();
     const req = mockReq('GET', '/.well-known/agents/api/audit/nonexistent');
@@ -111,6 +206,452 @@ describe('AgentDoor with audit: true', () => {
     expect(res._body.ok).toBe(false);
   });
 
+  it('restricts artifacts to the holder and the operator when configured', async () => {
+    const mw = createDoor({ access: ['holder', 'operator'], operatorToken: 'admin-secret' });
+    const sessionRes = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session'), sessionRes, jest.fn());
+    const { session_id: sessionId, session_token: token } = sessionRes._body.data;
+    const url = `/.well-known/agents/api/audit/${sessionId}`;
+    const get = async (headers: Record<string, string> = {}) => {
+      const res = mockRes();
+      await mw(mockReq('GET', url, { headers }), res, jest.fn());
+      return res;
+    };
+
+    // The holder's live token reaches the 425; strangers learn nothing.
+    expect((await get({ authorization: `Bearer ${token}` }))._status).toBe(425);
+    const anonymous = await get();
+    expect(anonymous._status).toBe(401);
+    expect(anonymous._body.code).toBe('audit_auth_required');
+
+    const endRes = mockRes();
+    await mw(mockReq('DELETE', '/.well-known/agents/api/session', { headers: { authorization: `Bearer ${token}` } }), endRes, jest.fn());
+    const proof = endRes._body.data.audit_access_token;
+    expect(proof).toEqual(expect.any(String));
+
+    expect((await get({ authorization: `Bearer ${proof}` }))._status).toBe(200);
+    expect((await get({ authorization: 'Bearer admin-secret' }))._status).toBe(200);
+    expect((await get({ authorization: `Bearer ${token}` }))._status).toBe(403);
+  });
+
+  it('hands out signed download links that work without credentials', async () => {
+    const mw = createDoor({ access: 'holder' });
+    const sessionRes = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session'), sessionRes, jest.fn());
+    const { session_id: sessionId, session_token: token } = sessionRes._body.data;
+    const auth = { headers: { authorization: `Bearer ${token}` } };
+    const endRes = mockRes();
+    await mw(mockReq('DELETE', '/.well-known/agents/api/session', auth), endRes, jest.fn());
+
+    const denied = mockRes();
+    await mw(mockReq('POST', `/.well-known/agents/api/audit/${sessionId}/link`), denied, jest.fn());
+    expect(denied._status).toBe(401);
+
+    const minted = mockRes();
+    await mw(mockReq('POST', `/.well-known/agents/api/audit/${sessionId}/link`, {
+      body: { ttl: 300 },
+      headers: { authorization: `Bearer ${endRes._body.data.audit_access_token}` },
+    }), minted, jest.fn());
+    expect(minted._status).toBe(200);
+    expect(minted._body.data.expires_at).toEqual(expect.any(String));
+
+    const link = new URL(minted._body.data.url);
+    expect(link.origin).toBe('https://test.com');
+    const query = Object.fromEntries(link.searchParams);
+    const res = mockRes();
+    await mw(mockReq('GET', link.pathname, { query }), res, jest.fn());
+    expect(res._status).toBe(200);
+    expect(res._body.data.run_id).toBeDefined();
+
+    const forged = mockRes();
+    await mw(mockReq('GET', link.pathname, { query: { ...query, expires: String(Number(query.expires) + 1) } }), forged, jest.fn());
+    expect(forged._status).toBe(403);
+  });
+
+  it('holds approval capabilities for a human and records the decision', async () => {
+    const onRequest = jest.fn();
+    const refund = jest.fn(async (req: any) => ({ refunded: req.input.amount }));
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [{
+        name: 'refund',
+        description: 'Refund an order',
+        method: 'POST',
+        params: { amount: { type: 'number', required: true } },
+        requiresApproval: true,
+        handler: refund,
+      }],
+      audit: true,
+      approvals: { operatorToken: 'admin-secret', onRequest },
+    });
+    const mw = door.middleware();
+    const sessionRes = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session'), sessionRes, jest.fn());
+    const { session_id: sessionId, session_token: token } = sessionRes._body.data;
+    const call = async (headers: Record<string, string> = {}) => {
+      const res = mockRes();
+      await mw(mockReq('POST', '/.well-known/agents/api/refund', {
+        body: { amount: 20 },
+        headers: { authorization: `Bearer ${token}`, ...headers },
+      }), res, jest.fn());
+      return res;
+    };
+
+    const held = await call();
+    expect(held._status).toBe(202);
+    const { approval_id: approvalId, status_url: statusUrl } = held._body.approval;
+    expect(held._body.approval.status).toBe('pending');
+    expect(JSON.stringify(held._body)).not.toContain(onRequest.mock.calls[0][0].decisionToken);
+    expect(refund).not.toHaveBeenCalled();
+
+    // The agent cannot approve its own call.
+    const selfApproved = mockRes();
+    await mw(mockReq('POST', statusUrl, { body: { decision: 'approve' }, headers: { authorization: `Bearer ${token}` } }), selfApproved, jest.fn());
+    expect(selfApproved._status).toBe(403);
+
+    const decided = mockRes();
+    await mw(mockReq('POST', statusUrl, { body: { decision: 'approve', reason: 'Looks fine' }, headers: { authorization: 'Bearer admin-secret' } }), decided, jest.fn());
+    expect(decided._body.data.status).toBe('approved');
+
+    const polled = mockRes();
+    await mw(mockReq('GET', statusUrl, { headers: { authorization: `Bearer ${token}` } }), polled, jest.fn());
+    expect(polled._body.data).toMatchObject({ status: 'approved', decided_by: 'operator', reason: 'Looks fine' });
+
+    // Concurrent resumes: exactly one spends the approval and runs the handler.
+    const resumed = await Promise.all([1, 2, 3].map(() => call({ 'x-approval-id': approvalId })));
+    expect(resumed.map(r => r._status).sort()).toEqual([200, 409, 409]);
+    expect(resumed.find(r => r._status === 200)._body.data).toEqual({ refunded: 20 });
+    expect(resumed.filter(r => r._status === 409).map(r => r._body.code)).toEqual(['approval_used', 'approval_used']);
+    expect(refund).toHaveBeenCalledTimes(1);
+    expect((await call({ 'x-approval-id': approvalId }))._body.code).toBe('approval_used');
+
+    await mw(mockReq('DELETE', '/.well-known/agents/api/session', { headers: { authorization: `Bearer ${token}` } }), mockRes(), jest.fn());
+    const auditRes = mockRes();
+    await mw(mockReq('GET', `/.well-known/agents/api/audit/${sessionId}`), auditRes, jest.fn());
+    const decisions = auditRes._body.data.events
+      .filter((e: any) => e.header.event_type === 'ToolCalled' && e.payload.tool === 'human_approval')
+      .map((e: any) => e.payload.input.decision);
+    expect(decisions).toEqual(['requested', 'approved']);
+  });
+
+  it('leaves an approval unspent when the session\'s limits refuse the resumed call', async () => {
+    const refund = jest.fn(async () => ({ refunded: true }));
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [{ name: 'refund', description: 'Refund an order', method: 'POST', requiresApproval: true, handler: refund }],
+      audit: true,
+      approvals: { operatorToken: 'admin-secret' },
+      limits: { maxToolCalls: 0 },
+    });
+    const mw = door.middleware();
+    const sessionRes = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session'), sessionRes, jest.fn());
+    const headers = { authorization: `Bearer ${sessionRes._body.data.session_token}` };
+    const held = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/refund', { headers }), held, jest.fn());
+    const { approval_id: approvalId, status_url: statusUrl } = held._body.approval;
+    await mw(mockReq('POST', statusUrl, { body: { decision: 'approve' }, headers: { authorization: 'Bearer admin-secret' } }), mockRes(), jest.fn());
+
+    const resumed = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/refund', { headers: { ...headers, 'x-approval-id': approvalId } }), resumed, jest.fn());
+    expect(resumed._body.code).toBe('policy_denied');
+    expect(refund).not.toHaveBeenCalled();
+    const polled = mockRes();
+    await mw(mockReq('GET', statusUrl, { headers }), polled, jest.fn());
+    expect(polled._body.data.status).toBe('approved');
+  });
+
+  it('writes a scoped session\'s capabilities into the envelope allow and deny lists', async () => {
+    const mw = createDoor();
+    const sessionRes = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session', {
+      body: { capabilities: ['search', 'cart.add'], deny: ['checkout'], ttl: 120 },
+    }), sessionRes, jest.fn());
+    const { session_id: sessionId, session_token: token, expires_at: expiresAt } = sessionRes._body.data;
+    expect(Date.parse(expiresAt)).toBeLessThanOrEqual(Date.now() + 120_000);
+
+    await mw(mockReq('DELETE', '/.well-known/agents/api/session', { headers: { authorization: `Bearer ${token}` } }), mockRes(), jest.fn());
+    const auditRes = mockRes();
+    await mw(mockReq('GET', `/.well-known/agents/api/audit/${sessionId}`), auditRes, jest.fn());
+    const { envelope } = auditRes._body.data;
+    expect(envelope.permissions.tools).toEqual({ allow: ['search', 'cart.add'], deny: ['checkout'] });
+    expect(Date.parse(envelope.expires_at) - Date.parse(envelope.created_at)).toBe(120_000);
+  });
+
+  it('records the registered agent that signed the session as the envelope principal', async () => {
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [search({ handler: async () => [] })],
+      audit: true,
+      agentAuth: { agents: [{ keyId: 'crawler-1', agentId: 'crawler', operator: 'bots.example', apiKey: 'hmac-secret' }] },
+    });
+    const api = 'https://test.com/.well-known/agents/api';
+    const handler = door.handler();
+    const agent = signingFetch(
+      ((input, init) => handler(new Request(input, init))) as typeof fetch,
+      { keyId: 'crawler-1', apiKey: 'hmac-secret' },
+    );
+
+    const { session_id: sessionId, session_token: token } = (await (await agent(`${api}/session`, { method: 'POST' })).json()).data;
+    const auth = { headers: { Authorization: `Bearer ${token}` } };
+    await agent(`${api}/search?q=mugs`, auth);
+    await agent(`${api}/session`, { method: 'DELETE', ...auth });
+
+    const { envelope } = (await (await handler(new Request(`${api}/audit/${sessionId}`))).json()).data;
+    expect(envelope.principal).toEqual({ type: 'agent', id: 'crawler' });
+    expect(envelope.context).toMatchObject({
+      session_token_sha256: createHash('sha256').update(token).digest('hex'),
+      agent: { key_id: 'crawler-1', algorithm: 'hmac-sha256', operator: 'bots.example' },
+    });
+  });
+
+  it('serves an agent\'s session on the audit and approval routes only to that agent', async () => {
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [{ name: 'refund', description: 'Refund an order', method: 'POST', requiresApproval: true, handler: async () => ({}) }],
+      audit: { access: 'holder' },
+      approvals: { operatorToken: 'admin-secret' },
+      agentAuth: { agents: [{ keyId: 'crawler-1', agentId: 'crawler', apiKey: 'hmac-secret' }] },
+    });
+    const api = 'https://test.com/.well-known/agents/api';
+    const handler = door.handler();
+    const fetchHandler = ((input, init) => handler(new Request(input, init))) as typeof fetch;
+    const agent = signingFetch(fetchHandler, { keyId: 'crawler-1', apiKey: 'hmac-secret' });
+    const forger = signingFetch(fetchHandler, { keyId: 'crawler-1', apiKey: 'guess' });
+
+    const { session_id: sessionId, session_token: token } = (await (await agent(`${api}/session`, { method: 'POST' })).json()).data;
+    const auth = { headers: { Authorization: `Bearer ${token}` } };
+    const { approval } = await (await agent(`${api}/refund`, { method: 'POST', ...auth })).json();
+
+    // The token alone, without the agent's signature, opens nothing.
+    const statusUrl = `https://test.com${approval.status_url}`;
+    for (const url of [`${api}/audit/live`, `${api}/audit/${sessionId}`, statusUrl]) {
+      const res = await fetchHandler(url, auth);
+      expect([res.status, (await res.json()).code]).toEqual([401, 'agent_auth_required']);
+    }
+    expect((await agent(`${api}/audit/live`, auth)).status).toBe(200);
+    expect((await agent(`${api}/audit/${sessionId}`, auth)).status).toBe(425);
+    expect((await agent(statusUrl, auth)).status).toBe(200);
+
+    // The operator does not sign, but a signature sent with a decision must verify.
+    const decide = (fetcher: typeof fetch) => fetcher(statusUrl, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer admin-secret', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ decision: 'approve' }),
+    });
+    expect((await (await decide(forger)).json()).code).toBe('agent_signature_invalid');
+    expect((await decide(fetchHandler)).status).toBe(200);
+  });
+
+  it('enforces session limits, tightened by the agent, as policy denials', async () => {
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [
+        search({ handler: async () => [] }),
+        cart(),
+        checkout({ onCheckout: async () => ({ checkout_url: 'https://test.com/pay', total: 95 }) }),
+      ],
+      audit: true,
+      limits: { maxToolCalls: 20, maxSpendUsd: 100 },
+    });
+    const mw = door.middleware();
+
+    const invalid = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session', { body: { limits: { max_tool_calls: -1 } } }), invalid, jest.fn());
+    expect(invalid._status).toBe(400);
+
+    const sessionRes = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session', {
+      body: { limits: { max_tool_calls: 50, max_calls_per_capability: { search: 1 } } },
+    }), sessionRes, jest.fn());
+    const { session_token: token, limits } = sessionRes._body.data;
+    // The agent cannot raise the site's budget, only lower it.
+    expect(limits).toEqual({ max_tool_calls: 20, max_calls_per_capability: { search: 1 }, max_spend_usd: 100 });
+    const call = async (method: string, path: string, body?: object) => {
+      const res = mockRes();
+      const input = method === 'GET' ? { query: body as Record<string, string> } : { body };
+      await mw(mockReq(method, `/.well-known/agents/api/${path}`, { ...input, headers: { authorization: `Bearer ${token}` } }), res, jest.fn());
+      return res;
+    };
+
+    expect((await call('GET', 'search', { q: 'mugs' }))._status).toBe(200);
+    const secondSearch = await call('GET', 'search', { q: 'lamps' });
+    expect(secondSearch._status).toBe(403);
+    expect(secondSearch._body.code).toBe('policy_denied');
+
+    expect((await call('POST', 'cart/add', { item_id: 'mug', quantity: 3, price: 30 }))._status).toBe(200);
+    const overSpend = await call('POST', 'cart/add', { item_id: 'lamp', quantity: 1, price: 20 });
+    expect(overSpend._status).toBe(403);
+    expect(overSpend._body.code).toBe('policy_denied');
+    expect((await call('GET', 'cart/view'))._body.data.subtotal).toBe(90);
+
+    // Checkout reports 95 with shipping: within the cap, and spent from then on.
+    expect((await call('POST', 'checkout'))._body.data).toMatchObject({ total: 95 });
+    expect((await call('GET', 'cart/view'))._body.data.subtotal).toBe(0);
+
+    const status = await call('GET', 'session');
+    expect(status._status).toBe(200);
+    expect(status._body.data.limits).toEqual(limits);
+    expect(status._body.data.remaining).toEqual({
+      tool_calls: 14,
+      calls_per_capability: { search: 0 },
+      spend_usd: 5,
+    });
+  });
+
+  it('denies a checkout whose reported total exceeds the spend cap', async () => {
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [cart(), checkout({ onCheckout: async () => ({ checkout_url: 'https://test.com/pay', total: 112 }) })],
+      audit: true,
+      limits: { maxSpendUsd: 100 },
+    });
+    const mw = door.middleware();
+    const sessionRes = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session'), sessionRes, jest.fn());
+    const auth = { headers: { authorization: `Bearer ${sessionRes._body.data.session_token}` } };
+    await mw(mockReq('POST', '/.well-known/agents/api/cart/add', { body: { item_id: 'mug', quantity: 1, price: 100 }, ...auth }), mockRes(), jest.fn());
+
+    const res = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/checkout', auth), res, jest.fn());
+    expect(res._status).toBe(403);
+    expect(JSON.stringify(res._body)).not.toContain('https://test.com/pay');
+  });
+
+  it('counts checkouts against the spend cap and checks the cart before the site acts on it', async () => {
+    const onCheckout = jest.fn(async () => ({ checkout_url: 'https://test.com/pay' }));
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [cart(), checkout({ onCheckout })],
+      audit: true,
+      limits: { maxSpendUsd: 100 },
+    });
+    const mw = door.middleware();
+    const sessionRes = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session'), sessionRes, jest.fn());
+    const auth = { authorization: `Bearer ${sessionRes._body.data.session_token}` };
+    const call = async (path: string, body: object = {}) => {
+      const res = mockRes();
+      await mw(mockReq('POST', `/.well-known/agents/api/${path}`, { body, headers: auth }), res, jest.fn());
+      return res;
+    };
+
+    expect((await call('cart/add', { item_id: 'mug', quantity: 1, price: 60 }))._status).toBe(200);
+    expect((await call('checkout'))._status).toBe(200);
+    expect(onCheckout).toHaveBeenCalledTimes(1);
+
+    // 60 is spent, so a second 60 cart cannot be added, let alone checked out.
+    expect((await call('cart/add', { item_id: 'mug', quantity: 1, price: 60 }))._body.code).toBe('policy_denied');
+    expect((await call('cart/add', { item_id: 'cup', quantity: 1, price: 40 }))._status).toBe(200);
+    expect((await call('checkout'))._status).toBe(200);
+    expect(onCheckout).toHaveBeenCalledTimes(2);
+
+    expect((await call('cart/add', { item_id: 'spoon', quantity: 1, price: 1 }))._body.code).toBe('policy_denied');
+  });
+
+  it('denies a checkout before calling the site when the cart alone passes the spend cap', async () => {
+    const onCheckout = jest.fn(async () => ({ checkout_url: 'https://test.com/pay' }));
+    const sessionStore = new MemorySessionStore();
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [cart(), checkout({ onCheckout })],
+      sessionStore,
+      audit: true,
+      limits: { maxSpendUsd: 100 },
+    });
+    const mw = door.middleware();
+    const sessionRes = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session'), sessionRes, jest.fn());
+    const token = sessionRes._body.data.session_token;
+    // The site's own pages filled the cart, past what the agent may spend.
+    const session = (await sessionStore.get(token))!;
+    await sessionStore.set({ ...session, cartItems: [{ itemId: 'sofa', quantity: 1, price: 900 }] });
+
+    const res = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/checkout', { headers: { authorization: `Bearer ${token}` } }), res, jest.fn());
+    expect(res._body.code).toBe('policy_denied');
+    expect(onCheckout).not.toHaveBeenCalled();
+  });
+
+  it('does not let negative quantities or prices lower what counts against the spend cap', async () => {
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [
+        cart(),
+        {
+          // A site's own cart handler that writes a negative line.
+          name: 'cart.credit',
+          description: 'Apply a store credit',
+          method: 'POST',
+          requiresSession: true,
+          handler: async (_req, session) => {
+            session!.cartItems = [...session!.cartItems, { itemId: 'credit', quantity: -1, price: 4900 }];
+            return {};
+          },
+        },
+      ],
+      audit: true,
+      limits: { maxSpendUsd: 100 },
+    });
+    const mw = door.middleware();
+    const sessionRes = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session'), sessionRes, jest.fn());
+    const auth = { authorization: `Bearer ${sessionRes._body.data.session_token}` };
+    const call = async (path: string, body: object = {}) => {
+      const res = mockRes();
+      await mw(mockReq('POST', `/.well-known/agents/api/${path}`, { body, headers: auth }), res, jest.fn());
+      return res;
+    };
+
+    const negativeQuantity = await call('cart/add', { item_id: 'refund', quantity: -1, price: 4900 });
+    expect(negativeQuantity._status).toBe(400);
+    expect(negativeQuantity._body.code).toBe('invalid_params');
+    expect((await call('cart/add', { item_id: 'mug', quantity: 1, price: -10 }))._status).toBe(400);
+
+    expect((await call('cart/credit'))._status).toBe(200);
+    const overSpend = await call('cart/add', { item_id: 'lamp', quantity: 1, price: 120 });
+    expect(overSpend._status).toBe(403);
+    expect(overSpend._body.code).toBe('policy_denied');
+  });
+
+  it('refuses calls of a limited session on an instance that is not recording it', async () => {
+    const config = {
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [cart()],
+      audit: true,
+      limits: { maxToolCalls: 1 },
+      statelessSessions: { secret: 's'.repeat(32) },
+    };
+    door = new AgentDoor(config);
+    const other = new AgentDoor(config);
+    try {
+      const sessionRes = mockRes();
+      await door.middleware()(mockReq('POST', '/.well-known/agents/api/session'), sessionRes, jest.fn());
+      const auth = { authorization: `Bearer ${sessionRes._body.data.session_token}` };
+
+      const elsewhere = mockRes();
+      const body = { item_id: 'mug', quantity: 1 };
+      await other.middleware()(mockReq('POST', '/.well-known/agents/api/cart/add', { body, headers: auth }), elsewhere, jest.fn());
+      expect(elsewhere._status).toBe(409);
+      expect(elsewhere._body.code).toBe('session_not_recorded');
+
+      const status = mockRes();
+      await other.middleware()(mockReq('GET', '/.well-known/agents/api/session', { headers: auth }), status, jest.fn());
+      expect(status._body.data.limits).toEqual({ max_tool_calls: 1 });
+      expect(status._body.data.remaining).toBeUndefined();
+
+      // The recording instance still counts the session's one call.
+      const first = mockRes();
+      await door.middleware()(mockReq('POST', '/.well-known/agents/api/cart/add', { body, headers: auth }), first, jest.fn());
+      expect(first._status).toBe(200);
+      const second = mockRes();
+      await door.middleware()(mockReq('POST', '/.well-known/agents/api/cart/add', { body, headers: auth }), second, jest.fn());
+      expect(second._body.code).toBe('policy_denied');
+    } finally {
+      other.destroy();
+    }
+  });
+
   it('CORS headers are set on responses', async () => {
     const mw = createDoor();
     const req = mockReq('GET', '/.well-known/agents.txt');
@@ -155,7 +696,7 @@ describe('AgentDoor with audit: true', () => {
     const endRes = mockRes();
     await mw(endReq, endRes, jest.fn());
 
-    const auditReq = mockReq('GET', `/.well-known/agents/api/audit/${token}`);
+    const auditReq = mockReq('GET', `/.well-known/agents/api/audit/${sessionRes._body.data.session_id}`);
     const auditRes = mockRes();
     await mw(auditReq, auditRes, jest.fn());
 
@@ -1,5 +1,12 @@
+import { generateKeyPairSync } from 'crypto';
+import { signingFetch } from '@agents-protocol/client';
 import { AgentDoor } from '../src/server';
 import { search, browse, detail, cart, checkout, contact } from '../src/capabilities';
+import { MemorySessionStore } from '../src/session-store';
+import { MemoryRevocationList } from '../src/session-token';
+import { ManualClock } from '../src/clock';
+import { AgentError, NotFoundError } from '../src/errors';
+import { SessionData } from '../src/types';
 
 // Minimal mock helpers
 function mockReq(method: string, path: string, opts?: { body?: any; query?: Record<string, string>; headers?: Record<string, string>; ip?: string }): any {
@@ -64,8 +71,8 @@ describe('AgentDoor', () => {
     const res = mockRes();
     await mw(req, res, jest.fn());
 
-    expect(res._headers['content-type']).toBe('text/plain');
-    expect(res._body).toContain('Site: Test');
+    expect(res._headers['content-type']).toBe('text/plain; charset=utf-8');
+    expect(res._body).toContain('Name: Test');
   });
 
   it('serves agents.json', async () => {
@@ -193,6 +200,34 @@ describe('AgentDoor', () => {
     expect(checkoutRes._body.data.human_handoff).toBe(true);
   });
 
+  it('rejects invalid params with a 400 listing each field', async () => {
+    const mw = createDoor();
+    const req = mockReq('GET', '/.well-known/agents/api/browse', { query: { page: 'two', limit: '1.5' } });
+    const res = mockRes();
+    await mw(req, res, jest.fn());
+
+    expect(res._status).toBe(400);
+    expect(res._body.ok).toBe(false);
+    expect(res._body.code).toBe('invalid_params');
+    expect(res._body.details.fields).toEqual([
+      { field: 'page', message: 'page must be an integer' },
+      { field: 'limit', message: 'limit must be an integer' },
+    ]);
+  });
+
+  it('passes coerced values to handlers', async () => {
+    let received: unknown;
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [search({ handler: async (q, opts) => { received = { q, opts }; return []; } })],
+    });
+    const res = mockRes();
+    await door.middleware()(mockReq('GET', '/.well-known/agents/api/search', { query: { q: 'mug', limit: '3' } }), res, jest.fn());
+
+    expect(res._status).toBe(200);
+    expect(received).toEqual({ q: 'mug', opts: { limit: 3 } });
+  });
+
   it('handles detail with route params', async () => {
     const mw = createDoor();
     const req = mockReq('GET', '/.well-known/agents/api/detail/42');
@@ -217,6 +252,725 @@ describe('AgentDoor', () => {
     await mw(deleteReq, deleteRes, jest.fn());
     expect(deleteRes._body.ok).toBe(true);
   });
+
+  it('confines a scoped session to the capabilities it asked for', async () => {
+    const mw = createDoor();
+    const createRes = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session', {
+      body: { capabilities: ['search', 'cart.add', 'cart.view'], deny: ['cart.view'] },
+    }), createRes, jest.fn());
+    expect(createRes._body.data.capabilities).toEqual(['search', 'cart.add']);
+    const auth = { authorization: `Bearer ${createRes._body.data.session_token}` };
+
+    const added = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/cart/add', { body: { item_id: '1', quantity: 1 }, headers: auth }), added, jest.fn());
+    expect(added._status).toBe(200);
+
+    const checkedOut = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/checkout', { headers: auth }), checkedOut, jest.fn());
+    expect(checkedOut._status).toBe(403);
+    expect(checkedOut._body).toMatchObject({ code: 'out_of_scope', details: { capability: 'checkout' } });
+
+    // Calls with the session's token are held to its scope, even to open capabilities.
+    const browsed = mockRes();
+    await mw(mockReq('GET', '/.well-known/agents/api/browse', { headers: auth }), browsed, jest.fn());
+    expect(browsed._status).toBe(403);
+  });
+
+  it('rejects session requests naming unknown capabilities', async () => {
+    const mw = createDoor();
+    const res = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session', { body: { capabilities: ['teleport'] } }), res, jest.fn());
+    expect(res._status).toBe(400);
+    expect(res._body.code).toBe('invalid_params');
+  });
+});
+
+describe('AgentDoor config validation', () => {
+  const handler = async () => [];
+
+  it('rejects duplicate capability names and unknown flow steps with JSON pointers', () => {
+    expect(() => new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [
+        { name: 'search', description: 'Search', method: 'GET', handler },
+        { name: 'search', description: 'Search again', method: 'GET', handler },
+      ],
+      flows: [{ name: 'buy', description: 'Buy', steps: ['search', 'pay'] }],
+    })).toThrow(
+      'AgentDoor config produces an invalid agents.json:\n' +
+      '  /capabilities/1/name duplicates /capabilities/0/name ("search")\n' +
+      '  /flows/0/steps/1 names unknown capability "pay"',
+    );
+  });
+
+  it('rejects a param pattern that is not a valid regular expression', () => {
+    expect(() => new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [{
+        name: 'lookup',
+        description: 'Look up an order',
+        method: 'GET',
+        params: {
+          order: { type: 'object', properties: { sku: { type: 'string', pattern: '^[A-Z' } } },
+        },
+        handler,
+      }],
+    })).toThrow(/AgentDoor config has invalid param patterns:\n {2}lookup: order\.sku has an invalid pattern: /);
+  });
+
+  it('rejects session limits without the audit runtime that enforces them', () => {
+    expect(() => new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [{ name: 'search', description: 'Search', method: 'GET', handler }],
+      limits: { maxToolCalls: 10 },
+    })).toThrow('Session limits are enforced by the audit runtime');
+  });
+
+  it('rejects a maximum session lifetime shorter than the TTL', () => {
+    expect(() => new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [{ name: 'search', description: 'Search', method: 'GET', handler }],
+      sessionTtl: 600,
+      sessionMaxLifetime: 300,
+    })).toThrow('sessionMaxLifetime must be at least sessionTtl');
+  });
+
+  it('rejects a site URL that is not absolute', () => {
+    expect(() => new AgentDoor({
+      site: { name: 'Test', url: 'test.com' },
+      capabilities: [{ name: 'search', description: 'Search', method: 'GET', handler }],
+    })).toThrow('/site/url must be an absolute URI');
+  });
+
+  it('rejects capability routes that collide with another capability or a built-in route', () => {
+    const order = { type: 'string', required: true } as const;
+    expect(() => new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [
+        { name: 'order', description: 'Order', method: 'GET', path: '/orders/:id', params: { id: order }, handler },
+        { name: 'orders.recent', description: 'Recent orders', method: 'GET', path: '/orders/recent', handler },
+      ],
+    })).toThrow(
+      'Capability orders.recent (GET /.well-known/agents/api/orders/recent) collides with ' +
+      'capability order (/.well-known/agents/api/orders/:id)',
+    );
+    expect(() => new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [{ name: 'session', description: 'Session', method: 'POST', handler }],
+    })).toThrow('collides with the built-in route /.well-known/agents/api/session');
+
+    // Same template, different methods: no collision.
+    new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [
+        { name: 'order', description: 'Order', method: 'GET', path: '/orders/:id', params: { id: order }, handler },
+        { name: 'order.cancel', description: 'Cancel', method: 'DELETE', path: '/orders/:id', params: { id: order }, handler },
+      ],
+    }).destroy();
+  });
+
+  it('rejects path params that are not declared as required params', () => {
+    expect(() => new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [{ name: 'order', description: 'Order', method: 'GET', path: '/orders/:id', handler }],
+    })).toThrow('/capabilities/0/endpoint has path parameter ":id", which is not declared in params');
+    expect(() => new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [{ name: 'order', description: 'Order', method: 'GET', path: 'orders', handler }],
+    })).toThrow('must start with "/"');
+  });
+});
+
+describe('AgentDoor path templates', () => {
+  let door: AgentDoor;
+  let received: unknown;
+
+  beforeEach(() => {
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [{
+        name: 'order.item',
+        description: 'One line of an order',
+        method: 'GET',
+        path: '/orders/:order_id/items/:sku',
+        params: {
+          order_id: { type: 'integer', required: true },
+          sku: { type: 'string', required: true },
+          expand: { type: 'boolean' },
+        },
+        handler: async (req) => { received = req.input; return {}; },
+      }],
+    });
+  });
+
+  afterEach(() => door.destroy());
+
+  it('routes on the template and passes typed, decoded path params to the handler', async () => {
+    const res = mockRes();
+    await door.middleware()(
+      mockReq('GET', '/.well-known/agents/api/orders/42/items/mug%2Fblue', { query: { expand: 'true' } }),
+      res,
+      jest.fn(),
+    );
+
+    expect(res._status).toBe(200);
+    expect(received).toEqual({ order_id: 42, sku: 'mug/blue', expand: true });
+    expect((door['agentsJson'] as any).capabilities[0].endpoint).toBe('/.well-known/agents/api/orders/:order_id/items/:sku');
+  });
+
+  it('rejects path params of the wrong type', async () => {
+    const res = mockRes();
+    await door.middleware()(mockReq('GET', '/.well-known/agents/api/orders/latest/items/mug'), res, jest.fn());
+
+    expect(res._status).toBe(400);
+    expect(res._body.code).toBe('invalid_params');
+    expect(res._body.details.fields[0].field).toBe('order_id');
+  });
+});
+
+describe('AgentDoor session lifecycle', () => {
+  let door: AgentDoor;
+
+  beforeEach(() => jest.useFakeTimers({ now: Date.UTC(2026, 5, 1), doNotFake: ['nextTick', 'setImmediate'] }));
+
+  afterEach(() => {
+    door?.destroy();
+    jest.useRealTimers();
+  });
+
+  async function createSession(mw: ReturnType<AgentDoor['middleware']>) {
+    const res = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session'), res, jest.fn());
+    return { data: res._body.data, auth: { headers: { authorization: `Bearer ${res._body.data.session_token}` } } };
+  }
+
+  it('reports a session\'s state and refreshes it up to the maximum lifetime', async () => {
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [cart()],
+      sessionTtl: 600,
+      sessionMaxLifetime: 1500,
+    });
+    const mw = door.middleware();
+    const { data, auth } = await createSession(mw);
+    expect(data.max_expires_at).toBe('2026-06-01T00:25:00.000Z');
+
+    await mw(mockReq('POST', '/.well-known/agents/api/cart/add', { body: { item_id: '1', quantity: 2 }, ...auth }), mockRes(), jest.fn());
+    const status = mockRes();
+    await mw(mockReq('GET', '/.well-known/agents/api/session', auth), status, jest.fn());
+    expect(status._body.data).toEqual({
+      session_id: data.session_id,
+      created_at: '2026-06-01T00:00:00.000Z',
+      expires_at: '2026-06-01T00:10:00.000Z',
+      max_expires_at: '2026-06-01T00:25:00.000Z',
+      capabilities: ['cart.add', 'cart.view', 'cart.update', 'cart.remove'],
+      cart_items: 1,
+    });
+
+    jest.advanceTimersByTime(540_000);
+    const refreshed = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session/refresh', auth), refreshed, jest.fn());
+    expect(refreshed._body.data.expires_at).toBe('2026-06-01T00:19:00.000Z');
+
+    jest.advanceTimersByTime(540_000);
+    await mw(mockReq('POST', '/.well-known/agents/api/session/refresh', auth), refreshed, jest.fn());
+    expect(refreshed._body.data.expires_at).toBe('2026-06-01T00:25:00.000Z');
+
+    jest.advanceTimersByTime(420_000);
+    const expired = mockRes();
+    await mw(mockReq('GET', '/.well-known/agents/api/session', auth), expired, jest.fn());
+    expect(expired._status).toBe(401);
+    expect(expired._body.code).toBe('session_invalid');
+  });
+
+  it('extends a session on each capability call with sliding expiry', async () => {
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [cart()],
+      sessionTtl: 600,
+      sessionMaxLifetime: 3600,
+      slidingExpiry: true,
+    });
+    const mw = door.middleware();
+    const { auth } = await createSession(mw);
+
+    jest.advanceTimersByTime(300_000);
+    await mw(mockReq('GET', '/.well-known/agents/api/cart/view', auth), mockRes(), jest.fn());
+    const status = mockRes();
+    await mw(mockReq('GET', '/.well-known/agents/api/session', auth), status, jest.fn());
+    expect(status._body.data.expires_at).toBe('2026-06-01T00:15:00.000Z');
+  });
+
+  it('leaves the expiry alone without a longer lifetime', async () => {
+    door = new AgentDoor({ site: { name: 'Test', url: 'https://test.com' }, capabilities: [cart()], sessionTtl: 600 });
+    const mw = door.middleware();
+    const { data, auth } = await createSession(mw);
+
+    jest.advanceTimersByTime(300_000);
+    const refreshed = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session/refresh', auth), refreshed, jest.fn());
+    expect(refreshed._body.data.expires_at).toBe(data.expires_at);
+    expect(refreshed._body.data.max_expires_at).toBe(data.expires_at);
+  });
+});
+
+describe('AgentDoor without background timers', () => {
+  it('starts no timers and expires sessions on access or on sweep()', async () => {
+    const setIntervalSpy = jest.spyOn(global, 'setInterval');
+    const clock = new ManualClock(Date.UTC(2026, 5, 1));
+    const sessionStore = new MemorySessionStore();
+    const door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [cart()],
+      sessionTtl: 600,
+      sessionStore,
+      clock,
+      backgroundSweeps: false,
+    });
+
+    try {
+      expect(setIntervalSpy).not.toHaveBeenCalled();
+      const mw = door.middleware();
+      const created = mockRes();
+      await mw(mockReq('POST', '/.well-known/agents/api/session'), created, jest.fn());
+      expect(created._body.data.expires_at).toBe('2026-06-01T00:10:00.000Z');
+      const auth = { headers: { authorization: `Bearer ${created._body.data.session_token}` } };
+
+      clock.advance(600_000);
+      expect(await sessionStore.get(created._body.data.session_token)).not.toBeNull();
+      await door.sweep();
+      expect(await sessionStore.get(created._body.data.session_token)).toBeNull();
+      const expired = mockRes();
+      await mw(mockReq('GET', '/.well-known/agents/api/session', auth), expired, jest.fn());
+      expect(expired._status).toBe(401);
+    } finally {
+      setIntervalSpy.mockRestore();
+      await door.destroy();
+    }
+  });
+});
+
+describe('AgentDoor rate limiting', () => {
+  it('reports the algorithm\'s numbers in X-RateLimit headers on 429', async () => {
+    const door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [search({ handler: async () => [] })],
+      rateLimit: 2,
+      rateLimitAlgorithm: 'token-bucket',
+    });
+    try {
+      const mw = door.middleware();
+      for (let i = 0; i < 2; i++) {
+        await mw(mockReq('GET', '/.well-known/agents/api/search', { query: { q: 'x' } }), mockRes(), jest.fn());
+      }
+      const res = mockRes();
+      await mw(mockReq('GET', '/.well-known/agents/api/search', { query: { q: 'x' } }), res, jest.fn());
+
+      expect(res._status).toBe(429);
+      expect(res._headers['x-ratelimit-limit']).toBe('2');
+      expect(res._headers['x-ratelimit-remaining']).toBe('0');
+      // Token bucket: one token back after 30s at 2/minute.
+      expect(Number(res._headers['retry-after'])).toBeLessThanOrEqual(30);
+    } finally {
+      door.destroy();
+    }
+  });
+});
+
+describe('AgentDoor per-capability and per-session limits', () => {
+  let door: AgentDoor;
+
+  afterEach(() => {
+    door?.destroy();
+  });
+
+  function createDoor() {
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [
+        search({ handler: async () => [] }),
+        { ...checkout({ onCheckout: async () => ({ checkout_url: 'https://test.com/pay' }) }), rateLimit: { requestsPerMinute: 1 } },
+        cart(),
+      ],
+      rateLimit: 100,
+    });
+    return door.middleware();
+  }
+
+  async function newSession(mw: ReturnType<AgentDoor['middleware']>, ip = '127.0.0.1'): Promise<string> {
+    const res = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/session', { ip }), res, jest.fn());
+    return res._body.data.session_token;
+  }
+
+  it('an expensive capability has its own budget, separate from cheap ones', async () => {
+    const mw = createDoor();
+    const token = await newSession(mw);
+    const auth = { authorization: `Bearer ${token}` };
+    await mw(mockReq('POST', '/.well-known/agents/api/cart/add', { body: { item_id: '1', quantity: 1 }, headers: auth }), mockRes(), jest.fn());
+
+    const first = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/checkout', { headers: auth }), first, jest.fn());
+    expect(first._status).toBe(200);
+
+    const second = mockRes();
+    await mw(mockReq('POST', '/.well-known/agents/api/checkout', { headers: auth }), second, jest.fn());
+    expect(second._status).toBe(429);
+    expect(second._headers['x-ratelimit-limit']).toBe('1');
+
+    const searchRes = mockRes();
+    await mw(mockReq('GET', '/.well-known/agents/api/search', { query: { q: 'x' }, headers: auth }), searchRes, jest.fn());
+    expect(searchRes._status).toBe(200);
+  });
+
+  it('keys limits by session, so two sessions behind one IP do not share a budget', async () => {
+    const mw = createDoor();
+    const tokens = [await newSession(mw), await newSession(mw)];
+    for (const token of tokens) {
+      const auth = { authorization: `Bearer ${token}` };
+      await mw(mockReq('POST', '/.well-known/agents/api/cart/add', { body: { item_id: '1', quantity: 1 }, headers: auth }), mockRes(), jest.fn());
+      const res = mockRes();
+      await mw(mockReq('POST', '/.well-known/agents/api/checkout', { headers: auth }), res, jest.fn());
+      expect(res._status).toBe(200);
+    }
+  });
+
+  it('falls back to the IP budget for unknown session tokens', async () => {
+    const mw = createDoor();
+    const statuses: number[] = [];
+    for (const token of ['forged-1', 'forged-2']) {
+      const res = mockRes();
+      await mw(mockReq('POST', '/.well-known/agents/api/checkout', { headers: { authorization: `Bearer ${token}` } }), res, jest.fn());
+      statuses.push(res._status);
+    }
+    expect(statuses).toEqual([401, 429]);
+  });
+});
+
+describe('AgentDoor with a shared session store', () => {
+  it('keeps the cart when a second instance serves the session', async () => {
+    const store = new MemorySessionStore();
+    const config = {
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [cart()],
+      sessionStore: store,
+    };
+    const first = new AgentDoor(config);
+    const second = new AgentDoor(config);
+
+    try {
+      const sessionRes = mockRes();
+      await first.middleware()(mockReq('POST', '/.well-known/agents/api/session'), sessionRes, jest.fn());
+      const token = sessionRes._body.data.session_token;
+      const auth = { authorization: `Bearer ${token}` };
+
+      await first.middleware()(mockReq('POST', '/.well-known/agents/api/cart/add', {
+        body: { item_id: '1', quantity: 2, price: 10 },
+        headers: auth,
+      }), mockRes(), jest.fn());
+
+      const viewRes = mockRes();
+      await second.middleware()(mockReq('GET', '/.well-known/agents/api/cart/view', { headers: auth }), viewRes, jest.fn());
+      expect(viewRes._body.data.items).toHaveLength(1);
+      expect(viewRes._body.data.subtotal).toBe(20);
+    } finally {
+      first.destroy();
+      second.destroy();
+    }
+  });
+});
+
+describe('AgentDoor with concurrent calls on one session', () => {
+  it('keeps every item when cart additions overlap', async () => {
+    // A store slow enough that every call reads the session before any saves it.
+    const latency = () => new Promise(resolve => setTimeout(resolve, 5));
+    class SlowStore extends MemorySessionStore {
+      async get(token: string) {
+        await latency();
+        return super.get(token);
+      }
+
+      async set(session: SessionData) {
+        await latency();
+        return super.set(session);
+      }
+    }
+    const door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [cart()],
+      sessionStore: new SlowStore(),
+    });
+    const mw = door.middleware();
+
+    try {
+      const sessionRes = mockRes();
+      await mw(mockReq('POST', '/.well-known/agents/api/session'), sessionRes, jest.fn());
+      const headers = { authorization: `Bearer ${sessionRes._body.data.session_token}` };
+
+      await Promise.all(['1', '2', '3'].map(id =>
+        mw(mockReq('POST', '/.well-known/agents/api/cart/add', { body: { item_id: id, quantity: 1 }, headers }), mockRes(), jest.fn())));
+
+      const viewRes = mockRes();
+      await mw(mockReq('GET', '/.well-known/agents/api/cart/view', { headers }), viewRes, jest.fn());
+      expect(viewRes._body.data.items.map((item: { itemId: string }) => item.itemId).sort()).toEqual(['1', '2', '3']);
+    } finally {
+      door.destroy();
+    }
+  });
+});
+
+describe('AgentDoor with stateless sessions', () => {
+  it('serves a session from any instance with the secret and hands back the reissued token', async () => {
+    const config = {
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [cart()],
+      statelessSessions: { secret: 's'.repeat(32), encrypt: true, revocations: new MemoryRevocationList() },
+    };
+    const first = new AgentDoor(config);
+    const second = new AgentDoor(config);
+
+    try {
+      const sessionRes = mockRes();
+      await first.middleware()(mockReq('POST', '/.well-known/agents/api/session'), sessionRes, jest.fn());
+      const token = sessionRes._body.data.session_token;
+
+      const addRes = mockRes();
+      await first.middleware()(mockReq('POST', '/.well-known/agents/api/cart/add', {
+        body: { item_id: '1', quantity: 2, price: 10 },
+        headers: { authorization: `Bearer ${token}` },
+      }), addRes, jest.fn());
+      const reissued = addRes._headers['x-session-token'];
+      expect(reissued).toBeDefined();
+      expect(reissued).not.toBe(token);
+
+      const view = async (door: AgentDoor, sessionToken: string) => {
+        const res = mockRes();
+        await door.middleware()(mockReq('GET', '/.well-known/agents/api/cart/view', {
+          headers: { authorization: `Bearer ${sessionToken}` },
+        }), res, jest.fn());
+        return res;
+      };
+      const viewRes = await view(second, reissued);
+      expect(viewRes._body.data.subtotal).toBe(20);
+      // Reading the cart changes nothing, so there is no new token.
+      expect(viewRes._headers['x-session-token']).toBeUndefined();
+
+      await second.middleware()(mockReq('DELETE', '/.well-known/agents/api/session', {
+        headers: { authorization: `Bearer ${reissued}` },
+      }), mockRes(), jest.fn());
+      expect((await view(first, token))._status).toBe(401);
+    } finally {
+      first.destroy();
+      second.destroy();
+    }
+  });
+
+  it('rejects a session store alongside stateless sessions', () => {
+    expect(() => new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [cart()],
+      sessionStore: new MemorySessionStore(),
+      statelessSessions: { secret: 's'.repeat(32) },
+    })).toThrow('set one or the other');
+  });
+});
+
+describe('AgentDoor agent authentication', () => {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+  const api = 'https://test.com/.well-known/agents/api';
+  let door: AgentDoor;
+
+  afterEach(() => door?.destroy());
+
+  function createDoor(required = false) {
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [search({ handler: async (q) => [{ id: '1', name: q }] }), cart()],
+      agentAuth: {
+        agents: [
+          { keyId: 'shopbot-1', agentId: 'shopbot', publicKey: publicKey.export({ format: 'pem', type: 'spki' }).toString() },
+          { keyId: 'crawler-1', agentId: 'crawler', apiKey: 'hmac-secret' },
+        ],
+        required,
+      },
+    });
+    const handler = door.handler();
+    return ((input, init) => handler(new Request(input, init))) as typeof fetch;
+  }
+
+  it('binds a signed session to its agent', async () => {
+    const handler = createDoor();
+    const shopbot = signingFetch(handler, { keyId: 'shopbot-1', privateKey });
+    const crawler = signingFetch(handler, { keyId: 'crawler-1', apiKey: 'hmac-secret' });
+
+    const created = await (await shopbot(`${api}/session`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ capabilities: ['cart.add', 'cart.view'] }),
+    })).json();
+    expect(created.data.agent_id).toBe('shopbot');
+    const auth = { Authorization: `Bearer ${created.data.session_token}`, 'Content-Type': 'application/json' };
+
+    const added = await shopbot(`${api}/cart/add`, {
+      method: 'POST',
+      headers: auth,
+      body: JSON.stringify({ item_id: '1', quantity: 2 }),
+    });
+    expect(added.status).toBe(200);
+
+    const unsigned = await handler(`${api}/cart/view`, { headers: auth });
+    expect(unsigned.status).toBe(401);
+    expect((await unsigned.json()).code).toBe('agent_auth_required');
+
+    const other = await crawler(`${api}/cart/view`, { headers: auth });
+    expect(other.status).toBe(403);
+    expect(await other.json()).toMatchObject({
+      code: 'agent_mismatch',
+      details: { session_agent: 'shopbot', request_agent: 'crawler' },
+    });
+  });
+
+  it('refuses bad signatures, and unsigned requests when signatures are required', async () => {
+    const handler = createDoor(true);
+    const forged = signingFetch(handler, { keyId: 'crawler-1', apiKey: 'guess' });
+
+    const bad = await forged(`${api}/search?q=mug`);
+    expect(bad.status).toBe(401);
+    expect((await bad.json()).code).toBe('agent_signature_invalid');
+
+    const unsigned = await handler(`${api}/search?q=mug`);
+    expect((await unsigned.json()).code).toBe('agent_auth_required');
+
+    const signed = await signingFetch(handler, { keyId: 'crawler-1', apiKey: 'hmac-secret' })(`${api}/search?q=mug`);
+    expect((await signed.json()).data).toEqual([{ id: '1', name: 'mug' }]);
+  });
+
+  it('publishes agent_auth in agents.json', async () => {
+    const handler = createDoor();
+    const manifest = await (await handler('https://test.com/.well-known/agents.json')).json();
+    expect(manifest.agent_auth).toMatchObject({ required: false, scheme: 'http-message-signatures' });
+  });
+});
+
+describe('AgentDoor error envelope', () => {
+  let door: AgentDoor;
+
+  afterEach(() => {
+    door?.destroy();
+  });
+
+  function createDoor() {
+    door = new AgentDoor({
+      site: { name: 'Test', url: 'https://test.com' },
+      capabilities: [
+        detail({ handler: async (id) => (id === '1' ? { id } : null) }),
+        {
+          name: 'stock',
+          description: 'Check stock',
+          method: 'GET',
+          handler: async () => {
+            throw new AgentError('warehouse_offline', 'Warehouse is offline', {
+              status: 503,
+              retryable: true,
+              details: { warehouse: 'east' },
+            });
+          },
+        },
+        {
+          name: 'legacy',
+          description: 'Throws a plain error',
+          method: 'GET',
+          handler: async () => { throw new Error('Something broke'); },
+        },
+      ],
+    });
+  }
+
+  it('serializes AgentErrors thrown by handlers from middleware()', async () => {
+    createDoor();
+    const res = mockRes();
+    await door.middleware()(mockReq('GET', '/.well-known/agents/api/stock'), res, jest.fn());
+
+    expect(res._status).toBe(503);
+    expect(res._body).toEqual({
+      ok: false,
+      error: 'Warehouse is offline',
+      code: 'warehouse_offline',
+      retryable: true,
+      details: { warehouse: 'east' },
+    });
+  });
+
+  it('serializes the same envelope from handler()', async () => {
+    createDoor();
+    const response = await door.handler()(new Request('https://test.com/.well-known/agents/api/stock'));
+
+    expect(response.status).toBe(503);
+    expect(await response.json()).toEqual({
+      ok: false,
+      error: 'Warehouse is offline',
+      code: 'warehouse_offline',
+      retryable: true,
+      details: { warehouse: 'east' },
+    });
+  });
+
+  it('reports a missing detail item as not_found', async () => {
+    createDoor();
+    const res = mockRes();
+    await door.middleware()(mockReq('GET', '/.well-known/agents/api/detail/2'), res, jest.fn());
+
+    expect(res._status).toBe(404);
+    expect(res._body).toMatchObject({ code: 'not_found', retryable: false });
+  });
+
+  it('answers a failing session store with a 500 envelope from middleware() and handler()', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    const sessionStore = new MemorySessionStore();
+    jest.spyOn(sessionStore, 'get').mockRejectedValue(new Error('EACCES: permission denied'));
+    door = new AgentDoor({ site: { name: 'Test', url: 'https://test.com' }, capabilities: [cart()], sessionStore });
+    const expected = { ok: false, error: 'Internal server error', code: 'internal_error', retryable: true };
+
+    const res = mockRes();
+    await door.middleware()(mockReq('GET', '/.well-known/agents/api/cart/view', { headers: { authorization: 'Bearer tok' } }), res, jest.fn());
+    expect(res._status).toBe(500);
+    expect(res._body).toEqual(expected);
+
+    const response = await door.handler()(new Request('https://test.com/.well-known/agents/api/session', {
+      headers: { authorization: 'Bearer tok' },
+    }));
+    expect(response.status).toBe(500);
+    expect(await response.json()).toEqual(expected);
+    error.mockRestore();
+  });
+
+  it('keeps plain errors as 400 capability_failed', async () => {
+    createDoor();
+    const res = mockRes();
+    await door.middleware()(mockReq('GET', '/.well-known/agents/api/legacy'), res, jest.fn());
+
+    expect(res._status).toBe(400);
+    expect(res._body).toEqual({ ok: false, error: 'Something broke', code: 'capability_failed', retryable: false });
+  });
+
+  it('gives built-in failures codes too', async () => {
+    door = new AgentDoor({ site: { name: 'Test', url: 'https://test.com' }, capabilities: [cart()], rateLimit: 1 });
+    const mw = door.middleware();
+
+    const unauthorized = mockRes();
+    await mw(mockReq('GET', '/.well-known/agents/api/cart/view'), unauthorized, jest.fn());
+    expect(unauthorized._body.code).toBe('session_required');
+
+    const limited = mockRes();
+    await mw(mockReq('GET', '/.well-known/agents/api/cart/view'), limited, jest.fn());
+    expect(limited._status).toBe(429);
+    expect(limited._body).toMatchObject({ code: 'rate_limited', retryable: true });
+    expect(limited._body.details.retry_after_seconds).toBeGreaterThan(0);
+
+    const missing = await door.handler()(new Request('https://test.com/.well-known/agents/api/nope'));
+    expect(await missing.json()).toEqual(new NotFoundError().toJSON());
+  });
 });
 
 describe('AgentDoor.fromOpenAPI', () => {
@@ -276,6 +1030,97 @@ describe('AgentDoor.fromOpenAPI', () => {
     expect(createPet.method).toBe('POST');
     expect(createPet.params?.name.required).toBe(true);
 
+    const getPet = agentsJson.capabilities.find((c: any) => c.name === 'getPet');
+    expect(getPet.endpoint).toBe('/.well-known/agents/api/getPet/:id');
+
+    door.destroy();
+  });
+
+  it('keeps nested schemas and the success response schema', () => {
+    const petSchema = {
+      type: 'object',
+      properties: { id: { type: 'string' }, tags: { type: 'array', items: { type: 'string' } } },
+    };
+    const spec = {
+      info: { title: 'Pet Store' },
+      paths: {
+        '/pets': {
+          post: {
+            operationId: 'createPet',
+            requestBody: {
+              content: {
+                'application/json': {
+                  schema: {
+                    properties: {
+                      owner: {
+                        type: 'object',
+                        properties: { email: { type: 'string', format: 'email' } },
+                        required: ['email'],
+                      },
+                    },
+                    required: ['owner'],
+                  },
+                },
+              },
+            },
+            responses: { '201': { content: { 'application/json': { schema: petSchema } } } },
+          },
+        },
+      },
+    };
+
+    const door = AgentDoor.fromOpenAPI(spec, 'https://pets.example.com');
+    const createPet = (door['agentsJson'] as any).capabilities[0];
+
+    expect(createPet.params.owner).toEqual({
+      type: 'object',
+      required: true,
+      properties: { email: { type: 'string', format: 'email' } },
+      allOf: [{ required: ['email'] }],
+    });
+    expect(createPet.output_schema).toEqual(petSchema);
+
     door.destroy();
   });
+
+  it('maps upstream failures onto agent error codes', async () => {
+    const spec = {
+      paths: {
+        '/pets/{id}': {
+          get: {
+            operationId: 'getPet',
+            parameters: [{ name: 'id', in: 'path' as const, required: true, schema: { type: 'string' } }],
+          },
+        },
+      },
+    };
+    const door = AgentDoor.fromOpenAPI(spec, 'https://pets.example.com');
+    const fetchSpy = jest.spyOn(globalThis, 'fetch');
+    const call = async () => {
+      const res = mockRes();
+      await door.middleware()(mockReq('GET', '/.well-known/agents/api/getPet/7'), res, jest.fn());
+      return res;
+    };
+
+    try {
+      fetchSpy.mockResolvedValueOnce(new Response('no such pet', { status: 404 }));
+      const notFound = await call();
+      expect(fetchSpy).toHaveBeenLastCalledWith('https://pets.example.com/pets/7', expect.anything());
+      expect(notFound._status).toBe(404);
+      expect(notFound._body).toMatchObject({ code: 'not_found', details: { upstream_status: 404 } });
+
+      fetchSpy.mockResolvedValueOnce(new Response('boom', { status: 500 }));
+      const failed = await call();
+      expect(failed._status).toBe(502);
+      expect(failed._body).toMatchObject({ code: 'upstream_error', retryable: true });
+
+      fetchSpy.mockRejectedValueOnce(new TypeError('fetch failed'));
+      const unreachable = await call();
+      expect(unreachable._status).toBe(502);
+      expect(unreachable._body.error).toBe('Upstream request failed: fetch failed');
+    } finally {
+      fetchSpy.mockRestore();
+      door.destroy();
+    }
+  });
 });
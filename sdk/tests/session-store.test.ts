@@ -0,0 +1,129 @@
+import { mkdtempSync, rmSync, readdirSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { MemorySessionStore, FileSessionStore } from '../src/session-store';
+import { SessionData, SessionStore } from '../src/types';
+
+function makeSession(token: string, expiresInMs = 60_000): SessionData {
+  return {
+    sessionId: `ses_${token}`,
+    sessionToken: token,
+    siteId: 'https://test.com',
+    capabilities: ['cart.add'],
+    cartItems: [{ itemId: '1', quantity: 2, price: 28 }],
+    expiresAt: new Date(Date.now() + expiresInMs),
+    maxExpiresAt: new Date(Date.now() + 10 * expiresInMs),
+    createdAt: new Date(),
+  };
+}
+
+function describeStore(name: string, create: () => SessionStore, teardown: () => void = () => {}) {
+  describe(name, () => {
+    let store: SessionStore;
+
+    beforeEach(() => {
+      store = create();
+    });
+
+    afterEach(teardown);
+
+    it('round-trips a session including dates and cart items', async () => {
+      const session = makeSession('tok-1');
+      await store.set(session);
+      const loaded = await store.get('tok-1');
+      expect(loaded).toEqual(session);
+      expect(loaded!.expiresAt).toBeInstanceOf(Date);
+      expect(loaded!.maxExpiresAt).toBeInstanceOf(Date);
+    });
+
+    it('returns null for unknown tokens', async () => {
+      expect(await store.get('missing')).toBeNull();
+    });
+
+    it('deletes sessions', async () => {
+      await store.set(makeSession('tok-1'));
+      await store.delete('tok-1');
+      expect(await store.get('tok-1')).toBeNull();
+    });
+
+    it('touch moves the expiry', async () => {
+      await store.set(makeSession('tok-1'));
+      const later = new Date(Date.now() + 3_600_000);
+      await store.touch('tok-1', later);
+      expect((await store.get('tok-1'))!.expiresAt.getTime()).toBe(later.getTime());
+    });
+
+    it('scanExpired lists only expired tokens', async () => {
+      await store.set(makeSession('live'));
+      await store.set(makeSession('dead', -1_000));
+      expect(await store.scanExpired(new Date())).toEqual(['dead']);
+    });
+  });
+}
+
+describeStore('MemorySessionStore', () => new MemorySessionStore());
+
+let dir = '';
+describeStore(
+  'FileSessionStore',
+  () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'agents-sessions-'));
+    return new FileSessionStore(dir);
+  },
+  () => rmSync(dir, { recursive: true, force: true }),
+);
+
+describe('FileSessionStore on disk', () => {
+  it('does not use the raw token in file names', async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'agents-sessions-'));
+    try {
+      const store = new FileSessionStore(dir);
+      await store.set(makeSession('../../secret-token'));
+      const files = readdirSync(dir);
+      expect(files).toHaveLength(1);
+      expect(files[0]).not.toContain('secret-token');
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('takes concurrent writes of the same session', async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'agents-sessions-'));
+    try {
+      const store = new FileSessionStore(dir);
+      await Promise.all([1, 2, 3, 4, 5].map(quantity => store.set({
+        ...makeSession('tok-1'),
+        cartItems: [{ itemId: '1', quantity }],
+      })));
+      expect(readdirSync(dir)).toHaveLength(1);
+      expect((await store.get('tok-1'))!.cartItems).toHaveLength(1);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('sets a corrupt file aside instead of failing every sweep', async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'agents-sessions-'));
+    try {
+      const store = new FileSessionStore(dir);
+      await store.set(makeSession('tok-1', -1000));
+      writeFileSync(path.join(dir, `${'0'.repeat(64)}.json`), '{"sessionId": "ses_trunc');
+
+      expect(await store.scanExpired(new Date())).toEqual(['tok-1']);
+      expect(readdirSync(dir)).toContain(`${'0'.repeat(64)}.json.corrupt`);
+      expect(await store.scanExpired(new Date())).toEqual(['tok-1']);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('survives a new store instance over the same directory', async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'agents-sessions-'));
+    try {
+      await new FileSessionStore(dir).set(makeSession('tok-1'));
+      expect(await new FileSessionStore(dir).get('tok-1')).not.toBeNull();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
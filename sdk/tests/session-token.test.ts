@@ -0,0 +1,99 @@
+import { MemoryRevocationList, SessionTokenCodec } from '../src/session-token';
+import { ConflictError } from '../src/errors';
+import { SessionData } from '../src/types';
+
+const SECRET = 'k'.repeat(32);
+const CAPABILITIES = ['search', 'cart.add', 'cart.view'];
+
+function makeSession(overrides: Partial<SessionData> = {}): SessionData {
+  return {
+    sessionId: 'ses_abc',
+    sessionToken: '',
+    siteId: 'https://test.com',
+    capabilities: CAPABILITIES,
+    cartItems: [
+      { itemId: 'mug', name: 'Blue Mug', quantity: 2, price: 28, metadata: { color: 'blue' } },
+      { itemId: 'lamp', quantity: 1 },
+    ],
+    expiresAt: new Date(Date.now() + 60_000),
+    maxExpiresAt: new Date(Date.now() + 600_000),
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
+
+describe('SessionTokenCodec', () => {
+  it.each([false, true])('round-trips a session (encrypt: %s)', (encrypt) => {
+    const codec = new SessionTokenCodec({ secret: SECRET, encrypt }, CAPABILITIES);
+    const session = makeSession({
+      capabilities: ['search'],
+      agent: { agentId: 'shopbot', keyId: 'shopbot-1', algorithm: 'ed25519' },
+      limits: { maxToolCalls: 10, maxCallsPerCapability: { search: 5 }, maxSpendUsd: 50 },
+    });
+    const token = codec.issue(session);
+
+    expect(codec.read(token)).toEqual({ ...session, sessionToken: token });
+  });
+
+  it('leaves a full scope out of the token and restores it', () => {
+    const codec = new SessionTokenCodec({ secret: SECRET }, CAPABILITIES);
+    const token = codec.issue(makeSession());
+    const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString());
+
+    expect(payload.cap).toBeUndefined();
+    expect(payload.cart[1]).toEqual(['lamp', 1]);
+    expect(codec.read(token)!.capabilities).toEqual(CAPABILITIES);
+  });
+
+  it('hides the session when encrypting', () => {
+    const codec = new SessionTokenCodec({ secret: SECRET, encrypt: true }, CAPABILITIES);
+    const token = codec.issue(makeSession());
+
+    expect(token.startsWith('st1e.')).toBe(true);
+    expect(Buffer.from(token.replace(/\./g, ''), 'base64url').toString()).not.toContain('Blue Mug');
+  });
+
+  it.each([false, true])('rejects tampered and foreign tokens (encrypt: %s)', (encrypt) => {
+    const codec = new SessionTokenCodec({ secret: SECRET, encrypt }, CAPABILITIES);
+    const token = codec.issue(makeSession());
+    const parts = token.split('.');
+    parts[parts.length - 2] = Buffer.from('{"sid":"ses_other"}').toString('base64url');
+
+    expect(codec.read(parts.join('.'))).toBeNull();
+    expect(codec.read('not-a-token')).toBeNull();
+    expect(new SessionTokenCodec({ secret: 'x'.repeat(32), encrypt }, CAPABILITIES).read(token)).toBeNull();
+  });
+
+  it('accepts tokens signed with a previous secret after rotation', () => {
+    const old = new SessionTokenCodec({ secret: SECRET }, CAPABILITIES);
+    const rotated = new SessionTokenCodec({ secret: ['n'.repeat(32), SECRET] }, CAPABILITIES);
+    const token = old.issue(makeSession());
+
+    expect(rotated.read(token)!.sessionId).toBe('ses_abc');
+    expect(old.read(rotated.issue(makeSession()))).toBeNull();
+  });
+
+  it('refuses short secrets', () => {
+    expect(() => new SessionTokenCodec({ secret: 'short' })).toThrow('at least 32 bytes');
+    expect(() => new SessionTokenCodec({ secret: [] })).toThrow('need a secret');
+  });
+
+  it('refuses to issue a token larger than maxTokenBytes', () => {
+    const codec = new SessionTokenCodec({ secret: SECRET, maxTokenBytes: 512 }, CAPABILITIES);
+    const cartItems = Array.from({ length: 20 }, (_, i) => ({ itemId: `item-${i}`, quantity: 1, price: 10 }));
+
+    expect(() => codec.issue(makeSession({ cartItems }))).toThrow(ConflictError);
+  });
+});
+
+describe('MemoryRevocationList', () => {
+  it('refuses a revoked session until its tokens have expired', async () => {
+    const revocations = new MemoryRevocationList();
+    await revocations.revoke('ses_live', new Date(Date.now() + 60_000));
+    await revocations.revoke('ses_done', new Date(Date.now() - 1));
+
+    expect(await revocations.isRevoked('ses_live')).toBe(true);
+    expect(await revocations.isRevoked('ses_done')).toBe(false);
+    expect(await revocations.isRevoked('ses_other')).toBe(false);
+  });
+});
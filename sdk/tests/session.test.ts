@@ -1,4 +1,7 @@
-import { SessionManager } from '../src/session';
+import { resolveSessionScope, SessionManager } from '../src/session';
+import { MemorySessionStore } from '../src/session-store';
+import { MemoryRevocationList } from '../src/session-token';
+import { ManualClock, withoutTimers } from '../src/clock';
 
 describe('SessionManager', () => {
   let manager: SessionManager;
@@ -7,68 +10,238 @@ describe('SessionManager', () => {
     manager?.destroy();
   });
 
-  it('creates a session with a token and expiry', () => {
+  it('creates a session with a token and expiry', async () => {
     manager = new SessionManager(3600);
-    const result = manager.createSession('https://test.com');
+    const result = await manager.createSession('https://test.com');
     expect(result.sessionToken).toBeDefined();
     expect(result.sessionToken.length).toBeGreaterThan(0);
     expect(result.expiresAt).toBeInstanceOf(Date);
     expect(result.expiresAt.getTime()).toBeGreaterThan(Date.now());
   });
 
-  it('validates an active session', () => {
+  it('validates an active session', async () => {
     manager = new SessionManager(3600);
-    const { sessionToken } = manager.createSession('https://test.com');
-    const session = manager.validateSession(sessionToken);
+    const { sessionId, sessionToken } = await manager.createSession('https://test.com');
+    const session = await manager.validateSession(sessionToken);
     expect(session).not.toBeNull();
     expect(session!.sessionToken).toBe(sessionToken);
+    expect(session!.sessionId).toBe(sessionId);
+    expect(sessionId).not.toContain(sessionToken);
     expect(session!.siteId).toBe('https://test.com');
     expect(session!.cartItems).toEqual([]);
   });
 
-  it('returns null for unknown tokens', () => {
+  it('returns null for unknown tokens', async () => {
     manager = new SessionManager(3600);
-    expect(manager.validateSession('bogus-token')).toBeNull();
+    expect(await manager.validateSession('bogus-token')).toBeNull();
   });
 
-  it('rejects expired sessions', () => {
+  it('rejects expired sessions', async () => {
     manager = new SessionManager(0); // 0 second TTL = expired immediately
-    const { sessionToken } = manager.createSession('https://test.com');
+    const { sessionToken } = await manager.createSession('https://test.com');
     // The session expires at Date.now() + 0 * 1000 = now, so it should be expired
-    const session = manager.validateSession(sessionToken);
+    const session = await manager.validateSession(sessionToken);
     expect(session).toBeNull();
   });
 
-  it('ends a session', () => {
+  it('ends a session', async () => {
     manager = new SessionManager(3600);
-    const { sessionToken } = manager.createSession('https://test.com');
-    manager.endSession(sessionToken);
-    expect(manager.validateSession(sessionToken)).toBeNull();
+    const { sessionToken } = await manager.createSession('https://test.com');
+    await manager.endSession(sessionToken);
+    expect(await manager.validateSession(sessionToken)).toBeNull();
   });
 
-  it('getSession is an alias for validateSession', () => {
+  it('getSession is an alias for validateSession', async () => {
     manager = new SessionManager(3600);
-    const { sessionToken } = manager.createSession('https://test.com');
-    const session = manager.getSession(sessionToken);
+    const { sessionToken } = await manager.createSession('https://test.com');
+    const session = await manager.getSession(sessionToken);
     expect(session).not.toBeNull();
     expect(session!.sessionToken).toBe(sessionToken);
   });
 
-  it('includes capability names from constructor', () => {
+  it('includes capability names from constructor', async () => {
     const caps = [
       { name: 'search', description: 'Search', method: 'GET' as const, handler: async () => [] },
       { name: 'cart.add', description: 'Add', method: 'POST' as const, handler: async () => {} },
     ];
     manager = new SessionManager(3600, caps);
-    const { capabilities } = manager.createSession('https://test.com');
+    const { capabilities } = await manager.createSession('https://test.com');
     expect(capabilities).toContain('search');
     expect(capabilities).toContain('cart.add');
   });
 
-  it('each session gets a unique token', () => {
+  it('narrows a session to the requested scope and never past the site TTL', async () => {
+    manager = new SessionManager(600);
+    const short = await manager.createSession('https://test.com', { capabilities: ['search'], ttl: 60 });
+    expect(short.capabilities).toEqual(['search']);
+    expect(short.expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 60_000);
+
+    const long = await manager.createSession('https://test.com', { ttl: 86_400 });
+    expect(long.expiresAt.getTime()).toBeLessThanOrEqual(Date.now() + 600_000);
+  });
+
+  it('refreshes a session by one TTL, up to its maximum lifetime', async () => {
+    jest.useFakeTimers({ now: Date.UTC(2026, 5, 1) });
+    try {
+      manager = new SessionManager(600, [], new MemorySessionStore(), 1500);
+      const { sessionToken, maxExpiresAt } = await manager.createSession('https://test.com');
+      expect(maxExpiresAt.getTime()).toBe(Date.now() + 1_500_000);
+
+      jest.advanceTimersByTime(500_000);
+      const session = (await manager.validateSession(sessionToken))!;
+      expect(await manager.refreshSession(session)).toEqual(new Date(Date.now() + 600_000));
+      expect((await manager.validateSession(sessionToken))!.expiresAt).toEqual(session.expiresAt);
+
+      jest.advanceTimersByTime(500_000);
+      expect(await manager.refreshSession(session)).toEqual(maxExpiresAt);
+
+      jest.advanceTimersByTime(500_000);
+      expect(await manager.validateSession(sessionToken)).toBeNull();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('keeps a session to one TTL without a longer lifetime, or when the agent asked for less', async () => {
+    manager = new SessionManager(600, [], new MemorySessionStore(), 3600);
+    const scoped = await manager.createSession('https://test.com', { ttl: 300 });
+    const session = (await manager.validateSession(scoped.sessionToken))!;
+    expect(await manager.refreshSession(session)).toEqual(scoped.expiresAt);
+    manager.destroy();
+
+    manager = new SessionManager(600);
+    const plain = await manager.createSession('https://test.com');
+    expect(plain.maxExpiresAt).toEqual(plain.expiresAt);
+  });
+
+  it('each session gets a unique token', async () => {
     manager = new SessionManager(3600);
-    const a = manager.createSession('https://test.com');
-    const b = manager.createSession('https://test.com');
+    const a = await manager.createSession('https://test.com');
+    const b = await manager.createSession('https://test.com');
     expect(a.sessionToken).not.toBe(b.sessionToken);
+    expect(a.sessionId).not.toBe(b.sessionId);
+  });
+});
+
+describe('SessionManager with a custom store', () => {
+  let manager: SessionManager;
+
+  afterEach(() => {
+    manager?.destroy();
+  });
+
+  it('reads and writes sessions through the store', async () => {
+    const store = new MemorySessionStore();
+    manager = new SessionManager(3600, [], store);
+    const { sessionToken } = await manager.createSession('https://test.com');
+    expect(await store.get(sessionToken)).not.toBeNull();
+
+    await manager.endSession(sessionToken);
+    expect(await store.get(sessionToken)).toBeNull();
+  });
+
+  it('returns snapshots that do not alias stored state', async () => {
+    manager = new SessionManager(3600);
+    const { sessionToken } = await manager.createSession('https://test.com');
+    const session = await manager.validateSession(sessionToken);
+    session!.cartItems.push({ itemId: '1', quantity: 1 });
+
+    expect((await manager.validateSession(sessionToken))!.cartItems).toEqual([]);
+  });
+
+  it('leaves expired sessions in the store until they are swept or looked up, without timers', async () => {
+    const clock = new ManualClock(Date.UTC(2026, 5, 1));
+    const store = new MemorySessionStore();
+    manager = new SessionManager(60, [], store, 60, undefined, withoutTimers(clock));
+    const { sessionToken: swept } = await manager.createSession('https://test.com');
+    const { sessionToken: lookedUp } = await manager.createSession('https://test.com');
+
+    clock.advance(120_000);
+    expect(await store.scanExpired(new Date(clock.now()))).toHaveLength(2);
+    expect(await manager.validateSession(lookedUp)).toBeNull();
+    expect(await store.get(lookedUp)).toBeNull();
+    await manager.sweep();
+    expect(await store.get(swept)).toBeNull();
+  });
+
+  it('persists updates made through updateSession', async () => {
+    manager = new SessionManager(3600);
+    const { sessionToken } = await manager.createSession('https://test.com');
+    const session = await manager.validateSession(sessionToken);
+    session!.cartItems = [{ itemId: '1', quantity: 2 }];
+    await manager.updateSession(session!);
+
+    expect((await manager.validateSession(sessionToken))!.cartItems).toEqual([{ itemId: '1', quantity: 2 }]);
+  });
+});
+
+describe('SessionManager with stateless sessions', () => {
+  const stateless = { secret: 's'.repeat(32) };
+  let manager: SessionManager;
+
+  afterEach(() => {
+    manager?.destroy();
+  });
+
+  it('serves a session from its token alone, on any instance with the secret', async () => {
+    const store = new MemorySessionStore();
+    manager = new SessionManager(3600, [], store, 3600, stateless);
+    const { sessionId, sessionToken } = await manager.createSession('https://test.com', { capabilities: [] });
+    expect(await store.get(sessionToken)).toBeNull();
+
+    const other = new SessionManager(3600, [], undefined, 3600, stateless);
+    const session = await other.validateSession(sessionToken);
+    other.destroy();
+    expect(session).toMatchObject({ sessionId, sessionToken, siteId: 'https://test.com', capabilities: [] });
+  });
+
+  it('reissues the token when the session changes, and revokes every token on end', async () => {
+    const revocations = new MemoryRevocationList();
+    manager = new SessionManager(600, [], undefined, 3600, { ...stateless, revocations });
+    const { sessionToken: first } = await manager.createSession('https://test.com');
+    const session = (await manager.validateSession(first))!;
+    session.cartItems = [{ itemId: '1', quantity: 2 }];
+    await manager.updateSession(session);
+    const second = session.sessionToken;
+
+    expect(second).not.toBe(first);
+    expect((await manager.validateSession(second))!.cartItems).toEqual([{ itemId: '1', quantity: 2 }]);
+    // The earlier token still shows the session as it was.
+    expect((await manager.validateSession(first))!.cartItems).toEqual([]);
+
+    await manager.endSession(second);
+    expect(await revocations.isRevoked(session.sessionId)).toBe(true);
+    expect(await manager.validateSession(first)).toBeNull();
+    expect(await manager.validateSession(second)).toBeNull();
+  });
+
+  it('rejects expired tokens', async () => {
+    manager = new SessionManager(0, [], undefined, 0, stateless);
+    const { sessionToken } = await manager.createSession('https://test.com');
+    expect(await manager.validateSession(sessionToken)).toBeNull();
+  });
+});
+
+describe('resolveSessionScope', () => {
+  const names = ['search', 'cart.add', 'checkout'];
+
+  it('grants everything when the agent asks for nothing', () => {
+    expect(resolveSessionScope({}, names)).toEqual({});
+  });
+
+  it('grants the requested capabilities minus the denied ones', () => {
+    expect(resolveSessionScope({ capabilities: ['search', 'checkout'], deny: ['checkout'], ttl: 300 }, names)).toEqual({
+      capabilities: ['search'],
+      denied: ['checkout'],
+      ttl: 300,
+    });
+    expect(resolveSessionScope({ deny: ['checkout'] }, names).capabilities).toEqual(['search', 'cart.add']);
+  });
+
+  it('rejects names the site does not declare and malformed fields', () => {
+    expect(() => resolveSessionScope({ capabilities: ['search', 'teleport'], deny: 'checkout', ttl: 0 }, names)).toThrow(
+      'Invalid session request: capabilities: unknown capabilities teleport; '
+      + 'deny must be an array of capability names; ttl must be a positive integer',
+    );
   });
 });
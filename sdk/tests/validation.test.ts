@@ -0,0 +1,172 @@
+import { compilePatterns, validateParams, validateSchema } from '../src/validation';
+import { ParamDefinition } from '../src/types';
+
+describe('validateParams', () => {
+  const defs: Record<string, ParamDefinition> = {
+    q: { type: 'string', required: true },
+    limit: { type: 'integer', default: 20 },
+    price: { type: 'number' },
+    in_stock: { type: 'boolean' },
+    sort: { type: 'string', enum: ['price', 'name'] },
+    tags: { type: 'array' },
+    filter: { type: 'object' },
+  };
+
+  it('coerces query-string values to their declared types', () => {
+    const { values, errors } = validateParams(defs, {
+      q: 'mug', limit: '5', price: '12.5', in_stock: 'true', tags: 'blue, large', filter: '{"color":"blue"}',
+    });
+    expect(errors).toEqual([]);
+    expect(values).toEqual({
+      q: 'mug', limit: 5, price: 12.5, in_stock: true, tags: ['blue', 'large'], filter: { color: 'blue' },
+    });
+  });
+
+  it('accepts already-typed JSON body values', () => {
+    const { values, errors } = validateParams(defs, { q: 'mug', limit: 3, in_stock: false, tags: ['a'] });
+    expect(errors).toEqual([]);
+    expect(values).toMatchObject({ limit: 3, in_stock: false, tags: ['a'] });
+  });
+
+  it('applies defaults for missing params', () => {
+    expect(validateParams(defs, { q: 'mug' }).values.limit).toBe(20);
+  });
+
+  it('treats empty strings as absent', () => {
+    const { values, errors } = validateParams(defs, { q: '', price: '' });
+    expect(errors).toEqual([{ field: 'q', message: 'q is required' }]);
+    expect(values).not.toHaveProperty('price');
+  });
+
+  it('reports every failing field', () => {
+    const { errors } = validateParams(defs, { limit: '2.5', price: 'cheap', in_stock: 'maybe', sort: 'random' });
+    expect(errors).toEqual([
+      { field: 'q', message: 'q is required' },
+      { field: 'limit', message: 'limit must be an integer' },
+      { field: 'price', message: 'price must be a number' },
+      { field: 'in_stock', message: 'in_stock must be a boolean' },
+      { field: 'sort', message: 'sort must be one of: price, name' },
+    ]);
+  });
+
+  it('rejects non-string values for string params', () => {
+    const { errors } = validateParams(defs, { q: 42 });
+    expect(errors).toEqual([{ field: 'q', message: 'q must be a string' }]);
+  });
+
+  it('passes undeclared values through untouched', () => {
+    const { values } = validateParams(defs, { q: 'mug', color: 'blue' });
+    expect(values.color).toBe('blue');
+  });
+
+  it('does not check unknown type names', () => {
+    const { values, errors } = validateParams({ when: { type: 'date' } }, { when: 'tomorrow' });
+    expect(errors).toEqual([]);
+    expect(values.when).toBe('tomorrow');
+  });
+});
+
+describe('validateParams with JSON Schema keywords', () => {
+  const defs: Record<string, ParamDefinition> = {
+    email: { type: 'string', required: true, format: 'email' },
+    sku: { type: 'string', pattern: '^[A-Z]{3}-\\d+$', minLength: 5, maxLength: 12 },
+    quantity: { type: 'integer', minimum: 1, maximum: 10 },
+    tags: { type: 'array', items: { type: 'string', enum: ['gift', 'sale'] }, maxItems: 2, uniqueItems: true },
+    address: {
+      type: 'object',
+      properties: {
+        city: { type: 'string' },
+        zip: { type: 'string', pattern: '^\\d{5}$' },
+        country: { type: 'string', default: 'US' },
+      },
+      required: ['city'],
+      additionalProperties: false,
+    },
+    when: { type: 'string', format: 'date-time' },
+  };
+
+  it('accepts a fully valid payload and applies nested defaults', () => {
+    const { values, errors } = validateParams(defs, {
+      email: 'a@b.co',
+      sku: 'MUG-42',
+      quantity: 2,
+      tags: ['gift'],
+      address: { city: 'Austin', zip: '78701' },
+      when: '2026-02-19T13:00:00Z',
+    });
+    expect(errors).toEqual([]);
+    expect(values.address).toEqual({ city: 'Austin', zip: '78701', country: 'US' });
+  });
+
+  it('reports nested failures with their paths', () => {
+    const { errors } = validateParams(defs, {
+      email: 'not-an-email',
+      sku: 'mug',
+      quantity: 0,
+      tags: ['gift', 'gift', 'free'],
+      address: { zip: 'abc', planet: 'Mars' },
+      when: 'yesterday',
+    });
+    expect(errors).toEqual([
+      { field: 'email', message: 'email must be a valid email' },
+      { field: 'sku', message: 'sku must be at least 5 characters' },
+      { field: 'sku', message: 'sku must match pattern ^[A-Z]{3}-\\d+$' },
+      { field: 'quantity', message: 'quantity must be >= 1' },
+      { field: 'tags', message: 'tags must have at most 2 items' },
+      { field: 'tags', message: 'tags must not contain duplicates' },
+      { field: 'tags[2]', message: 'tags[2] must be one of: gift, sale' },
+      { field: 'address.city', message: 'address.city is required' },
+      { field: 'address.zip', message: 'address.zip must match pattern ^\\d{5}$' },
+      { field: 'address.planet', message: 'address.planet is not allowed' },
+      { field: 'when', message: 'when must be a valid date-time' },
+    ]);
+  });
+
+  it('parses JSON objects and arrays sent in the query string', () => {
+    const { values, errors } = validateParams(defs, {
+      email: 'a@b.co',
+      tags: '["sale"]',
+      address: '{"city":"Austin"}',
+    });
+    expect(errors).toEqual([]);
+    expect(values.tags).toEqual(['sale']);
+    expect(values.address).toEqual({ city: 'Austin', country: 'US' });
+  });
+
+  it('supports union types and anyOf/oneOf', () => {
+    const unionDefs: Record<string, ParamDefinition> = {
+      id: { type: ['integer', 'string'] },
+      size: { type: 'string', oneOf: [{ enum: ['S', 'M'] }, { pattern: '^\\d+cm$' }] },
+      price: { type: 'object', anyOf: [{ required: ['usd'] }, { required: ['eur'] }] },
+    };
+    expect(validateParams(unionDefs, { id: '7', size: 'M', price: { eur: 5 } })).toEqual({
+      values: { id: 7, size: 'M', price: { eur: 5 } },
+      errors: [],
+    });
+    expect(validateParams(unionDefs, { id: true, size: 'XL', price: {} }).errors).toEqual([
+      { field: 'id', message: 'id must be an integer or string' },
+      { field: 'size', message: 'size must match exactly one allowed shape' },
+      { field: 'price', message: 'price does not match any allowed shape' },
+    ]);
+  });
+});
+
+describe('validateSchema', () => {
+  it('validates arbitrary values against a schema', () => {
+    const errors: { field: string; message: string }[] = [];
+    validateSchema({ type: 'array', items: { type: 'number', multipleOf: 0.5 } }, [1, 1.25], 'prices', errors);
+    expect(errors).toEqual([{ field: 'prices[1]', message: 'prices[1] must be a multiple of 0.5' }]);
+  });
+});
+
+describe('compilePatterns', () => {
+  it('reports every pattern that is not a valid regular expression, wherever it is nested', () => {
+    const errors = compilePatterns({
+      code: { type: 'string', pattern: '^\\d{4}$' },
+      tags: { type: 'array', items: { type: 'string', pattern: '(' } },
+      size: { type: 'string', anyOf: [{ pattern: '[z-a]' }] },
+    });
+    expect(errors.map(e => e.field)).toEqual(['tags[]', 'size']);
+    expect(errors[0].message).toMatch(/^tags\[\] has an invalid pattern: /);
+  });
+});